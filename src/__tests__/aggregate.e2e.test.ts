@@ -0,0 +1,53 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let salesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  salesPath = join(testDir, "sales.xlsx");
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("aggregate_excel", () => {
+  it("should aggregate per group by month", async () => {
+    const result = await client.callTool({
+      name: "aggregate_excel",
+      arguments: {
+        filePath: salesPath,
+        groupBy: [{ column: "Date", bucket: "month" }],
+        aggregations: [{ fn: "sum", column: "Revenue" }],
+      },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalRows).toBe(5);
+    expect(data.chunk.data[1]).toEqual({ "Date (month)": "2024-02", "sum(Revenue)": 330 });
+  });
+
+  it("should reject an unknown aggregation function", async () => {
+    await expect(
+      client.callTool({
+        name: "aggregate_excel",
+        arguments: { filePath: salesPath, aggregations: [{ fn: "mode", column: "Revenue" }] },
+      }),
+    ).rejects.toThrow(/Invalid aggregate_excel arguments/);
+  });
+});
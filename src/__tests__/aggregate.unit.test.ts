@@ -0,0 +1,201 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { aggregateExcel, bucketDate, percentile } from "../aggregate.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let salesPath: string;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+  salesPath = join(testDir, "sales.xlsx");
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("bucketDate", () => {
+  it("should label days, months, quarters and years", () => {
+    const date = new Date(2024, 4, 7);
+
+    expect(bucketDate(date, "day")).toBe("2024-05-07");
+    expect(bucketDate(date, "month")).toBe("2024-05");
+    expect(bucketDate(date, "quarter")).toBe("2024-Q2");
+    expect(bucketDate(date, "year")).toBe("2024");
+  });
+
+  it("should use ISO weeks", () => {
+    expect(bucketDate(new Date(2024, 0, 1), "week")).toBe("2024-W01");
+    expect(bucketDate(new Date(2023, 0, 1), "week")).toBe("2022-W52");
+    expect(bucketDate(new Date(2024, 11, 30), "week")).toBe("2025-W01");
+  });
+});
+
+describe("percentile", () => {
+  it("should interpolate between ranks like PERCENTILE.INC", () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([50, 70, 80, 100, 120, 250, 300], 90)).toBeCloseTo(270);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("aggregateExcel", () => {
+  it("should group and sum, with blank groups last", () => {
+    const result = aggregateExcel({
+      filePath: salesPath,
+      groupBy: ["Region"],
+      aggregations: [{ fn: "sum", column: "Revenue" }, { fn: "count" }],
+    });
+
+    expect(result.matchedRows).toBe(7);
+    expect(result.chunk.columns).toEqual(["Region", "sum(Revenue)", "count"]);
+    expect(result.chunk.data).toEqual([
+      { Region: "East", "sum(Revenue)": 50, count: 1 },
+      { Region: "North", "sum(Revenue)": 470, count: 3 },
+      { Region: "South", "sum(Revenue)": 380, count: 2 },
+      { Region: null, "sum(Revenue)": 70, count: 1 },
+    ]);
+  });
+
+  it("should compute summary statistics over all rows without groupBy", () => {
+    const result = aggregateExcel({
+      filePath: salesPath,
+      aggregations: [
+        { fn: "median", column: "Revenue" },
+        { fn: "percentile", column: "Revenue", percentile: 90 },
+        { fn: "avg", column: "Units", as: "avgUnits" },
+        { fn: "countDistinct", column: "Product" },
+        { fn: "max", column: "Date" },
+      ],
+    });
+
+    const [row] = result.chunk.data;
+    expect(row["median(Revenue)"]).toBe(100);
+    expect(row["p90(Revenue)"]).toBeCloseTo(270);
+    expect(row.avgUnits).toBeCloseTo(20 / 7);
+    expect(row["countDistinct(Product)"]).toBe(2);
+    expect((row["max(Date)"] as Date).getMonth()).toBe(7);
+  });
+
+  it("should bucket dates and pivot on a column", () => {
+    const result = aggregateExcel({
+      filePath: salesPath,
+      groupBy: [{ column: "Date", bucket: "quarter" }],
+      pivot: "Product",
+      aggregations: [{ fn: "sum", column: "Revenue" }],
+    });
+
+    expect(result.pivotValues).toEqual(["Gadget", "Widget"]);
+    expect(result.chunk.data).toEqual([
+      { "Date (quarter)": "2024-Q1", Gadget: 250, Widget: 180 },
+      { "Date (quarter)": "2024-Q2", Gadget: 300, Widget: 120 },
+      { "Date (quarter)": "2024-Q3", Gadget: 70, Widget: 50 },
+    ]);
+  });
+
+  it("should leave pivot cells without rows blank", () => {
+    const result = aggregateExcel({
+      filePath: salesPath,
+      groupBy: ["Region"],
+      pivot: { column: "Date", bucket: "quarter" },
+      aggregations: [{ fn: "sum", column: "Units" }],
+      where: [{ column: "Region", op: "isNotEmpty" }],
+    });
+
+    expect(result.chunk.data[0]).toEqual({ Region: "East", "2024-Q1": null, "2024-Q2": null, "2024-Q3": 1 });
+  });
+
+  describe("with pivot values that print alike", () => {
+    let codesPath: string;
+
+    beforeAll(() => {
+      codesPath = join(testDir, "codes.xlsx");
+      const sheets: Record<string, unknown[][]> = {
+        Types: [
+          ["Region", "Code"],
+          ["North", 1],
+          ["North", "1"],
+        ],
+        Blanks: [
+          ["Region", "Code"],
+          ["North", null],
+          ["North", "(blank)"],
+        ],
+        Names: [
+          ["Region", "Code"],
+          ["North", "Region"],
+        ],
+      };
+      const wb = XLSX.utils.book_new();
+      for (const [name, rows] of Object.entries(sheets)) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name);
+      }
+      writeFileSync(codesPath, XLSX.write(wb, { type: "buffer", bookType: "xlsx" }));
+    });
+
+    const pivotCodes = (sheetName: string) =>
+      aggregateExcel({
+        filePath: codesPath,
+        sheetName,
+        groupBy: ["Region"],
+        pivot: "Code",
+        aggregations: [{ fn: "count" }],
+      });
+
+    it('should keep the number 1 and the text "1" apart', () => {
+      const result = pivotCodes("Types");
+
+      expect(result.pivotValues).toEqual(["1", "1 (2)"]);
+      expect(result.chunk.data).toEqual([{ Region: "North", "1": 1, "1 (2)": 1 }]);
+    });
+
+    it('should keep a blank and the text "(blank)" apart', () => {
+      const result = pivotCodes("Blanks");
+
+      expect(result.pivotValues).toHaveLength(2);
+      expect(result.chunk.data).toEqual([{ Region: "North", "(blank)": 1, "(blank) (2)": 1 }]);
+    });
+
+    it("should not overwrite a group column named like a pivot value", () => {
+      const result = pivotCodes("Names");
+
+      expect(result.pivotValues).toEqual(["Region (2)"]);
+      expect(result.chunk.data).toEqual([{ Region: "North", "Region (2)": 1 }]);
+    });
+  });
+
+  it("should filter, sort and paginate results", () => {
+    const args = {
+      filePath: salesPath,
+      groupBy: ["Product", "Region"],
+      aggregations: [{ fn: "sum" as const, column: "Revenue", as: "revenue" }],
+      where: [{ column: "Revenue", op: ">=" as const, value: 80 }],
+      orderBy: [{ column: "revenue", direction: "desc" as const }],
+      maxRows: 2,
+    };
+    const first = aggregateExcel(args);
+    const second = aggregateExcel({ ...args, startRow: first.nextChunk?.rowStart });
+
+    expect(first.matchedRows).toBe(5);
+    expect(first.totalRows).toBe(4);
+    expect(first.chunk.data.map((row) => row.revenue)).toEqual([300, 250]);
+    expect(first.hasMore).toBe(true);
+    expect(second.chunk.data.map((row) => row.revenue)).toEqual([220, 80]);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it("should reject invalid aggregations and sort columns", () => {
+    expect(() => aggregateExcel({ filePath: salesPath, aggregations: [{ fn: "sum" }] })).toThrow(
+      'Aggregation "sum" needs a column',
+    );
+    expect(() =>
+      aggregateExcel({ filePath: salesPath, aggregations: [{ fn: "percentile", column: "Revenue" }] }),
+    ).toThrow("needs a percentile between 0 and 100");
+    expect(() =>
+      aggregateExcel({ filePath: salesPath, aggregations: [{ fn: "count" }], orderBy: [{ column: "Nope" }] }),
+    ).toThrow("Cannot order by Nope. Result columns: count");
+  });
+});
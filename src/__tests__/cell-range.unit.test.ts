@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { resolveAddress, splitSheetReference } from "../cell-range.js";
+
+const used = { s: { r: 0, c: 0 }, e: { r: 9, c: 5 } }; // A1:F10
+
+describe("splitSheetReference", () => {
+  it("should split plain and quoted sheet qualifiers", () => {
+    expect(splitSheetReference("Sheet1!C5:H40")).toEqual({ sheet: "Sheet1", address: "C5:H40" });
+    expect(splitSheetReference("'It''s here'!B:D")).toEqual({ sheet: "It's here", address: "B:D" });
+    expect(splitSheetReference("C5")).toEqual({ address: "C5" });
+  });
+});
+
+describe("resolveAddress", () => {
+  it("should resolve cell ranges, ignoring absolute markers", () => {
+    expect(resolveAddress("$B$2:C3", used)).toEqual({ s: { r: 1, c: 1 }, e: { r: 2, c: 2 } });
+  });
+
+  it("should bound whole-column and whole-row ranges by the used range", () => {
+    expect(resolveAddress("B:D", used)).toEqual({ s: { r: 0, c: 1 }, e: { r: 9, c: 3 } });
+    expect(resolveAddress("3:4", used)).toEqual({ s: { r: 2, c: 0 }, e: { r: 3, c: 5 } });
+  });
+
+  it("should clip to the used range and normalize reversed corners", () => {
+    expect(resolveAddress("H40:E8", used)).toEqual({ s: { r: 7, c: 4 }, e: { r: 9, c: 5 } });
+    expect(resolveAddress("Z1:Z2", used)).toBeNull();
+  });
+
+  it("should reject malformed addresses", () => {
+    expect(() => resolveAddress("not a range", used)).toThrow(/Invalid range/);
+  });
+});
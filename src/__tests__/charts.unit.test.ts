@@ -0,0 +1,61 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getCharts } from "../charts.js";
+import { createChartsXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let chartsPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  chartsPath = await createChartsXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("getCharts", () => {
+  it("should describe a combo chart with its titles, axes and series data", async () => {
+    const result = await getCharts({ filePath: chartsPath });
+
+    expect(result.totalCharts).toBe(2);
+    expect(result.charts[0]).toEqual({
+      sheet: "Sales",
+      name: "Chart 1",
+      anchor: "E2:L18",
+      type: "combo",
+      title: "Revenue & Cost",
+      axes: [
+        { kind: "category", position: "b", title: "Month" },
+        { kind: "value", position: "l", title: "USD" },
+      ],
+      series: [
+        {
+          name: "Revenue",
+          nameRef: "Sales!$B$1",
+          categoriesRef: "Sales!$A$2:$A$4",
+          categories: ["Jan", "Feb", "Mar"],
+          valuesRef: "Sales!$B$2:$B$4",
+          values: [120, 150, 90],
+          type: "column",
+        },
+        expect.objectContaining({ name: "Cost", values: [80, 90, 85], type: "line" }),
+      ],
+    });
+  });
+
+  it("should report a single chart type and leave out a deleted title", async () => {
+    const [, pie] = (await getCharts({ filePath: chartsPath })).charts;
+
+    expect(pie).toMatchObject({ name: "Chart 2", anchor: "E20", type: "pie", axes: [] });
+    expect(pie.title).toBeUndefined();
+    expect(pie.series[0].type).toBeUndefined();
+  });
+
+  it("should find no charts in workbooks without any", async () => {
+    expect((await getCharts({ filePath: join(testDir, "basic.xlsx") })).charts).toEqual([]);
+    await expect(getCharts({ filePath: chartsPath, sheetName: "Missing" })).rejects.toThrow("Sheet not found: Missing");
+  });
+});
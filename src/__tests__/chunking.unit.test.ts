@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens, MAX_RESPONSE_SIZE, planChunk, serializeJsonRow } from "../chunking.js";
+
+describe("estimateTokens", () => {
+  it("should count ASCII by four characters and CJK by character", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("売上合計")).toBe(4);
+  });
+});
+
+describe("planChunk", () => {
+  const rows = [{ text: "short" }, { text: "x".repeat(3000) }, { text: "x".repeat(3000) }, { text: "short" }];
+
+  it("should measure every row instead of extrapolating from the first", () => {
+    const { rowEnd, sizing } = planChunk(rows, 0, { maxBytes: 5000 }, "");
+
+    expect(rowEnd).toBe(2);
+    expect(sizing.endReason).toBe("maxBytes");
+    expect(sizing.bytes).toBeLessThanOrEqual(5000);
+  });
+
+  it("should apply a token budget", () => {
+    const cjkRows = Array.from({ length: 100 }, () => ({ note: "日本語のテキスト".repeat(10) }));
+    const { rowEnd, sizing } = planChunk(cjkRows, 0, { maxTokens: 2000 }, "");
+
+    expect(sizing.maxBytes).toBeUndefined();
+    expect(sizing.endReason).toBe("maxTokens");
+    expect(sizing.tokens).toBeLessThanOrEqual(2000);
+    expect(rowEnd).toBeGreaterThan(5);
+  });
+
+  it("should report maxRows and end of data", () => {
+    expect(planChunk(rows, 0, { maxRows: 1 }, "").sizing).toMatchObject({
+      maxRows: 1,
+      maxBytes: MAX_RESPONSE_SIZE,
+      endReason: "maxRows",
+    });
+    expect(planChunk(rows, 3, {}, "")).toMatchObject({ rowEnd: 4, sizing: { endReason: "end" } });
+  });
+
+  it("should treat maxRows 0 as no row limit", () => {
+    const { rowEnd, sizing } = planChunk(rows, 0, { maxRows: 0 }, "");
+
+    expect(rowEnd).toBe(4);
+    expect(sizing.maxRows).toBeUndefined();
+    expect(sizing.endReason).toBe("end");
+  });
+
+  it("should always include at least one row", () => {
+    const { rowEnd } = planChunk(rows, 1, { maxBytes: 10 }, "");
+
+    expect(rowEnd).toBe(2);
+  });
+
+  it("should serialize rows as they appear in the pretty-printed response", () => {
+    expect(serializeJsonRow({ a: 1 })).toBe(`{\n  "a": 1\n},\n${" ".repeat(24)}`);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getComments } from "../comments.js";
+import { readExcelFile } from "../excel-reader.js";
+import { createCommentsXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let commentsPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  commentsPath = await createCommentsXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("getComments", () => {
+  it("should return legacy notes and threaded comments per sheet", async () => {
+    const result = await getComments({ filePath: commentsPath });
+
+    expect(result.totalComments).toBe(2);
+    expect(result.sheets.map((s) => s.sheet)).toEqual(["Review", "Clean"]);
+    expect(result.sheets[0].comments).toEqual([
+      { address: "B2", author: "Dana", text: "Dana: check the & lease", threaded: false },
+      {
+        address: "B3",
+        author: "Alex Kim",
+        text: "Is this approved?",
+        timestamp: "2024-03-01T09:15:00.00",
+        threaded: true,
+        resolved: true,
+        replies: [
+          { author: "Sam Lee", text: "Yes, by finance.", timestamp: "2024-03-01T10:00:00.00" },
+          { author: "Alex Kim", text: "Thanks!", timestamp: "2024-03-02T08:30:00.00" },
+        ],
+      },
+    ]);
+    expect(result.sheets[1].comments).toEqual([]);
+  });
+
+  it("should limit the result to one sheet", async () => {
+    const result = await getComments({ filePath: commentsPath, sheetName: "Clean" });
+
+    expect(result.sheets).toEqual([{ sheet: "Clean", comments: [] }]);
+    expect(result.totalComments).toBe(0);
+  });
+
+  it("should throw for an unknown sheet", async () => {
+    await expect(getComments({ filePath: commentsPath, sheetName: "Nope" })).rejects.toThrow("Sheet not found: Nope");
+  });
+});
+
+describe("readExcelFile with includeComments", () => {
+  it("should attach comments to the commented cells", () => {
+    const result = readExcelFile({ filePath: commentsPath, includeComments: true });
+    const [rent, travel] = result.currentSheet.chunk.data;
+
+    expect(rent.Item).toBe("Rent");
+    expect(rent.Amount).toEqual({
+      value: 1200,
+      comment: { author: "Dana", text: "Dana: check the & lease", threaded: false },
+    });
+    expect(travel.Amount).toEqual({
+      value: 340,
+      comment: {
+        author: "Alex Kim",
+        text: "Is this approved?",
+        threaded: true,
+        replies: [
+          { author: "Sam Lee", text: "Yes, by finance." },
+          { author: "Alex Kim", text: "Thanks!" },
+        ],
+      },
+    });
+  });
+
+  it("should leave values plain without includeComments", () => {
+    const result = readExcelFile({ filePath: commentsPath });
+
+    expect(result.currentSheet.chunk.data[0].Amount).toBe(1200);
+  });
+});
@@ -0,0 +1,94 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { listNames } from "../defined-names.js";
+import { readExcelFile } from "../excel-reader.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let namesPath: string;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+  namesPath = join(testDir, "names.xlsx");
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("listNames", () => {
+  it("should list workbook- and sheet-scoped names with their targets", () => {
+    const result = listNames({ filePath: namesPath });
+
+    expect(result.fileName).toBe("names.xlsx");
+    expect(result.totalNames).toBe(6);
+    expect(result.names.find((n) => n.name === "TaxRate")).toEqual({
+      name: "TaxRate",
+      scope: "workbook",
+      formula: "=Inputs!$B$2",
+      hidden: false,
+      sheet: "Inputs",
+      range: "B2",
+    });
+    expect(result.names.find((n) => n.scope === "sheet")).toMatchObject({
+      name: "Sales",
+      scopeSheet: "Sales Model",
+      sheet: "Sales Model",
+      range: "A1:B4",
+    });
+  });
+
+  it("should report dynamic names with their formula only", () => {
+    const dynamic = listNames({ filePath: namesPath }).names.find((n) => n.name === "SalesDynamic");
+
+    expect(dynamic?.formula).toBe("=OFFSET('Sales Model'!$A$1,0,0,COUNTA('Sales Model'!$A:$A),2)");
+    expect(dynamic?.sheet).toBeUndefined();
+    expect(dynamic?.range).toBeUndefined();
+  });
+
+  it("should flag hidden names", () => {
+    const helper = listNames({ filePath: namesPath }).names.find((n) => n.name === "Helper");
+
+    expect(helper?.hidden).toBe(true);
+  });
+
+  it("should throw for a non-existent file", () => {
+    expect(() => listNames({ filePath: "/non/existent/file.xlsx" })).toThrow("File not found");
+  });
+});
+
+describe("readExcelFile with namedRange", () => {
+  it("should read the block a name refers to", () => {
+    const result = readExcelFile({ filePath: namesPath, namedRange: "inputs_region" });
+
+    expect(result.currentSheet.name).toBe("Inputs");
+    expect(result.currentSheet.range).toBe("A1:B3");
+    expect(result.currentSheet.namedRange).toBe("Inputs_Region");
+    expect(result.currentSheet.chunk.data).toEqual([
+      { Setting: "TaxRate", Value: 0.2 },
+      { Setting: "Region", Value: "EMEA" },
+    ]);
+  });
+
+  it("should prefer the name scoped to sheetName over the workbook-level one", () => {
+    const workbookLevel = readExcelFile({ filePath: namesPath, namedRange: "Sales" });
+    const sheetLevel = readExcelFile({ filePath: namesPath, namedRange: "Sales", sheetName: "Sales Model" });
+
+    expect(workbookLevel.currentSheet.name).toBe("Inputs");
+    expect(sheetLevel.currentSheet.name).toBe("Sales Model");
+    expect(sheetLevel.currentSheet.totalRows).toBe(3);
+  });
+
+  it("should throw for names that do not resolve to a range", () => {
+    expect(() => readExcelFile({ filePath: namesPath, namedRange: "SalesDynamic" })).toThrow(
+      'Name "SalesDynamic" does not refer to a single range',
+    );
+    expect(() => readExcelFile({ filePath: namesPath, namedRange: "Missing" })).toThrow("Name not found: Missing");
+  });
+
+  it("should reject namedRange combined with range", () => {
+    expect(() => readExcelFile({ filePath: namesPath, namedRange: "TaxRate", range: "A1:B2" })).toThrow(
+      "namedRange cannot be combined with range",
+    );
+  });
+});
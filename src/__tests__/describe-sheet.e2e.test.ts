@@ -0,0 +1,51 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let basicPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  basicPath = join(testDir, "basic.xlsx");
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("describe_sheet", () => {
+  it("should profile the columns of a sheet", async () => {
+    const result = await client.callTool({
+      name: "describe_sheet",
+      arguments: { filePath: basicPath, topN: 1 },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalRows).toBe(3);
+    expect(data.columns).toHaveLength(4);
+    expect(data.columns[3]).toMatchObject({ name: "Score", type: "number", min: 72.3, max: 95.5 });
+    expect(data.columns[0].topValues).toHaveLength(1);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "describe_sheet",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
@@ -0,0 +1,86 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { describeSheet, profileColumn } from "../describe-sheet.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("profileColumn", () => {
+  it("should infer integer and number columns with numeric statistics", () => {
+    expect(profileColumn("Qty", "B", [3, 1, 2])).toMatchObject({ type: "integer", min: 1, max: 3, mean: 2 });
+    expect(profileColumn("Price", "C", [1, 2.5, undefined])).toMatchObject({
+      type: "number",
+      count: 2,
+      nullCount: 1,
+      mean: 1.75,
+    });
+  });
+
+  it("should report mixed, boolean and empty columns", () => {
+    expect(profileColumn("A", "A", [1, "n/a", 2]).type).toBe("mixed");
+    expect(profileColumn("B", "B", [true, false]).type).toBe("boolean");
+    expect(profileColumn("C", "C", [undefined, "  ", ""])).toMatchObject({
+      type: "empty",
+      count: 0,
+      nullCount: 3,
+      distinctCount: 0,
+      topValues: [],
+      samples: [],
+    });
+  });
+
+  it("should count distinct values and rank the most frequent", () => {
+    const profile = profileColumn("Status", "D", ["Open", "Closed", "Open", "Late", "Open", "Closed", 1, "1"], 2, 4);
+
+    expect(profile.distinctCount).toBe(5);
+    expect(profile.topValues).toEqual([
+      { value: "Open", count: 3 },
+      { value: "Closed", count: 2 },
+    ]);
+    expect(profile.samples).toEqual(["Open", "Closed", "Late", 1]);
+  });
+
+  it("should report the date range of date columns", () => {
+    const profile = profileColumn("Due", "E", [new Date("2024-03-01T00:00:00Z"), new Date("2024-01-01T00:00:00Z")]);
+
+    expect(profile.type).toBe("date");
+    expect(profile.dateRange).toEqual({ min: "2024-01-01T00:00:00.000Z", max: "2024-03-01T00:00:00.000Z" });
+    expect(profile.min).toBeUndefined();
+  });
+});
+
+describe("describeSheet", () => {
+  it("should profile every column of the sheet", () => {
+    const result = describeSheet({ filePath: join(testDir, "basic.xlsx") });
+
+    expect(result.sheet).toBe("Sheet1");
+    expect(result.totalRows).toBe(3);
+    expect(result.columns.map((c) => [c.name, c.column, c.type])).toEqual([
+      ["Name", "A", "text"],
+      ["Age", "B", "integer"],
+      ["Date", "C", "date"],
+      ["Score", "D", "number"],
+    ]);
+    expect(result.columns[1]).toMatchObject({ min: 25, max: 35, mean: 30, distinctCount: 3, nullCount: 0 });
+  });
+
+  it("should honour header detection and column selection", () => {
+    const result = describeSheet({ filePath: join(testDir, "report.xlsx"), header: "auto", columns: ["Q1", "A"] });
+
+    expect(result.headerRange).toBe("A3:D3");
+    expect(result.columns.map((c) => c.name)).toEqual(["Q1", "Region"]);
+    expect(result.columns[0].type).toBe("integer");
+  });
+
+  it("should throw for a non-existent file", () => {
+    expect(() => describeSheet({ filePath: "/non/existent/file.xlsx" })).toThrow("File not found");
+  });
+});
@@ -0,0 +1,66 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("diff_excel", () => {
+  it("should summarize the changes between two versions", async () => {
+    const result = await client.callTool({
+      name: "diff_excel",
+      arguments: {
+        filePath: join(testDir, "budget-v1.xlsx"),
+        otherFilePath: join(testDir, "budget-v2.xlsx"),
+        keyColumns: ["ID"],
+        maxResults: 1,
+      },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.sheetsAdded).toEqual(["Summary"]);
+    expect(data.sheets[0]).toMatchObject({ sheet: "Budget", rowsAdded: 1, rowsRemoved: 1, rowsChanged: 2 });
+    expect(data.changes).toEqual([
+      {
+        type: "cellChanged",
+        sheet: "Budget",
+        oldRow: 2,
+        newRow: 2,
+        key: { ID: 1 },
+        column: "Price",
+        address: "D2",
+        before: 1200,
+        after: 1250,
+      },
+    ]);
+    expect(data.nextStartIndex).toBe(1);
+  });
+
+  it("should reject non-string key columns", async () => {
+    await expect(
+      client.callTool({
+        name: "diff_excel",
+        arguments: { filePath: join(testDir, "budget-v1.xlsx"), keyColumns: [1] },
+      }),
+    ).rejects.toThrow(/Invalid diff_excel arguments/);
+  });
+});
@@ -0,0 +1,115 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { diffExcel, relativeFormula } from "../diff.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let v1Path: string;
+let v2Path: string;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+  v1Path = join(testDir, "budget-v1.xlsx");
+  v2Path = join(testDir, "budget-v2.xlsx");
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("relativeFormula", () => {
+  it("should make moved references compare equal and keep anchored ones absolute", () => {
+    expect(relativeFormula("=C4*D4", 3, 4)).toBe(relativeFormula("=C3*D3", 2, 4));
+    expect(relativeFormula("=$A$1+B$2", 1, 1)).toBe("=R1C1+R2C[0]");
+    expect(relativeFormula("=LOG10(A2)", 1, 0)).toBe("=LOG10(R[0]C[0])");
+  });
+});
+
+describe("diffExcel", () => {
+  it("should match rows by key and report sheet, column, row and cell changes", () => {
+    const result = diffExcel({ filePath: v1Path, otherFilePath: v2Path, keyColumns: ["ID"] });
+
+    expect(result.identical).toBe(false);
+    expect(result.sheetsAdded).toEqual(["Summary"]);
+    expect(result.sheetsRemoved).toEqual(["Notes"]);
+    expect(result.sheets).toEqual([
+      {
+        sheet: "Budget",
+        matchedBy: "key",
+        columnsAdded: ["Owner"],
+        columnsRemoved: [],
+        rowsAdded: 1,
+        rowsRemoved: 1,
+        rowsChanged: 2,
+        cellsChanged: 4,
+        formulasChanged: 1,
+      },
+    ]);
+    expect(result.changes.map((c) => [c.type, c.address ?? c.key?.ID])).toEqual([
+      ["cellChanged", "D2"],
+      ["cellChanged", "E2"],
+      ["cellChanged", "C3"],
+      ["cellChanged", "E3"],
+      ["rowAdded", 4],
+      ["rowRemoved", 2],
+    ]);
+    expect(result.changes[3]).toEqual({
+      type: "cellChanged",
+      sheet: "Budget",
+      oldRow: 4,
+      newRow: 3,
+      key: { ID: 3 },
+      column: "Total",
+      address: "E3",
+      oldAddress: "E4",
+      before: 100,
+      after: 120,
+      formulaBefore: "=C4*D4",
+      formulaAfter: "=ROUND(C3*D3,0)",
+    });
+    expect(result.changes[5]).toMatchObject({ oldRow: 3, values: { ID: 2, Item: "Travel", Qty: 2 } });
+  });
+
+  it("should match rows by position by default", () => {
+    const result = diffExcel({ filePath: v1Path, otherFilePath: v2Path, sheetName: "Budget" });
+
+    expect(result.sheetsAdded).toEqual([]);
+    expect(result.sheets[0]).toMatchObject({ matchedBy: "position", rowsAdded: 0, rowsRemoved: 0, rowsChanged: 3 });
+    expect(result.changes[2]).toMatchObject({ address: "A3", before: 2, after: 3 });
+  });
+
+  it("should leave formula changes out when asked", () => {
+    const result = diffExcel({ filePath: v1Path, otherFilePath: v2Path, keyColumns: ["ID"], compareFormulas: false });
+
+    expect(result.sheets[0].formulasChanged).toBe(0);
+    expect(result.changes[3]).not.toHaveProperty("formulaAfter");
+  });
+
+  it("should report identical workbooks", () => {
+    const result = diffExcel({
+      filePath: v1Path,
+      otherFilePath: v1Path,
+      sheetName: "Budget",
+      otherSheetName: "Budget",
+    });
+
+    expect(result.identical).toBe(true);
+    expect(result.totalChanges).toBe(0);
+  });
+
+  it("should paginate the changes", () => {
+    const result = diffExcel({ filePath: v1Path, otherFilePath: v2Path, keyColumns: ["ID"], maxResults: 4 });
+
+    expect(result.totalChanges).toBe(6);
+    expect(result.changes).toHaveLength(4);
+    expect(result.hasMore).toBe(true);
+    expect(result.nextStartIndex).toBe(4);
+  });
+
+  it("should reject missing key columns and comparisons of a sheet with itself", () => {
+    expect(() =>
+      diffExcel({ filePath: v1Path, otherFilePath: v2Path, sheetName: "Budget", keyColumns: ["Code"] }),
+    ).toThrow(/Column not found: Code/);
+    expect(() => diffExcel({ filePath: v1Path })).toThrow(/Nothing to compare/);
+  });
+});
@@ -0,0 +1,98 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { decryptWorkbook, PasswordError } from "../encryption.js";
+import { readExcelFile } from "../excel-reader.js";
+import { clearWorkbookCache } from "../workbook-cache.js";
+import { getWorkbookInfo } from "../workbook-info.js";
+import { encryptAgile, encryptStandard, encryptXls } from "./helpers/encrypt-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let xlsx: Buffer;
+let xls: Buffer;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+  xlsx = readFileSync(join(testDir, "basic.xlsx"));
+  xls = readFileSync(join(testDir, "properties.xls"));
+});
+
+afterEach(() => {
+  clearWorkbookCache();
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+function reason(run: () => unknown): string | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PasswordError) return error.reason;
+    throw error;
+  }
+  return undefined;
+}
+
+describe("decryptWorkbook", () => {
+  it("should return unencrypted files unchanged", () => {
+    expect(decryptWorkbook(xlsx, undefined, "basic.xlsx")).toEqual({ buffer: xlsx });
+    expect(decryptWorkbook(xls, "secret", "properties.xls")).toEqual({ buffer: xls });
+  });
+
+  it.each([
+    ["agile", encryptAgile],
+    ["standard", encryptStandard],
+  ])("should decrypt %s encrypted packages", (encryption, encrypt) => {
+    const encrypted = encrypt(xlsx, "s3cret");
+
+    expect(decryptWorkbook(encrypted, "s3cret", "basic.xlsx")).toEqual({ buffer: xlsx, encryption });
+    expect(reason(() => decryptWorkbook(encrypted, "wrong", "basic.xlsx"))).toBe("WrongPassword");
+    expect(reason(() => decryptWorkbook(encrypted, undefined, "basic.xlsx"))).toBe("PasswordRequired");
+  });
+
+  it("should open files encrypted with Excel's default password without one", () => {
+    const encrypted = encryptAgile(xlsx, "VelvetSweatshop");
+
+    expect(decryptWorkbook(encrypted, undefined, "basic.xlsx").buffer).toEqual(xlsx);
+  });
+
+  it.each(["rc4", "rc4CryptoApi"] as const)("should decrypt %s protected .xls workbooks", (encryption) => {
+    const filePath = join(testDir, `${encryption}.xls`);
+    writeFileSync(filePath, encryptXls(xls, "s3cret", encryption));
+
+    expect(decryptWorkbook(readFileSync(filePath), "s3cret", "x.xls").encryption).toBe(encryption);
+    expect(readExcelFile({ filePath, password: "s3cret" }).currentSheet).toEqual(
+      readExcelFile({ filePath: join(testDir, "properties.xls") }).currentSheet,
+    );
+    expect(reason(() => readExcelFile({ filePath, password: "wrong" }))).toBe("WrongPassword");
+    expect(reason(() => readExcelFile({ filePath }))).toBe("PasswordRequired");
+  });
+
+  it("should not reuse a decrypted workbook for a different password", () => {
+    const filePath = join(testDir, "cached.xlsx");
+    writeFileSync(filePath, encryptAgile(xlsx, "s3cret"));
+
+    expect(readExcelFile({ filePath, password: "s3cret" }).currentSheet.totalRows).toBeGreaterThan(0);
+    expect(reason(() => readExcelFile({ filePath, password: "wrong" }))).toBe("WrongPassword");
+  });
+});
+
+describe("getWorkbookInfo protection", () => {
+  it("should report the encryption of a password-protected workbook", async () => {
+    const filePath = join(testDir, "encrypted.xlsx");
+    writeFileSync(filePath, encryptStandard(xlsx, "s3cret"));
+
+    const result = await getWorkbookInfo({ filePath, password: "s3cret" });
+
+    expect(result.format.type).toBe("xlsx");
+    expect(result.protection).toEqual({
+      encryption: "standard",
+      structure: false,
+      windows: false,
+      protectedSheets: [],
+    });
+  });
+});
@@ -1,12 +1,23 @@
+import { writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
 import { listSheets, readExcelFile } from "../excel-reader.js";
+import type { WhereCondition } from "../types.js";
+import {
+  createChartsXlsx,
+  createCommentsXlsx,
+  createHiddenXlsx,
+  createTablesXlsx,
+} from "./helpers/generate-package-files.js";
 import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
 
 let testDir: string;
+let hiddenPath: string;
 
-beforeAll(() => {
+beforeAll(async () => {
   testDir = setupTestFiles();
+  hiddenPath = await createHiddenXlsx(testDir);
 });
 
 afterAll(() => {
@@ -71,6 +82,29 @@ describe("readExcelFile", () => {
     expect(data.currentSheet.nextChunk?.rowStart).toBe(data.currentSheet.chunk.rowEnd);
   });
 
+  it("should keep the serialized response within the byte budget", () => {
+    const data = readExcelFile({ filePath: join(testDir, "large.xlsx") });
+
+    expect(data.currentSheet.chunk.sizing.endReason).toBe("maxBytes");
+    expect(Buffer.byteLength(JSON.stringify(data, null, 2))).toBeLessThanOrEqual(100 * 1024);
+  });
+
+  it("should size chunks against a token budget", () => {
+    const data = readExcelFile({ filePath: join(testDir, "large.xlsx"), maxTokens: 4000 });
+
+    expect(data.currentSheet.chunk.sizing).toMatchObject({ maxTokens: 4000, endReason: "maxTokens" });
+    expect(data.currentSheet.chunk.sizing.tokens).toBeLessThanOrEqual(4000);
+    expect(data.currentSheet.chunk.data.length).toBeGreaterThan(0);
+  });
+
+  it("should fit more rows in a chunk with a compact output format", () => {
+    const json = readExcelFile({ filePath: join(testDir, "large.xlsx") });
+    const csv = readExcelFile({ filePath: join(testDir, "large.xlsx"), outputFormat: "csv" });
+
+    expect(csv.currentSheet.chunk.outputFormat).toBe("csv");
+    expect(csv.currentSheet.chunk.data.length).toBeGreaterThan(json.currentSheet.chunk.data.length * 2);
+  });
+
   it("should handle an empty file", () => {
     const data = readExcelFile({ filePath: join(testDir, "empty.xlsx") });
 
@@ -82,23 +116,400 @@ describe("readExcelFile", () => {
   it("should throw for a non-existent file", () => {
     expect(() => readExcelFile({ filePath: "/non/existent/file.xlsx" })).toThrow(/File not found/);
   });
+
+  it("should throw for a non-existent sheet", () => {
+    expect(() => readExcelFile({ filePath: join(testDir, "basic.xlsx"), sheetName: "Nope" })).toThrow(
+      /Sheet not found/,
+    );
+  });
+});
+
+describe("readExcelFile - range", () => {
+  it("should read a sheet-qualified A1 range", () => {
+    const data = readExcelFile({ filePath: join(testDir, "report.xlsx"), range: "Report!A3:C7" });
+
+    expect(data.currentSheet.name).toBe("Report");
+    expect(data.currentSheet.range).toBe("A3:C7");
+    expect(data.currentSheet.totalRows).toBe(4);
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Q1", "Q2"]);
+    expect(data.currentSheet.chunk.cellRange).toBe("A4:C7");
+    expect(data.currentSheet.chunk.data[0]).toEqual({ Region: "North", Q1: 100, Q2: 120 });
+  });
+
+  it("should paginate within the range", () => {
+    const data = readExcelFile({ filePath: join(testDir, "report.xlsx"), range: "A3:C7", startRow: 1, maxRows: 2 });
+
+    expect(data.currentSheet.chunk.data.map((row) => row.Region)).toEqual(["South", "East"]);
+    expect(data.currentSheet.chunk.cellRange).toBe("A5:C6");
+    expect(data.currentSheet.hasMore).toBe(true);
+  });
+
+  it("should bound whole-column ranges by the used range", () => {
+    const data = readExcelFile({ filePath: join(testDir, "basic.xlsx"), range: "b:b" });
+
+    expect(data.currentSheet.range).toBe("B1:B4");
+    expect(data.currentSheet.chunk.columns).toEqual(["Age"]);
+    expect(data.currentSheet.chunk.cellRange).toBe("B2:B4");
+  });
+
+  it("should report cell addresses for unranged reads", () => {
+    const data = readExcelFile({ filePath: join(testDir, "basic.xlsx") });
+
+    expect(data.currentSheet.range).toBeUndefined();
+    expect(data.currentSheet.chunk.cellRange).toBe("A2:D4");
+  });
+
+  it("should return no rows for a range outside the used range", () => {
+    const data = readExcelFile({ filePath: join(testDir, "basic.xlsx"), range: "Z100:Z200" });
+
+    expect(data.currentSheet.totalRows).toBe(0);
+    expect(data.currentSheet.chunk.cellRange).toBeUndefined();
+  });
+
+  it("should reject a range whose sheet conflicts with sheetName", () => {
+    expect(() =>
+      readExcelFile({ filePath: join(testDir, "multi-sheet.xlsx"), sheetName: "Cities", range: "Colors!A1:B2" }),
+    ).toThrow(/does not match/);
+  });
+});
+
+describe("readExcelFile - headers", () => {
+  it("should use an explicit header row", () => {
+    const data = readExcelFile({ filePath: join(testDir, "report.xlsx"), headerRow: 3 });
+
+    expect(data.currentSheet.headerRange).toBe("A3:D3");
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Q1", "Q2", "Notes"]);
+    expect(data.currentSheet.totalRows).toBe(4);
+    expect(data.currentSheet.chunk.data[0].Region).toBe("North");
+  });
+
+  it("should detect a header row below a title banner", () => {
+    const data = readExcelFile({ filePath: join(testDir, "report.xlsx"), header: "auto" });
+
+    expect(data.currentSheet.headerRange).toBe("A3:D3");
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Q1", "Q2", "Notes"]);
+  });
+
+  it("should detect a header row below a merged title banner", () => {
+    const filePath = join(testDir, "merged-banner.xlsx");
+    const worksheet = XLSX.utils.aoa_to_sheet([["Quarterly Report"], [], ["Region", "Q1", "Q2"], ["North", 100, 120]]);
+    worksheet["!merges"] = [XLSX.utils.decode_range("A1:C1")];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
+    writeFileSync(filePath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+
+    const data = readExcelFile({ filePath, header: "auto" });
+
+    expect(data.currentSheet.headerRange).toBe("A3:C3");
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Q1", "Q2"]);
+    expect(data.currentSheet.chunk.data).toEqual([{ Region: "North", Q1: 100, Q2: 120 }]);
+  });
+
+  it("should join merged multi-row headers in auto mode", () => {
+    const data = readExcelFile({ filePath: join(testDir, "grouped-headers.xlsx"), header: "auto" });
+
+    expect(data.currentSheet.headerRange).toBe("A2:E3");
+    expect(data.currentSheet.chunk.columns).toEqual([
+      "Region",
+      "Q1 / Revenue",
+      "Q1 / Units",
+      "Q2 / Revenue",
+      "Q2 / Units",
+    ]);
+    expect(data.currentSheet.chunk.data[1]).toEqual({
+      Region: "South",
+      "Q1 / Revenue": 80,
+      "Q1 / Units": 8,
+      "Q2 / Revenue": 90,
+      "Q2 / Units": 9,
+    });
+  });
+
+  it("should join an explicit number of header rows", () => {
+    const data = readExcelFile({ filePath: join(testDir, "grouped-headers.xlsx"), headerRow: 2, headerRows: 2 });
+
+    expect(data.currentSheet.chunk.columns[1]).toBe("Q1 / Revenue");
+    expect(data.currentSheet.totalRows).toBe(2);
+  });
+
+  it("should key rows by column letter when header is none", () => {
+    const data = readExcelFile({ filePath: join(testDir, "basic.xlsx"), header: "none" });
+
+    expect(data.currentSheet.headerRange).toBeUndefined();
+    expect(data.currentSheet.chunk.columns).toEqual(["A", "B", "C", "D"]);
+    expect(data.currentSheet.totalRows).toBe(4);
+    expect(data.currentSheet.chunk.data[0].A).toBe("Name");
+    expect(data.currentSheet.chunk.cellRange).toBe("A1:D4");
+  });
+
+  it("should only take column names for header none from the tools, not the caller", () => {
+    const args = { filePath: join(testDir, "basic.xlsx"), header: "none" as const, columnNames: ["Who"] };
+
+    expect(readExcelFile(args).currentSheet.chunk.columns).toEqual(["A", "B", "C", "D"]);
+    expect(readExcelFile(args, { columnNames: ["Who"] }).currentSheet.chunk.columns).toEqual(["Who", "B", "C", "D"]);
+  });
+
+  it("should reject a header row outside the range", () => {
+    expect(() => readExcelFile({ filePath: join(testDir, "report.xlsx"), range: "A3:D7", headerRow: 1 })).toThrow(
+      /outside the range/,
+    );
+  });
+});
+
+describe("readExcelFile - columns and where", () => {
+  const report = () => join(testDir, "report.xlsx");
+
+  it("should filter rows before pagination", () => {
+    const data = readExcelFile({
+      filePath: report(),
+      headerRow: 3,
+      where: [{ column: "Q1", op: ">", value: 70 }],
+      maxRows: 1,
+    });
+
+    expect(data.currentSheet.totalRows).toBe(2);
+    expect(data.currentSheet.chunk.data[0].Region).toBe("North");
+    expect(data.currentSheet.hasMore).toBe(true);
+  });
+
+  it("should support column letters, text and emptiness operators", () => {
+    const regions = (where: WhereCondition[]) =>
+      readExcelFile({ filePath: report(), headerRow: 3, where }).currentSheet.chunk.data.map((row) => row.Region);
+
+    expect(regions([{ column: "B", op: "<", value: 70 }])).toEqual(["East", "West"]);
+    expect(regions([{ column: "Notes", op: "contains", value: "LAT" }])).toEqual(["South"]);
+    expect(regions([{ column: "Notes", op: "isEmpty" }])).toEqual(["East"]);
+    expect(regions([{ column: "Region", op: "regex", value: "^[NS]" }])).toEqual(["North", "South"]);
+    expect(
+      regions([
+        { column: "Region", op: "!=", value: "North" },
+        { column: "Q2", op: ">=", value: 75 },
+      ]),
+    ).toEqual(["South", "East"]);
+  });
+
+  it("should project selected columns in the requested order", () => {
+    const data = readExcelFile({ filePath: report(), headerRow: 3, columns: ["Q2", "A"] });
+
+    expect(data.currentSheet.chunk.columns).toEqual(["Q2", "Region"]);
+    expect(data.currentSheet.totalColumns).toBe(2);
+    expect(Object.keys(data.currentSheet.chunk.data[0])).toEqual(["Q2", "Region"]);
+    expect(data.currentSheet.chunk.cellRange).toBe("A4:D7");
+  });
+
+  it("should throw for an unknown column", () => {
+    expect(() => readExcelFile({ filePath: report(), headerRow: 3, columns: ["Revenue"] })).toThrow(
+      /Column not found: Revenue/,
+    );
+  });
+});
+
+describe("readExcelFile - valueMode", () => {
+  it("should return raw values by default", () => {
+    const row = readExcelFile({ filePath: join(testDir, "formats.xlsx") }).currentSheet.chunk.data[0];
+
+    expect(row.Rate).toBe(0.125);
+    expect(row.Price).toBe(1234.5);
+  });
+
+  it("should return displayed text in formatted mode", () => {
+    const data = readExcelFile({ filePath: join(testDir, "formats.xlsx"), valueMode: "formatted" });
+    const row = data.currentSheet.chunk.data[0];
+
+    expect(row).toEqual({ Item: "Widget", Rate: "12.5%", Price: "$1,234.50", Due: "05 Mar 2024" });
+  });
+
+  it("should return value, text and format in both mode", () => {
+    const data = readExcelFile({ filePath: join(testDir, "formats.xlsx"), valueMode: "both" });
+    const row = data.currentSheet.chunk.data[0];
+
+    expect(row.Item).toBe("Widget");
+    expect(row.Rate).toEqual({ value: 0.125, text: "12.5%", format: "0.0%" });
+    expect(row.Price).toEqual({ value: 1234.5, text: "$1,234.50", format: '"$"#,##0.00' });
+    expect(row.Due).toMatchObject({ text: "05 Mar 2024", format: "dd mmm yyyy" });
+  });
+});
+
+describe("readExcelFile - merged cells", () => {
+  it("should report merged regions", () => {
+    const data = readExcelFile({ filePath: join(testDir, "merged.xlsx") });
+
+    expect(data.currentSheet.merges).toEqual(["A2:A4", "A5:A6"]);
+    expect(data.currentSheet.chunk.data[1]).toEqual({ Item: "Pear", Qty: 5 });
+  });
+
+  it("should only report merges overlapping the range", () => {
+    const data = readExcelFile({ filePath: join(testDir, "merged.xlsx"), range: "A4:C6" });
+
+    expect(data.currentSheet.merges).toEqual(["A2:A4", "A5:A6"]);
+    expect(readExcelFile({ filePath: join(testDir, "merged.xlsx"), range: "B:C" }).currentSheet.merges).toBeUndefined();
+  });
+
+  it("should keep chunks with many merges within the byte budget", () => {
+    const filePath = join(testDir, "many-merges.xlsx");
+    const rows = [["Item", "Note", ""], ...Array.from({ length: 3000 }, (_, i) => [`Item ${i}`, "x", ""])];
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    worksheet["!merges"] = rows.map((_, r) => ({ s: { r, c: 1 }, e: { r, c: 2 } }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
+    writeFileSync(filePath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+
+    const first = readExcelFile({ filePath, maxBytes: 8000 });
+    const second = readExcelFile({ filePath, maxBytes: 8000, startRow: first.currentSheet.nextChunk?.rowStart });
+
+    expect(first.currentSheet.hasMore).toBe(true);
+    expect(Buffer.byteLength(JSON.stringify(first, null, 2))).toBeLessThanOrEqual(8000);
+    expect(Buffer.byteLength(JSON.stringify(second, null, 2))).toBeLessThanOrEqual(8000);
+    expect(first.currentSheet.merges?.[0]).toBe("B1:C1");
+    expect(first.currentSheet.merges).toHaveLength(first.currentSheet.chunk.data.length + 1);
+    expect(second.currentSheet.merges).toHaveLength(second.currentSheet.chunk.data.length);
+    expect(second.currentSheet.merges?.[0]).toBe(
+      `B${second.currentSheet.chunk.rowStart + 2}:C${second.currentSheet.chunk.rowStart + 2}`,
+    );
+  });
+
+  it("should fill merged values into every covered cell", () => {
+    const data = readExcelFile({ filePath: join(testDir, "merged.xlsx"), fillMerged: true });
+
+    expect(data.currentSheet.chunk.data.map((row) => row.Category)).toEqual(["Fruit", "Fruit", "Fruit", "Veg", "Veg"]);
+    expect(
+      readExcelFile({ filePath: join(testDir, "merged.xlsx") }).currentSheet.chunk.data[1].Category,
+    ).toBeUndefined();
+  });
+
+  it("should filter on filled merged values", () => {
+    const data = readExcelFile({
+      filePath: join(testDir, "merged.xlsx"),
+      fillMerged: true,
+      where: [{ column: "Category", op: "=", value: "Veg" }],
+    });
+
+    expect(data.currentSheet.chunk.data.map((row) => row.Item)).toEqual(["Leek", "Kale"]);
+  });
+});
+
+describe("readExcelFile - includeHyperlinks", () => {
+  it("should attach external, email and internal link targets", () => {
+    const data = readExcelFile({ filePath: join(testDir, "links.xlsx"), includeHyperlinks: true });
+    const links = data.currentSheet.chunk.data.map((row) => row.Link);
+
+    expect(links[0]).toEqual({
+      value: "acme.example",
+      hyperlink: { type: "external", target: "https://acme.example/", tooltip: "Vendor site" },
+    });
+    expect(links[1]).toEqual({ value: "Email Bob", hyperlink: { type: "email", target: "mailto:bob@example.com" } });
+    expect(links[2]).toEqual({ value: "See totals", hyperlink: { type: "internal", target: "Totals!B2" } });
+    expect(links[3]).toEqual({
+      value: "Go",
+      hyperlink: { type: "external", target: 'https://docs.example/?q="x"', fromFormula: true },
+    });
+    expect(links[4]).toBe("no link");
+  });
+
+  it("should keep plain values when not requested", () => {
+    const data = readExcelFile({ filePath: join(testDir, "links.xlsx") });
+
+    expect(data.currentSheet.chunk.data[0].Link).toBe("acme.example");
+  });
+});
+
+describe("readExcelFile - hidden content", () => {
+  it("should mark hidden sheets, columns and rows", () => {
+    const sheet = readExcelFile({ filePath: hiddenPath, sheetName: "Report" }).currentSheet;
+
+    expect(sheet.totalRows).toBe(4);
+    expect(sheet.hiddenColumns).toEqual(["Internal"]);
+    expect(sheet.chunk.hiddenRows).toEqual([5]);
+    expect(sheet.chunk.filteredRows).toEqual([3]);
+    expect(sheet.visibility).toBeUndefined();
+    expect(readExcelFile({ filePath: hiddenPath }).currentSheet).toMatchObject({
+      name: "Scratch",
+      visibility: "veryHidden",
+    });
+  });
+
+  it("should skip hidden and filtered-out content from the first visible sheet", () => {
+    const sheet = readExcelFile({ filePath: hiddenPath, skipHidden: true }).currentSheet;
+
+    expect(sheet.name).toBe("Report");
+    expect(sheet.chunk.data).toEqual([
+      { Region: "North", Amount: 100, Status: "Open" },
+      { Region: "South", Amount: 200, Status: "Open" },
+    ]);
+    expect([sheet.totalRows, sheet.totalColumns]).toEqual([2, 3]);
+    expect([sheet.skippedRows, sheet.skippedColumns]).toEqual([2, ["Internal"]]);
+    expect(sheet.chunk.hiddenRows).toBeUndefined();
+  });
+
+  it("should still return hidden columns asked for by name", () => {
+    const sheet = readExcelFile({
+      filePath: hiddenPath,
+      sheetName: "Report",
+      skipHidden: true,
+      columns: ["Internal"],
+    }).currentSheet;
+
+    expect(sheet.chunk.data).toEqual([{ Internal: "x1" }, { Internal: "x3" }]);
+    expect(sheet.hiddenColumns).toEqual(["Internal"]);
+    expect(sheet.skippedColumns).toEqual([]);
+  });
 });
 
 describe("listSheets", () => {
-  it("should list sheets for a single-sheet file", () => {
-    const result = listSheets({ filePath: join(testDir, "basic.xlsx") });
+  it("should list sheets for a single-sheet file", async () => {
+    const result = await listSheets({ filePath: join(testDir, "basic.xlsx") });
 
     expect(result.fileName).toBe("basic.xlsx");
     expect(result.sheets).toEqual(["Sheet1"]);
   });
 
-  it("should list all sheets for a multi-sheet file", () => {
-    const result = listSheets({ filePath: join(testDir, "multi-sheet.xlsx") });
+  it("should list all sheets for a multi-sheet file", async () => {
+    const result = await listSheets({ filePath: join(testDir, "multi-sheet.xlsx") });
 
     expect(result.sheets).toEqual(["Products", "Cities", "Colors"]);
   });
 
-  it("should throw for a non-existent file", () => {
-    expect(() => listSheets({ filePath: "/non/existent/file.xlsx" })).toThrow(/File not found/);
+  it("should summarize each sheet's size and contents", async () => {
+    expect((await listSheets({ filePath: join(testDir, "basic.xlsx") })).sheetInfo).toEqual([
+      {
+        name: "Sheet1",
+        visibility: "visible",
+        type: "worksheet",
+        usedRange: "A1:D4",
+        rowCount: 4,
+        columnCount: 4,
+        headerPreview: ["Name", "Age", "Date", "Score"],
+        mergeCount: 0,
+        formulaCount: 0,
+        commentCount: 0,
+        tableCount: 0,
+        imageCount: 0,
+        chartCount: 0,
+      },
+    ]);
+    expect((await listSheets({ filePath: join(testDir, "merged.xlsx") })).sheetInfo[0].mergeCount).toBe(2);
+  });
+
+  it("should count tables, formulas, comments and charts in packages", async () => {
+    const [sales] = (await listSheets({ filePath: await createTablesXlsx(testDir) })).sheetInfo;
+    expect(sales).toMatchObject({ tableCount: 2, formulaCount: 1, usedRange: "A1:F7" });
+
+    const [review] = (await listSheets({ filePath: await createCommentsXlsx(testDir) })).sheetInfo;
+    expect(review.commentCount).toBe(2);
+
+    const [charts] = (await listSheets({ filePath: await createChartsXlsx(testDir) })).sheetInfo;
+    expect([charts.chartCount, charts.imageCount]).toEqual([2, 0]);
+  });
+
+  it("should report each sheet's visibility", async () => {
+    expect((await listSheets({ filePath: hiddenPath })).sheetInfo.map((info) => info.visibility)).toEqual([
+      "veryHidden",
+      "hidden",
+      "visible",
+    ]);
+  });
+
+  it("should throw for a non-existent file", async () => {
+    await expect(listSheets({ filePath: "/non/existent/file.xlsx" })).rejects.toThrow(/File not found/);
   });
 });
@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import JSZip from "jszip";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { readExcelFile } from "../excel-reader.js";
+import { writeExcelFile } from "../excel-writer.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+async function readPart(filePath: string, part: string): Promise<string> {
+  const zip = await JSZip.loadAsync(readFileSync(filePath));
+  return (await zip.file(part)?.async("string")) ?? "";
+}
+
+describe("writeExcelFile", () => {
+  it("should write object rows as typed cells that read back unchanged", async () => {
+    const filePath = join(testDir, "sales-out.xlsx");
+    const result = await writeExcelFile({
+      filePath,
+      sheets: [
+        {
+          name: "Sales",
+          rows: [
+            { Region: "North", Revenue: 1200.5, Closed: true, Date: "2024-01-15" },
+            { Region: "South & West", Revenue: 800, Date: "2024-02-20T13:30:00Z", Notes: "late" },
+          ],
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      filePath,
+      format: "xlsx",
+      sheets: [
+        { name: "Sales", columns: ["Region", "Revenue", "Closed", "Date", "Notes"], rowCount: 2, range: "A1:E3" },
+      ],
+    });
+    expect(result.fileSize).toBe(readFileSync(filePath).length);
+
+    const sheet = XLSX.read(readFileSync(filePath)).Sheets.Sales;
+    expect(sheet.B2).toMatchObject({ t: "n", v: 1200.5 });
+    expect(sheet.C2).toMatchObject({ t: "b", v: true });
+    expect(sheet.D2).toMatchObject({ t: "n", v: 45306, w: "2024-01-15" });
+    expect(sheet.D3).toMatchObject({ v: 45342.5625, w: "2024-02-20 13:30:00" });
+    expect(sheet.C3).toBeUndefined();
+
+    const data = readExcelFile({ filePath }).currentSheet.chunk.data;
+    expect(data[0]).toMatchObject({ Region: "North", Revenue: 1200.5, Closed: true });
+    expect(data[0].Date).toEqual(new Date("2024-01-15T00:00:00Z"));
+    expect(data[1]).toMatchObject({ Region: "South & West", Date: new Date("2024-02-20T13:30:00Z"), Notes: "late" });
+  });
+
+  it("should apply column order, widths, number formats, header style, frozen panes and autofilter", async () => {
+    const filePath = join(testDir, "formatted.xlsx");
+    await writeExcelFile({
+      filePath,
+      sheets: [
+        {
+          name: "Bob's Plan",
+          rows: [
+            { Amount: 1234.5, Item: "Widgets", Share: 0.25 },
+            { Amount: 99, Item: "Gadgets", Share: 0.75 },
+          ],
+          columns: ["Item", "Amount", "Share"],
+          columnWidths: { Item: 30 },
+          numberFormats: { Amount: "#,##0.00", Share: "0%" },
+          headerStyle: { fillColor: "#DDEBF7", fontColor: "1F4E78" },
+          freezePanes: { rows: 1, columns: 1 },
+          autoFilter: true,
+        },
+      ],
+    });
+
+    const sheetXml = await readPart(filePath, "xl/worksheets/sheet1.xml");
+    expect(sheetXml).toContain('<col min="1" max="1" width="30" customWidth="1"/>');
+    expect(sheetXml).toContain(
+      '<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>',
+    );
+    expect(sheetXml).toContain('<autoFilter ref="A1:C3"/>');
+    expect(await readPart(filePath, "xl/workbook.xml")).toContain(
+      `<definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'Bob''s Plan'!$A$1:$C$3</definedName>`,
+    );
+    const stylesXml = await readPart(filePath, "xl/styles.xml");
+    expect(stylesXml).toContain('<font><b/><sz val="11"/><color rgb="FF1F4E78"/>');
+    expect(stylesXml).toContain('<fgColor rgb="FFDDEBF7"/>');
+
+    const sheet = XLSX.read(readFileSync(filePath)).Sheets["Bob's Plan"];
+    expect([sheet.A1.v, sheet.B1.v, sheet.C1.v]).toEqual(["Item", "Amount", "Share"]);
+    expect(sheet.B2).toMatchObject({ v: 1234.5, w: "1,234.50" });
+    expect(sheet.C3).toMatchObject({ v: 0.75, w: "75%" });
+  });
+
+  it("should take the header from the first array row unless columns are given", async () => {
+    const filePath = join(testDir, "arrays.xlsx");
+    const result = await writeExcelFile({
+      filePath,
+      sheets: [
+        { name: "First", rows: [["Name", "Score"], ["Ann", 9], ["Bo"]] },
+        { name: "Second", rows: [["Cy", 7]], columns: ["Name", "Score"] },
+      ],
+    });
+
+    expect(result.sheets.map(({ columns, rowCount }) => ({ columns, rowCount }))).toEqual([
+      { columns: ["Name", "Score"], rowCount: 2 },
+      { columns: ["Name", "Score"], rowCount: 1 },
+    ]);
+    expect(readExcelFile({ filePath, sheetName: "Second" }).currentSheet.chunk.data).toEqual([
+      { Name: "Cy", Score: 7 },
+    ]);
+    await expect(
+      writeExcelFile({ filePath: join(testDir, "wide.xlsx"), sheets: [{ name: "S", rows: [["A"], [1, 2]] }] }),
+    ).rejects.toThrow('Row 1 of sheet "S" has 2 values but there are only 1 columns');
+  });
+
+  it("should write a single sheet as .csv", async () => {
+    const filePath = join(testDir, "out.csv");
+    const result = await writeExcelFile({
+      filePath,
+      sheets: [
+        {
+          name: "Data",
+          rows: [
+            { City: "Paris, FR", Count: 3 },
+            { City: 'Say "hi"', Count: 4 },
+          ],
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({ format: "csv", sheets: [{ range: "A1:B3", rowCount: 2 }] });
+    expect(readFileSync(filePath, "utf8")).toBe('\ufeffCity,Count\n"Paris, FR",3\n"Say ""hi""",4\n');
+    await expect(
+      writeExcelFile({
+        filePath: join(testDir, "two.csv"),
+        sheets: [
+          { name: "A", rows: [] },
+          { name: "B", rows: [] },
+        ],
+      }),
+    ).rejects.toThrow("A .csv file holds a single sheet");
+  });
+
+  it("should refuse to replace an existing file unless overwrite is set", async () => {
+    const filePath = join(testDir, "existing.xlsx");
+    writeFileSync(filePath, "keep me");
+    const args = { filePath, sheets: [{ name: "Sheet1", rows: [{ A: 1 }] }] };
+
+    await expect(writeExcelFile(args)).rejects.toThrow("File already exists");
+    expect(readFileSync(filePath, "utf8")).toBe("keep me");
+
+    await writeExcelFile({ ...args, overwrite: true });
+    expect(readExcelFile({ filePath }).currentSheet.chunk.data).toEqual([{ A: 1 }]);
+  });
+
+  it("should reject invalid sheet names, output formats and directories", async () => {
+    const sheets = [{ name: "Sheet1", rows: [] }];
+    await expect(
+      writeExcelFile({ filePath: join(testDir, "bad.xlsx"), sheets: [{ name: "a/b", rows: [] }] }),
+    ).rejects.toThrow('Invalid sheet name "a/b"');
+    await expect(
+      writeExcelFile({
+        filePath: join(testDir, "dup.xlsx"),
+        sheets: [
+          { name: "Data", rows: [] },
+          { name: "DATA", rows: [] },
+        ],
+      }),
+    ).rejects.toThrow("Duplicate sheet name: DATA");
+    await expect(writeExcelFile({ filePath: join(testDir, "out.xls"), sheets })).rejects.toThrow(
+      'Unsupported output format ".xls"',
+    );
+    await expect(writeExcelFile({ filePath: join(testDir, "missing", "out.xlsx"), sheets })).rejects.toThrow(
+      "Directory not found",
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { readExcelFile } from "../excel-reader.js";
+import { getFormulas } from "../formulas.js";
+import { createFormulasXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let formulasPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  formulasPath = await createFormulasXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("getFormulas", () => {
+  it("should list every formula cell with shared formulas expanded", () => {
+    const result = getFormulas({ filePath: formulasPath });
+
+    expect(result.sheet).toBe("Calc");
+    expect(result.totalFormulas).toBe(5);
+    expect(result.formulas.find((f) => f.address === "D2")).toEqual({ address: "D2", formula: "=B2*C2", value: 20 });
+    expect(result.formulas.find((f) => f.address === "D3")).toEqual({ address: "D3", formula: "=B3*C3", value: 15 });
+    expect(result.formulas.find((f) => f.address === "D4")?.formula).toBe("=SUM(D2:D3)");
+  });
+
+  it("should mark array formulas with their range", () => {
+    const result = getFormulas({ filePath: formulasPath, range: "E:E" });
+
+    expect(result.range).toBe("E1:E4");
+    expect(result.formulas).toEqual([
+      { address: "E2", formula: "=B2:B3*2", array: "E2:E3", value: 4 },
+      { address: "E3", formula: "=B2:B3*2", array: "E2:E3", value: 6 },
+    ]);
+  });
+
+  it("should paginate formulas", () => {
+    const result = getFormulas({ filePath: formulasPath, startIndex: 1, maxResults: 2 });
+
+    expect(result.formulas.map((f) => f.address)).toEqual(["E2", "D3"]);
+    expect(result.hasMore).toBe(true);
+    expect(result.nextStartIndex).toBe(3);
+  });
+});
+
+describe("readExcelFile - includeFormulas", () => {
+  it("should return formula cells as value and formula objects", () => {
+    const data = readExcelFile({ filePath: formulasPath, includeFormulas: true });
+    const rows = data.currentSheet.chunk.data;
+
+    expect(rows[0].Qty).toBe(2);
+    expect(rows[0].Total).toEqual({ value: 20, formula: "=B2*C2" });
+    expect(rows[1].Double).toEqual({ value: 6, formula: "=B2:B3*2", array: "E2:E3" });
+    expect(rows[2].Total).toEqual({ value: 35, formula: "=SUM(D2:D3)" });
+  });
+
+  it("should leave values plain by default", () => {
+    const data = readExcelFile({ filePath: formulasPath });
+
+    expect(data.currentSheet.chunk.data[0].Total).toBe(20);
+  });
+});
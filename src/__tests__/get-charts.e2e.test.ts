@@ -0,0 +1,60 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createChartsXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let chartsPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  chartsPath = await createChartsXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("get_charts", () => {
+  it("should return charts with their cached series values", async () => {
+    const result = await client.callTool({
+      name: "get_charts",
+      arguments: { filePath: chartsPath, sheetName: "Sales" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalCharts).toBe(2);
+    expect(data.charts[0]).toMatchObject({ title: "Revenue & Cost", type: "combo", anchor: "E2:L18" });
+    expect(data.charts[0].series[0].values).toEqual([120, 150, 90]);
+  });
+
+  it("should reject invalid arguments", async () => {
+    await expect(
+      client.callTool({
+        name: "get_charts",
+        arguments: { filePath: chartsPath, sheetName: 1 },
+      }),
+    ).rejects.toThrow(/Invalid get_charts arguments/);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "get_charts",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
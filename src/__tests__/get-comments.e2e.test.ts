@@ -0,0 +1,53 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createCommentsXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let commentsPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  commentsPath = await createCommentsXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("get_comments", () => {
+  it("should list comments with their reply chains", async () => {
+    const result = await client.callTool({
+      name: "get_comments",
+      arguments: { filePath: commentsPath, sheetName: "Review" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalComments).toBe(2);
+    const [note, thread] = data.sheets[0].comments;
+    expect(note).toMatchObject({ address: "B2", author: "Dana", threaded: false });
+    expect(thread).toMatchObject({ address: "B3", author: "Alex Kim", resolved: true });
+    expect(thread.replies).toHaveLength(2);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "get_comments",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
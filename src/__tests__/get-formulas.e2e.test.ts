@@ -0,0 +1,50 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createFormulasXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let formulasPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  formulasPath = await createFormulasXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("get_formulas", () => {
+  it("should list formulas in a range", async () => {
+    const result = await client.callTool({
+      name: "get_formulas",
+      arguments: { filePath: formulasPath, range: "Calc!D2:D4" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalFormulas).toBe(3);
+    expect(data.formulas.map((f: { formula: string }) => f.formula)).toEqual(["=B2*C2", "=B3*C3", "=SUM(D2:D3)"]);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "get_formulas",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
@@ -0,0 +1,63 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createPivotXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let pivotPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  pivotPath = await createPivotXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("get_pivot_tables", () => {
+  it("should describe pivot tables with their cache records", async () => {
+    const result = await client.callTool({
+      name: "get_pivot_tables",
+      arguments: { filePath: pivotPath, includeRecords: true },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalPivotTables).toBe(1);
+    const [pivot] = data.pivotTables;
+    expect(pivot).toMatchObject({ name: "SalesPivot", sheet: "Summary", rowFields: ["Region"] });
+    expect(pivot.dataFields.map((field: { function: string }) => field.function)).toEqual(["sum", "count"]);
+    expect(pivot.records).toHaveLength(4);
+    expect(pivot.hasMoreRecords).toBe(false);
+  });
+
+  it("should reject invalid arguments", async () => {
+    await expect(
+      client.callTool({
+        name: "get_pivot_tables",
+        arguments: { filePath: pivotPath, includeRecords: "yes" },
+      }),
+    ).rejects.toThrow(/Invalid get_pivot_tables arguments/);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "get_pivot_tables",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
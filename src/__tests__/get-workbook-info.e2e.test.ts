@@ -0,0 +1,75 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createPropertiesXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let propertiesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  propertiesPath = await createPropertiesXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("get_workbook_info", () => {
+  it("should return document properties and workbook settings", async () => {
+    const result = await client.callTool({
+      name: "get_workbook_info",
+      arguments: { filePath: propertiesPath },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data).toMatchObject({
+      fileName: "properties.xlsx",
+      format: { type: "xlsx", container: "zip" },
+      properties: { title: "Budget & Plan", author: "Ana", company: "Acme" },
+      customProperties: { Project: "Apollo" },
+      dateSystem: 1900,
+      calcMode: "manual",
+    });
+  });
+
+  it("should read .xls files", async () => {
+    const result = await client.callTool({
+      name: "get_workbook_info",
+      arguments: { filePath: join(testDir, "properties.xls") },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data).toMatchObject({ format: { type: "xls", biffVersion: 8 }, dateSystem: 1904 });
+  });
+
+  it("should reject invalid arguments", async () => {
+    await expect(
+      client.callTool({
+        name: "get_workbook_info",
+        arguments: { filePath: 1 },
+      }),
+    ).rejects.toThrow(/Invalid get_workbook_info arguments/);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "get_workbook_info",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
@@ -0,0 +1,216 @@
+import { createCipheriv, createHash, randomBytes } from "node:crypto";
+import * as CFB from "cfb";
+
+const hash = (algorithm: string, ...parts: Buffer[]): Buffer =>
+  createHash(algorithm).update(Buffer.concat(parts)).digest();
+
+const uint16 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+};
+
+const uint32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+
+const padTo16 = (data: Buffer): Buffer =>
+  data.length % 16 === 0 ? data : Buffer.concat([data, Buffer.alloc(16 - (data.length % 16))]);
+
+function aesEncrypt(mode: "cbc" | "ecb", key: Buffer, iv: Buffer | null, data: Buffer): Buffer {
+  const cipher = createCipheriv(`aes-${key.length * 8}-${mode}`, key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(padTo16(data)), cipher.final()]);
+}
+
+function rc4Keystream(key: Buffer, length: number): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = Buffer.alloc(length);
+  for (let n = 0, i = 0, j = 0; n < length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+function compoundFile(streams: Record<string, Buffer>): Buffer {
+  const cfb = CFB.utils.cfb_new();
+  for (const [name, content] of Object.entries(streams)) CFB.utils.cfb_add(cfb, name, content);
+  return Buffer.from(CFB.write(cfb, { type: "buffer" }) as Buffer);
+}
+
+const sizePrefix = (length: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(length));
+  return buffer;
+};
+
+/**
+ * Encrypt an .xlsx package the way Excel 2010+ does: ECMA-376 Agile
+ * encryption with AES-256 and SHA-512 (a low spin count keeps tests fast).
+ */
+export function encryptAgile(plain: Buffer, password: string): Buffer {
+  const spinCount = 1000;
+  const keySalt = randomBytes(16);
+  const passwordSalt = randomBytes(16);
+  const secretKey = randomBytes(32);
+  const verifierInput = randomBytes(16);
+
+  let passwordHash = hash("sha512", passwordSalt, Buffer.from(password, "utf16le"));
+  for (let i = 0; i < spinCount; i++) passwordHash = hash("sha512", uint32(i), passwordHash);
+  const encryptValue = (block: number[], value: Buffer) =>
+    aesEncrypt("cbc", hash("sha512", passwordHash, Buffer.from(block)).subarray(0, 32), passwordSalt, value).toString(
+      "base64",
+    );
+
+  const segments: Buffer[] = [];
+  for (let offset = 0, i = 0; offset < plain.length; offset += 4096, i++) {
+    const iv = hash("sha512", keySalt, uint32(i)).subarray(0, 16);
+    segments.push(aesEncrypt("cbc", secretKey, iv, plain.subarray(offset, offset + 4096)));
+  }
+
+  const cipher = `cipherAlgorithm="AES" cipherChaining="ChainingModeCBC" hashAlgorithm="SHA512"`;
+  const sizes = `saltSize="16" blockSize="16" keyBits="256" hashSize="64"`;
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<encryption xmlns="http://schemas.microsoft.com/office/2006/encryption" xmlns:p="http://schemas.microsoft.com/office/2006/keyEncryptor/password">
+<keyData ${sizes} ${cipher} saltValue="${keySalt.toString("base64")}"/>
+<keyEncryptors><keyEncryptor uri="http://schemas.microsoft.com/office/2006/keyEncryptor/password">
+<p:encryptedKey spinCount="${spinCount}" ${sizes} ${cipher} saltValue="${passwordSalt.toString("base64")}" encryptedVerifierHashInput="${encryptValue([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79], verifierInput)}" encryptedVerifierHashValue="${encryptValue([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e], hash("sha512", verifierInput))}" encryptedKeyValue="${encryptValue([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6], secretKey)}"/>
+</keyEncryptor></keyEncryptors>
+</encryption>`;
+
+  return compoundFile({
+    EncryptionInfo: Buffer.concat([uint16(4), uint16(4), uint32(0x40), Buffer.from(xml)]),
+    EncryptedPackage: Buffer.concat([sizePrefix(plain.length), ...segments]),
+  });
+}
+
+// EncryptionHeader (after its version) and EncryptionVerifier, as Standard encryption and RC4 CryptoAPI store them
+function cryptoApiHeader(algId: number, keyBits: number, provider: string, verifier: Buffer[]): Buffer {
+  const flags = algId === 0x6801 ? 0x04 : 0x24;
+  const header = Buffer.concat([
+    uint32(flags),
+    uint32(0),
+    uint32(algId),
+    uint32(0x8004),
+    uint32(keyBits),
+    uint32(algId === 0x6801 ? 1 : 0x18),
+    uint32(0),
+    uint32(0),
+    Buffer.from(`${provider}\0`, "utf16le"),
+  ]);
+  const [salt, encryptedVerifier, encryptedVerifierHash] = verifier;
+  return Buffer.concat([
+    uint32(flags),
+    uint32(header.length),
+    header,
+    uint32(salt.length),
+    salt,
+    encryptedVerifier,
+    uint32(20),
+    encryptedVerifierHash,
+  ]);
+}
+
+/**
+ * Encrypt an .xlsx package with ECMA-376 Standard encryption (AES-128 in ECB
+ * mode), as Excel 2007 does.
+ */
+export function encryptStandard(plain: Buffer, password: string): Buffer {
+  const salt = randomBytes(16);
+  let passwordHash = hash("sha1", salt, Buffer.from(password, "utf16le"));
+  for (let i = 0; i < 50000; i++) passwordHash = hash("sha1", uint32(i), passwordHash);
+  const final = hash("sha1", passwordHash, uint32(0));
+  const derive = (fill: number) => {
+    const buffer = Buffer.alloc(64, fill);
+    for (let i = 0; i < final.length; i++) buffer[i] ^= final[i];
+    return hash("sha1", buffer);
+  };
+  const key = Buffer.concat([derive(0x36), derive(0x5c)]).subarray(0, 16);
+
+  const verifier = randomBytes(16);
+  const header = cryptoApiHeader(0x660e, 128, "Microsoft Enhanced RSA and AES Cryptographic Provider", [
+    salt,
+    aesEncrypt("ecb", key, null, verifier),
+    aesEncrypt("ecb", key, null, hash("sha1", verifier)),
+  ]);
+  return compoundFile({
+    EncryptionInfo: Buffer.concat([uint16(4), uint16(2), header]),
+    EncryptedPackage: Buffer.concat([sizePrefix(plain.length), aesEncrypt("ecb", key, null, plain)]),
+  });
+}
+
+// Records MS-XLS leaves unencrypted after FILEPASS: BOF, FILEPASS, USREXCL, FILELOCK, INTERFACEHDR, RRDINFO, RRDHEAD
+const UNENCRYPTED_RECORDS = new Set([0x0809, 0x002f, 0x0194, 0x0195, 0x00e1, 0x0196, 0x0138]);
+
+/**
+ * Password-protect an .xls written by SheetJS with RC4 (Excel 97) or RC4
+ * CryptoAPI (Excel 2002+): a FILEPASS record goes in after the globals BOF,
+ * the sheet offsets move down past it, and the records after it are
+ * encrypted with a keystream re-keyed every 1024 bytes.
+ */
+export function encryptXls(xls: Buffer, password: string, method: "rc4" | "rc4CryptoApi"): Buffer {
+  const salt = randomBytes(16);
+  const verifier = randomBytes(16);
+  let blockKey: (block: number) => Buffer;
+  let filePass: Buffer;
+  if (method === "rc4") {
+    const truncated = hash("md5", Buffer.from(password, "utf16le")).subarray(0, 5);
+    const intermediate = hash("md5", ...Array.from({ length: 16 }, () => Buffer.concat([truncated, salt]))).subarray(
+      0,
+      5,
+    );
+    blockKey = (block) => hash("md5", intermediate, uint32(block));
+    const check = Buffer.concat([verifier, hash("md5", verifier)]);
+    const keystream = rc4Keystream(blockKey(0), check.length);
+    const encrypted = Buffer.from(check.map((byte, i) => byte ^ keystream[i]));
+    filePass = Buffer.concat([uint16(1), uint16(1), uint16(1), salt, encrypted]);
+  } else {
+    const base = hash("sha1", salt, Buffer.from(password, "utf16le"));
+    blockKey = (block) => hash("sha1", base, uint32(block)).subarray(0, 16);
+    const check = Buffer.concat([verifier, hash("sha1", verifier)]);
+    const keystream = rc4Keystream(blockKey(0), check.length);
+    const encrypted = Buffer.from(check.map((byte, i) => byte ^ keystream[i]));
+    const header = cryptoApiHeader(0x6801, 128, "Microsoft Enhanced Cryptographic Provider v1.0", [
+      salt,
+      encrypted.subarray(0, 16),
+      encrypted.subarray(16),
+    ]);
+    filePass = Buffer.concat([uint16(1), uint16(2), uint16(2), header]);
+  }
+
+  const cfb = CFB.read(xls, { type: "buffer" });
+  const entry = CFB.find(cfb, "/Workbook");
+  if (!entry?.content) throw new Error("No Workbook stream");
+  const plain = Buffer.from(entry.content);
+  const bofEnd = 4 + plain.readUInt16LE(2);
+  const record = Buffer.concat([uint16(0x002f), uint16(filePass.length), filePass]);
+  const stream = Buffer.concat([plain.subarray(0, bofEnd), record, plain.subarray(bofEnd)]);
+
+  const keystream = Buffer.alloc(stream.length);
+  for (let block = 0; block * 1024 < stream.length; block++) {
+    keystream.set(rc4Keystream(blockKey(block), Math.min(1024, stream.length - block * 1024)), block * 1024);
+  }
+  for (let pos = bofEnd; pos + 4 <= stream.length; ) {
+    const type = stream.readUInt16LE(pos);
+    const size = stream.readUInt16LE(pos + 2);
+    const data = pos + 4;
+    if (type === 0x0085) stream.writeUInt32LE(stream.readUInt32LE(data) + record.length, data);
+    if (!UNENCRYPTED_RECORDS.has(type)) {
+      for (let i = data + (type === 0x0085 ? 4 : 0); i < data + size; i++) stream[i] ^= keystream[i];
+    }
+    pos = data + size;
+  }
+
+  entry.content = stream;
+  entry.size = stream.length;
+  return Buffer.from(CFB.write(cfb, { type: "buffer" }) as Buffer);
+}
@@ -0,0 +1,537 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import JSZip from "jszip";
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+export interface PackageSheet {
+  name: string;
+  /** Worksheet body: <sheetData> plus any elements that follow it */
+  body: string;
+  /** Relationships of the worksheet part, as [id, type, target]; types without a scheme are in the officeDocument namespace */
+  rels?: [string, string, string][];
+}
+
+export interface PackageOptions {
+  sheets: PackageSheet[];
+  /** Extra parts by path, with their content type (or null for rels/media defaults) */
+  parts?: Record<string, { contentType: string | null; content: string | Buffer }>;
+  /** Extra workbook relationships, as [id, type, target] */
+  workbookRels?: [string, string, string][];
+  /** XML inserted into workbook.xml after <sheets> (e.g. <definedNames>) */
+  workbookExtra?: string;
+  /** Attributes for the <sheet> elements, by sheet name */
+  sheetAttributes?: Record<string, string>;
+}
+
+const relsXml = (rels: [string, string, string][]): string =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PKG_REL_NS}">
+${rels.map(([id, type, target]) => `  <Relationship Id="${id}" Type="${type.includes("://") ? type : `${REL_NS}/${type}`}" Target="${target}"/>`).join("\n")}
+</Relationships>`;
+
+/**
+ * Build an inline-string or numeric cell, optionally with a formula element.
+ */
+export function cell(ref: string, value: string | number | null, formula?: string): string {
+  const f = formula ?? "";
+  if (typeof value === "string") {
+    return `<c r="${ref}" t="${formula ? "str" : "inlineStr"}">${f}${formula ? `<v>${value}</v>` : `<is><t>${value}</t></is>`}</c>`;
+  }
+  return `<c r="${ref}">${f}${value === null ? "" : `<v>${value}</v>`}</c>`;
+}
+
+export const row = (r: number, cells: string[]): string => `<row r="${r}">${cells.join("")}</row>`;
+
+/**
+ * Write a minimal .xlsx package part by part, for features SheetJS cannot
+ * write itself (shared formulas, comments, tables, pivots, charts...).
+ */
+export async function writeXlsxPackage(filePath: string, options: PackageOptions): Promise<string> {
+  const { sheets, parts = {}, workbookRels = [], workbookExtra = "", sheetAttributes = {} } = options;
+  const zip = new JSZip();
+
+  const overrides = [
+    `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>`,
+    ...sheets.map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+    ),
+    ...Object.entries(parts)
+      .filter(([, part]) => part.contentType)
+      .map(([path, part]) => `<Override PartName="/${path}" ContentType="${part.contentType}"/>`),
+  ];
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="png" ContentType="image/png"/>
+  ${overrides.join("\n  ")}
+</Types>`,
+  );
+
+  zip.file("_rels/.rels", relsXml([["rId1", "officeDocument", "xl/workbook.xml"]]));
+
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+  <sheets>
+${sheets.map((s, i) => `    <sheet name="${s.name}" sheetId="${i + 1}" r:id="rId${i + 1}"${sheetAttributes[s.name] ? ` ${sheetAttributes[s.name]}` : ""}/>`).join("\n")}
+  </sheets>${workbookExtra}
+</workbook>`,
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    relsXml([
+      ...sheets.map((_, i): [string, string, string] => [`rId${i + 1}`, "worksheet", `worksheets/sheet${i + 1}.xml`]),
+      ...workbookRels,
+    ]),
+  );
+
+  sheets.forEach((sheet, i) => {
+    zip.file(
+      `xl/worksheets/sheet${i + 1}.xml`,
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">${sheet.body}</worksheet>`,
+    );
+    if (sheet.rels) {
+      zip.file(`xl/worksheets/_rels/sheet${i + 1}.xml.rels`, relsXml(sheet.rels));
+    }
+  });
+
+  for (const [path, part] of Object.entries(parts)) {
+    zip.file(path, part.content);
+  }
+
+  writeFileSync(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+  return filePath;
+}
+
+/**
+ * Formulas: a shared formula over D2:D3, a plain SUM and an array formula over E2:E3.
+ */
+export function createFormulasXlsx(testDir: string): Promise<string> {
+  return writeXlsxPackage(join(testDir, "formulas.xlsx"), {
+    sheets: [
+      {
+        name: "Calc",
+        body: `<sheetData>
+${row(1, [cell("A1", "Item"), cell("B1", "Qty"), cell("C1", "Price"), cell("D1", "Total"), cell("E1", "Double")])}
+${row(2, [
+  cell("A2", "a"),
+  cell("B2", 2),
+  cell("C2", 10),
+  cell("D2", 20, '<f t="shared" ref="D2:D3" si="0">B2*C2</f>'),
+  cell("E2", 4, '<f t="array" ref="E2:E3">B2:B3*2</f>'),
+])}
+${row(3, [cell("A3", "b"), cell("B3", 3), cell("C3", 5), cell("D3", 15, '<f t="shared" si="0"/>'), cell("E3", 6)])}
+${row(4, [cell("A4", "Sum"), cell("D4", 35, "<f>SUM(D2:D3)</f>")])}
+</sheetData>`,
+      },
+    ],
+  });
+}
+
+const TC_NS = "http://schemas.microsoft.com/office/spreadsheetml/2018/threadedcomments";
+
+/**
+ * Comments: a rich-text legacy note on B2 and a resolved threaded comment with
+ * two replies on B3, alongside the placeholder note Excel writes for it.
+ */
+export function createCommentsXlsx(testDir: string): Promise<string> {
+  return writeXlsxPackage(join(testDir, "comments.xlsx"), {
+    sheets: [
+      {
+        name: "Review",
+        body: `<sheetData>
+${row(1, [cell("A1", "Item"), cell("B1", "Amount")])}
+${row(2, [cell("A2", "Rent"), cell("B2", 1200)])}
+${row(3, [cell("A3", "Travel"), cell("B3", 340)])}
+</sheetData>`,
+        rels: [
+          ["rId1", "comments", "../comments1.xml"],
+          [
+            "rId2",
+            "http://schemas.microsoft.com/office/2017/10/relationships/threadedComment",
+            "../threadedComments/threadedComment1.xml",
+          ],
+        ],
+      },
+      { name: "Clean", body: `<sheetData>${row(1, [cell("A1", "Nothing to see")])}</sheetData>` },
+    ],
+    workbookRels: [["rId9", "http://schemas.microsoft.com/office/2017/10/relationships/person", "persons/person.xml"]],
+    parts: {
+      "xl/comments1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<comments xmlns="${MAIN_NS}">
+  <authors><author>Dana</author><author>tc={00000000-0000-0000-0000-000000000001}</author></authors>
+  <commentList>
+    <comment ref="B2" authorId="0"><text><r><rPr><b/></rPr><t>Dana:</t></r><r><t xml:space="preserve"> check the &amp; lease</t></r></text></comment>
+    <comment ref="B3" authorId="1"><text><t>[Threaded comment] Is this approved?</t></text></comment>
+  </commentList>
+</comments>`,
+      },
+      "xl/threadedComments/threadedComment1.xml": {
+        contentType: "application/vnd.ms-excel.threadedcomments+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<ThreadedComments xmlns="${TC_NS}">
+  <threadedComment ref="B3" dT="2024-03-01T09:15:00.00" personId="{P1}" id="{00000000-0000-0000-0000-000000000001}" done="1"><text>Is this approved?</text></threadedComment>
+  <threadedComment ref="B3" dT="2024-03-01T10:00:00.00" personId="{P2}" id="{00000000-0000-0000-0000-000000000002}" parentId="{00000000-0000-0000-0000-000000000001}"><text>Yes, by finance.</text></threadedComment>
+  <threadedComment ref="B3" dT="2024-03-02T08:30:00.00" personId="{P1}" id="{00000000-0000-0000-0000-000000000003}" parentId="{00000000-0000-0000-0000-000000000001}"><text>Thanks!</text></threadedComment>
+</ThreadedComments>`,
+      },
+      "xl/persons/person.xml": {
+        contentType: "application/vnd.ms-excel.person+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<personList xmlns="${TC_NS}">
+  <person displayName="Alex Kim" id="{P1}" userId="alex@example.com" providerId="AD"/>
+  <person displayName="Sam Lee" id="{P2}" userId="sam@example.com" providerId="AD"/>
+</personList>`,
+      },
+    },
+  });
+}
+
+const tableXml = (id: number, name: string, ref: string, columns: string[], attributes = ""): string =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<table xmlns="${MAIN_NS}" id="${id}" name="Table${id}" displayName="${name}" ref="${ref}"${attributes}>
+  <tableColumns count="${columns.length}">${columns.map((c, i) => `<tableColumn id="${i + 1}" name="${c}"/>`).join("")}</tableColumns>
+</table>`;
+
+const TABLE_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml";
+
+/**
+ * Tables: "Orders" (A1:C5, with a totals row) and "Returns" (E1:F3) side by
+ * side on one sheet with a stray note below them, "Staff" on a second sheet,
+ * and "Shifts" without a header row on a third.
+ */
+export function createTablesXlsx(testDir: string): Promise<string> {
+  return writeXlsxPackage(join(testDir, "tables.xlsx"), {
+    sheets: [
+      {
+        name: "Sales",
+        body: `<sheetData>
+${row(1, [cell("A1", "Order"), cell("B1", "Region"), cell("C1", "Amount"), cell("E1", "Order"), cell("F1", "Reason")])}
+${row(2, [cell("A2", 1001), cell("B2", "North"), cell("C2", 250), cell("E2", 1002), cell("F2", "Damaged")])}
+${row(3, [cell("A3", 1002), cell("B3", "South"), cell("C3", 400), cell("E3", 1003), cell("F3", "Late")])}
+${row(4, [cell("A4", 1003), cell("B4", "North"), cell("C4", 150)])}
+${row(5, [cell("A5", "Total"), cell("C5", 800, "<f>SUBTOTAL(109,Orders[Amount])</f>")])}
+${row(7, [cell("A7", "Draft figures, do not share")])}
+</sheetData>
+<tableParts count="2"><tablePart r:id="rId1"/><tablePart r:id="rId2"/></tableParts>`,
+        rels: [
+          ["rId1", "table", "../tables/table1.xml"],
+          ["rId2", "table", "../tables/table2.xml"],
+        ],
+      },
+      {
+        name: "Team",
+        body: `<sheetData>
+${row(2, [cell("B2", "Name"), cell("C2", "Start Date")])}
+${row(3, [cell("B3", "Ana"), cell("C3", 45292)])}
+</sheetData>
+<tableParts count="1"><tablePart r:id="rId1"/></tableParts>`,
+        rels: [["rId1", "table", "../tables/table3.xml"]],
+      },
+      {
+        name: "Rota",
+        body: `<sheetData>
+${row(1, [cell("A1", "Mon"), cell("B1", "Ana")])}
+${row(2, [cell("A2", "Tue"), cell("B2", "Raj")])}
+</sheetData>
+<tableParts count="1"><tablePart r:id="rId1"/></tableParts>`,
+        rels: [["rId1", "table", "../tables/table4.xml"]],
+      },
+    ],
+    parts: {
+      "xl/tables/table1.xml": {
+        contentType: TABLE_CONTENT_TYPE,
+        content: tableXml(1, "Orders", "A1:C5", ["Order", "Region", "Amount"], ' totalsRowCount="1"'),
+      },
+      "xl/tables/table2.xml": {
+        contentType: TABLE_CONTENT_TYPE,
+        content: tableXml(2, "Returns", "E1:F3", ["Order", "Reason"]),
+      },
+      "xl/tables/table3.xml": {
+        contentType: TABLE_CONTENT_TYPE,
+        content: tableXml(3, "Staff", "B2:C3", ["Name", "Start_x0020_Date"]),
+      },
+      "xl/tables/table4.xml": {
+        contentType: TABLE_CONTENT_TYPE,
+        content: tableXml(4, "Shifts", "A1:B2", ["Day", "Person"], ' headerRowCount="0"'),
+      },
+    },
+  });
+}
+
+/**
+ * Pivot: a Data sheet (Region, Product, Amount) and a "Summary" pivot over
+ * A1:C5 with Region on rows (East unticked, plus a value filter), the two data
+ * fields across columns, and Product as a report filter showing Widget.
+ */
+export function createPivotXlsx(testDir: string): Promise<string> {
+  const data: [string, string, number][] = [
+    ["North", "Widget", 100],
+    ["South", "Gadget", 200],
+    ["North", "Gadget", 50],
+    ["East", "Widget", 30],
+  ];
+  return writeXlsxPackage(join(testDir, "pivot.xlsx"), {
+    sheets: [
+      {
+        name: "Data",
+        body: `<sheetData>
+${row(1, [cell("A1", "Region"), cell("B1", "Product"), cell("C1", "Amount")])}
+${data.map(([region, product, amount], i) => row(i + 2, [cell(`A${i + 2}`, region), cell(`B${i + 2}`, product), cell(`C${i + 2}`, amount)])).join("\n")}
+</sheetData>`,
+      },
+      {
+        name: "Summary",
+        body: `<sheetData>
+${row(1, [cell("A1", "Product"), cell("B1", "Widget")])}
+${row(3, [cell("A3", "Region"), cell("B3", "Total Amount"), cell("C3", "Share")])}
+${row(4, [cell("A4", "North"), cell("B4", 100), cell("C4", 1)])}
+</sheetData>`,
+        rels: [["rId1", "pivotTable", "../pivotTables/pivotTable1.xml"]],
+      },
+    ],
+    workbookExtra: `<pivotCaches><pivotCache cacheId="1" r:id="rId10"/></pivotCaches>`,
+    workbookRels: [["rId10", "pivotCacheDefinition", "pivotCache/pivotCacheDefinition1.xml"]],
+    parts: {
+      "xl/pivotTables/pivotTable1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotTable+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<pivotTableDefinition xmlns="${MAIN_NS}" name="SalesPivot" cacheId="1" dataCaption="Values">
+  <location ref="A3:C5" firstHeaderRow="1" firstDataRow="1" firstDataCol="1" rowPageCount="1" colPageCount="1"/>
+  <pivotFields count="3">
+    <pivotField axis="axisRow" showAll="0"><items count="4"><item x="2" h="1"/><item x="0"/><item x="1"/><item t="default"/></items></pivotField>
+    <pivotField axis="axisPage" showAll="0"><items count="3"><item x="0"/><item x="1"/><item t="default"/></items></pivotField>
+    <pivotField dataField="1" showAll="0"/>
+  </pivotFields>
+  <rowFields count="1"><field x="0"/></rowFields>
+  <colFields count="1"><field x="-2"/></colFields>
+  <pageFields count="1"><pageField fld="1" item="0" hier="-1"/></pageFields>
+  <dataFields count="2">
+    <dataField name="Total Amount" fld="2" baseField="0" baseItem="0"/>
+    <dataField name="Share" fld="2" subtotal="count" showDataAs="percentOfTotal" baseField="0" baseItem="0"/>
+  </dataFields>
+  <filters count="1">
+    <filter fld="0" type="valueGreaterThan" evalOrder="-1" id="1" iMeasureFld="0">
+      <autoFilter ref="A1"><filterColumn colId="0"><customFilters><customFilter operator="greaterThan" val="60"/></customFilters></filterColumn></autoFilter>
+    </filter>
+  </filters>
+</pivotTableDefinition>`,
+      },
+      "xl/pivotTables/_rels/pivotTable1.xml.rels": {
+        contentType: null,
+        content: relsXml([["rId1", "pivotCacheDefinition", "../pivotCache/pivotCacheDefinition1.xml"]]),
+      },
+      "xl/pivotCache/pivotCacheDefinition1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheDefinition+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<pivotCacheDefinition xmlns="${MAIN_NS}" xmlns:r="${REL_NS}" r:id="rId1" recordCount="4">
+  <cacheSource type="worksheet"><worksheetSource ref="A1:C5" sheet="Data"/></cacheSource>
+  <cacheFields count="3">
+    <cacheField name="Region" numFmtId="0"><sharedItems count="3"><s v="North"/><s v="South"/><s v="East"/></sharedItems></cacheField>
+    <cacheField name="Product" numFmtId="0"><sharedItems count="2"><s v="Widget"/><s v="Gadget"/></sharedItems></cacheField>
+    <cacheField name="Amount" numFmtId="0"><sharedItems containsSemiMixedTypes="0" containsString="0" containsNumber="1" containsInteger="1" minValue="30" maxValue="200"/></cacheField>
+  </cacheFields>
+</pivotCacheDefinition>`,
+      },
+      "xl/pivotCache/_rels/pivotCacheDefinition1.xml.rels": {
+        contentType: null,
+        content: relsXml([["rId1", "pivotCacheRecords", "pivotCacheRecords1.xml"]]),
+      },
+      "xl/pivotCache/pivotCacheRecords1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheRecords+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<pivotCacheRecords xmlns="${MAIN_NS}" count="4">
+  <r><x v="0"/><x v="0"/><n v="100"/></r>
+  <r><x v="1"/><x v="1"/><n v="200"/></r>
+  <r><x v="0"/><x v="1"/><n v="50"/></r>
+  <r><x v="2"/><x v="0"/><n v="30"/></r>
+</pivotCacheRecords>`,
+      },
+    },
+  });
+}
+
+const CHART_NS = "http://schemas.openxmlformats.org/drawingml/2006/chart";
+const DRAWING_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+
+const richTitle = (text: string): string =>
+  `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title>`;
+
+const pointsXml = (values: (string | number)[]): string =>
+  `<c:ptCount val="${values.length}"/>${values.map((v, i) => `<c:pt idx="${i}"><c:v>${v}</c:v></c:pt>`).join("")}`;
+
+const seriesXml = (index: number, column: string, name: string, values: number[]): string =>
+  `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>
+    <c:tx><c:strRef><c:f>Sales!$${column}$1</c:f><c:strCache>${pointsXml([name])}</c:strCache></c:strRef></c:tx>
+    <c:cat><c:strRef><c:f>Sales!$A$2:$A$4</c:f><c:strCache>${pointsXml(["Jan", "Feb", "Mar"])}</c:strCache></c:strRef></c:cat>
+    <c:val><c:numRef><c:f>Sales!$${column}$2:$${column}$4</c:f><c:numCache><c:formatCode>General</c:formatCode>${pointsXml(values)}</c:numCache></c:numRef></c:val>
+  </c:ser>`;
+
+/**
+ * Charts: on the Sales sheet (Month, Revenue, Cost), a titled combo chart with
+ * Revenue as columns and Cost as a line, anchored over E2:L18, and an untitled
+ * pie of Revenue with a one-cell anchor at E20.
+ */
+export function createChartsXlsx(testDir: string): Promise<string> {
+  const chartXml = (plot: string): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<c:chartSpace xmlns:c="${CHART_NS}" xmlns:a="${DRAWING_NS}" xmlns:r="${REL_NS}">
+  <c:chart>${plot}</c:chart>
+</c:chartSpace>`;
+  const axis = (element: string, id: number, position: string, title: string) =>
+    `<c:${element}><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="${position}"/>${title ? richTitle(title) : ""}<c:crossAx val="${id === 1 ? 2 : 1}"/></c:${element}>`;
+  const graphicFrame = (id: number, name: string) =>
+    `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${id + 1}" name="${name}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr><xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm><a:graphic><a:graphicData uri="${CHART_NS}"><c:chart xmlns:c="${CHART_NS}" r:id="rId${id}"/></a:graphicData></a:graphic></xdr:graphicFrame>`;
+
+  return writeXlsxPackage(join(testDir, "charts.xlsx"), {
+    sheets: [
+      {
+        name: "Sales",
+        body: `<sheetData>
+${row(1, [cell("A1", "Month"), cell("B1", "Revenue"), cell("C1", "Cost")])}
+${row(2, [cell("A2", "Jan"), cell("B2", 120), cell("C2", 80)])}
+${row(3, [cell("A3", "Feb"), cell("B3", 150), cell("C3", 90)])}
+${row(4, [cell("A4", "Mar"), cell("B4", 90), cell("C4", 85)])}
+</sheetData>
+<drawing r:id="rId1"/>`,
+        rels: [["rId1", "drawing", "../drawings/drawing1.xml"]],
+      },
+    ],
+    parts: {
+      "xl/drawings/drawing1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.drawing+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="${DRAWING_NS}" xmlns:r="${REL_NS}">
+  <xdr:twoCellAnchor>
+    <xdr:from><xdr:col>4</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>1</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>
+    <xdr:to><xdr:col>11</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>17</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>
+    ${graphicFrame(1, "Chart 1")}<xdr:clientData/>
+  </xdr:twoCellAnchor>
+  <xdr:oneCellAnchor>
+    <xdr:from><xdr:col>4</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>19</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>
+    <xdr:ext cx="4572000" cy="2743200"/>
+    ${graphicFrame(2, "Chart 2")}<xdr:clientData/>
+  </xdr:oneCellAnchor>
+</xdr:wsDr>`,
+      },
+      "xl/drawings/_rels/drawing1.xml.rels": {
+        contentType: null,
+        content: relsXml([
+          ["rId1", "chart", "../charts/chart1.xml"],
+          ["rId2", "chart", "../charts/chart2.xml"],
+        ]),
+      },
+      "xl/charts/chart1.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.drawingml.chart+xml",
+        content: chartXml(`${richTitle("Revenue &amp; Cost")}<c:autoTitleDeleted val="0"/>
+  <c:plotArea><c:layout/>
+    <c:barChart><c:barDir val="col"/><c:grouping val="clustered"/>${seriesXml(0, "B", "Revenue", [120, 150, 90])}<c:axId val="1"/><c:axId val="2"/></c:barChart>
+    <c:lineChart><c:grouping val="standard"/>${seriesXml(1, "C", "Cost", [80, 90, 85])}<c:axId val="1"/><c:axId val="2"/></c:lineChart>
+    ${axis("catAx", 1, "b", "Month")}
+    ${axis("valAx", 2, "l", "USD")}
+  </c:plotArea>`),
+      },
+      "xl/charts/chart2.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.drawingml.chart+xml",
+        content: chartXml(`<c:autoTitleDeleted val="1"/>
+  <c:plotArea><c:layout/>
+    <c:pieChart><c:varyColors val="1"/>${seriesXml(0, "B", "Revenue", [120, 150, 90])}</c:pieChart>
+  </c:plotArea>`),
+      },
+    },
+  });
+}
+
+/**
+ * Hidden content: a veryHidden "Scratch" sheet first, a hidden "Lookup" sheet,
+ * then "Report" (Region, Amount, Internal, Status) with column C hidden, an
+ * autofilter over A1:D4 that hides row 3, and row 5 hidden by hand.
+ */
+export function createHiddenXlsx(testDir: string): Promise<string> {
+  const hiddenRow = (r: number, cells: string[]) => `<row r="${r}" hidden="1">${cells.join("")}</row>`;
+  return writeXlsxPackage(join(testDir, "hidden.xlsx"), {
+    sheets: [
+      {
+        name: "Scratch",
+        body: `<sheetData>${row(1, [cell("A1", "Draft")])}${row(2, [cell("A2", 999)])}</sheetData>`,
+      },
+      {
+        name: "Lookup",
+        body: `<sheetData>${row(1, [cell("A1", "Code")])}${row(2, [cell("A2", "N")])}</sheetData>`,
+      },
+      {
+        name: "Report",
+        body: `<cols><col min="3" max="3" width="0" hidden="1" customWidth="1"/></cols>
+<sheetData>
+${row(1, [cell("A1", "Region"), cell("B1", "Amount"), cell("C1", "Internal"), cell("D1", "Status")])}
+${row(2, [cell("A2", "North"), cell("B2", 100), cell("C2", "x1"), cell("D2", "Open")])}
+${hiddenRow(3, [cell("A3", "East"), cell("B3", 50), cell("C3", "x2"), cell("D3", "Closed")])}
+${row(4, [cell("A4", "South"), cell("B4", 200), cell("C4", "x3"), cell("D4", "Open")])}
+${hiddenRow(5, [cell("A5", "West"), cell("B5", 75), cell("C5", "x4"), cell("D5", "Open")])}
+</sheetData>
+<autoFilter ref="A1:D4"><filterColumn colId="3"><filters><filter val="Open"/></filters></filterColumn></autoFilter>`,
+      },
+    ],
+    sheetAttributes: { Scratch: 'state="veryHidden"', Lookup: 'state="hidden"' },
+  });
+}
+
+/**
+ * Document properties: core, extended and custom docProps parts, with
+ * calculation set to manual.
+ */
+export function createPropertiesXlsx(testDir: string): Promise<string> {
+  const props = "http://schemas.openxmlformats.org/officeDocument/2006";
+  const vt = `xmlns:vt="${props}/docPropsVTypes"`;
+  return writeXlsxPackage(join(testDir, "properties.xlsx"), {
+    sheets: [
+      {
+        name: "Plan",
+        body: `<sheetData>${row(1, [cell("A1", "Budget"), cell("B1", 5000)])}</sheetData><sheetProtection sheet="1" objects="1"/>`,
+      },
+    ],
+    workbookExtra: `<calcPr calcId="191029" calcMode="manual"/><workbookProtection lockStructure="1"/>`,
+    parts: {
+      "docProps/core.xml": {
+        contentType: "application/vnd.openxmlformats-package.core-properties+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>Budget &amp; Plan</dc:title>
+  <dc:creator>Ana</dc:creator>
+  <cp:lastModifiedBy>Ben</cp:lastModifiedBy>
+  <cp:keywords>budget, 2024</cp:keywords>
+  <dcterms:created xsi:type="dcterms:W3CDTF">2024-01-02T09:30:00Z</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">2024-03-04T16:00:00Z</dcterms:modified>
+</cp:coreProperties>`,
+      },
+      "docProps/app.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.extended-properties+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="${props}/extended-properties" ${vt}>
+  <Application>Microsoft Excel</Application>
+  <Company>Acme</Company>
+  <AppVersion>16.0300</AppVersion>
+</Properties>`,
+      },
+      "docProps/custom.xml": {
+        contentType: "application/vnd.openxmlformats-officedocument.custom-properties+xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="${props}/custom-properties" ${vt}>
+  <property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="2" name="Project"><vt:lpwstr>Apollo</vt:lpwstr></property>
+  <property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="3" name="Budget"><vt:r8>12.5</vt:r8></property>
+  <property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="4" name="Approved"><vt:bool>true</vt:bool></property>
+</Properties>`,
+      },
+    },
+  });
+}
@@ -11,6 +11,16 @@ export function setupTestFiles(): string {
   createMultiSheetXlsx(testDir);
   createLargeXlsx(testDir);
   createEmptyXlsx(testDir);
+  createReportXlsx(testDir);
+  createGroupedHeadersXlsx(testDir);
+  createFormatsXlsx(testDir);
+  createMergedXlsx(testDir);
+  createLinksXlsx(testDir);
+  createNamesXlsx(testDir);
+  createSalesXlsx(testDir);
+  createRegionsXlsx(testDir);
+  createBudgetVersions(testDir);
+  createPropertiesXls(testDir);
 
   return testDir;
 }
@@ -21,9 +31,9 @@ export function cleanupTestFiles(testDir: string): void {
   }
 }
 
-function writeWorkbook(wb: XLSX.WorkBook, testDir: string, filename: string): string {
+function writeWorkbook(wb: XLSX.WorkBook, testDir: string, filename: string, bookType: XLSX.BookType = "xlsx"): string {
   const filePath = join(testDir, filename);
-  const buf = XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+  const buf = XLSX.write(wb, { type: "buffer", bookType });
   writeFileSync(filePath, buf);
   return filePath;
 }
@@ -92,3 +102,207 @@ function createEmptyXlsx(testDir: string): void {
   XLSX.utils.book_append_sheet(wb, ws, "Empty");
   writeWorkbook(wb, testDir, "empty.xlsx");
 }
+
+function createReportXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const data = [
+    ["Quarterly Report"],
+    [],
+    ["Region", "Q1", "Q2", "Notes"],
+    ["North", 100, 120, "ok"],
+    ["South", 80, 90, "late"],
+    ["East", 60, 75, ""],
+    ["West", 50, 55, "new"],
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  XLSX.utils.book_append_sheet(wb, ws, "Report");
+  writeWorkbook(wb, testDir, "report.xlsx");
+}
+
+function createGroupedHeadersXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const data = [
+    ["Sales Summary"],
+    ["Region", "Q1", null, "Q2", null],
+    [null, "Revenue", "Units", "Revenue", "Units"],
+    ["North", 100, 10, 120, 12],
+    ["South", 80, 8, 90, 9],
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  ws["!merges"] = [
+    XLSX.utils.decode_range("A2:A3"),
+    XLSX.utils.decode_range("B2:C2"),
+    XLSX.utils.decode_range("D2:E2"),
+  ];
+  XLSX.utils.book_append_sheet(wb, ws, "Summary");
+  writeWorkbook(wb, testDir, "grouped-headers.xlsx");
+}
+
+function createFormatsXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet([
+    ["Item", "Rate", "Price", "Due"],
+    ["Widget", 0.125, 1234.5, new Date(Date.UTC(2024, 2, 5))],
+  ]);
+  ws.B2.z = "0.0%";
+  ws.C2.z = '"$"#,##0.00';
+  ws.D2.z = "dd mmm yyyy";
+  XLSX.utils.book_append_sheet(wb, ws, "Prices");
+  writeWorkbook(wb, testDir, "formats.xlsx");
+}
+
+function createMergedXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet([
+    ["Category", "Item", "Qty"],
+    ["Fruit", "Apple", 3],
+    [null, "Pear", 5],
+    [null, "Plum", 1],
+    ["Veg", "Leek", 2],
+    [null, "Kale", 4],
+  ]);
+  ws["!merges"] = [XLSX.utils.decode_range("A2:A4"), XLSX.utils.decode_range("A5:A6")];
+  XLSX.utils.book_append_sheet(wb, ws, "Stock");
+  writeWorkbook(wb, testDir, "merged.xlsx");
+}
+
+function createLinksXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet([
+    ["Vendor", "Link"],
+    ["Acme", "acme.example"],
+    ["Bob", "Email Bob"],
+    ["Totals", "See totals"],
+    ["Docs", "Go"],
+    ["Plain", "no link"],
+  ]);
+  ws.B2.l = { Target: "https://acme.example/", Tooltip: "Vendor site" };
+  ws.B3.l = { Target: "mailto:bob@example.com" };
+  ws.B4.l = { Target: "#Totals!B2" };
+  ws.B5.f = 'HYPERLINK("https://docs.example/?q=""x""","Go")';
+  XLSX.utils.book_append_sheet(wb, ws, "Vendors");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Total"], [42]]), "Totals");
+  writeWorkbook(wb, testDir, "links.xlsx");
+}
+
+function createNamesXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ["Setting", "Value"],
+      ["TaxRate", 0.2],
+      ["Region", "EMEA"],
+    ]),
+    "Inputs",
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ["Month", "Sales"],
+      ["Jan", 100],
+      ["Feb", 120],
+      ["Mar", 90],
+    ]),
+    "Sales Model",
+  );
+  wb.Workbook = {
+    Names: [
+      { Name: "TaxRate", Ref: "Inputs!$B$2" },
+      { Name: "Inputs_Region", Ref: "Inputs!$A$1:$B$3" },
+      { Name: "Sales", Ref: "'Sales Model'!$A$1:$B$4", Sheet: 1 },
+      { Name: "Sales", Ref: "Inputs!$A$1:$B$2" },
+      { Name: "SalesDynamic", Ref: "OFFSET('Sales Model'!$A$1,0,0,COUNTA('Sales Model'!$A:$A),2)" },
+      { Name: "Helper", Ref: "Inputs!$A$3", Hidden: true } as XLSX.DefinedName,
+    ],
+  };
+  writeWorkbook(wb, testDir, "names.xlsx");
+}
+
+function createSalesXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const data = [
+    ["Date", "Region", "Product", "Revenue", "Units"],
+    [new Date("2024-01-15"), "North", "Widget", 100, 2],
+    [new Date("2024-02-10"), "North", "Gadget", 250, 5],
+    [new Date("2024-02-20"), "South", "Widget", 80, 1],
+    [new Date("2024-04-12"), "South", "Gadget", 300, 6],
+    [new Date("2024-05-18"), "North", "Widget", 120, 3],
+    [new Date("2024-08-09"), "East", "Widget", 50, 1],
+    [new Date("2024-08-22"), null, "Gadget", 70, 2],
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(data, { cellDates: true });
+  XLSX.utils.book_append_sheet(wb, ws, "Sales");
+  writeWorkbook(wb, testDir, "sales.xlsx");
+}
+
+function createRegionsXlsx(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  const data = [
+    ["region", "Manager", "Target"],
+    ["North", "Ana", 400],
+    ["South", "Ben", 300],
+    ["West", "Cy", 100],
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(data), "Region Targets");
+  writeWorkbook(wb, testDir, "regions.xlsx");
+}
+
+/**
+ * Two versions of a budget. In v2 item 2 is gone, item 3 moved up a row with
+ * a new quantity and a rounded total formula, item 4 and an Owner column are
+ * new, the Notes sheet was dropped and a Summary sheet added.
+ */
+function createBudgetVersions(testDir: string): void {
+  const withTotals = (ws: XLSX.WorkSheet, formulas: Record<string, string>): XLSX.WorkSheet => {
+    for (const [address, formula] of Object.entries(formulas)) ws[address].f = formula;
+    return ws;
+  };
+
+  const v1 = XLSX.utils.book_new();
+  const budget1 = XLSX.utils.aoa_to_sheet([
+    ["ID", "Item", "Qty", "Price", "Total"],
+    [1, "Rent", 1, 1200, 1200],
+    [2, "Travel", 2, 150, 300],
+    [3, "Software", 5, 20, 100],
+  ]);
+  XLSX.utils.book_append_sheet(v1, withTotals(budget1, { E2: "C2*D2", E3: "C3*D3", E4: "C4*D4" }), "Budget");
+  XLSX.utils.book_append_sheet(v1, XLSX.utils.aoa_to_sheet([["Note"], ["Draft"]]), "Notes");
+  writeWorkbook(v1, testDir, "budget-v1.xlsx");
+
+  const v2 = XLSX.utils.book_new();
+  const budget2 = XLSX.utils.aoa_to_sheet([
+    ["ID", "Item", "Qty", "Price", "Total", "Owner"],
+    [1, "Rent", 1, 1250, 1250, "Ana"],
+    [3, "Software", 6, 20, 120, "Ben"],
+    [4, "Training", 1, 400, 400, "Ana"],
+  ]);
+  XLSX.utils.book_append_sheet(v2, withTotals(budget2, { E2: "C2*D2", E3: "ROUND(C3*D3,0)", E4: "C4*D4" }), "Budget");
+  XLSX.utils.book_append_sheet(v2, XLSX.utils.aoa_to_sheet([["Total"], [1770]]), "Summary");
+  writeWorkbook(v2, testDir, "budget-v2.xlsx");
+}
+
+/**
+ * A BIFF8 .xls with summary and custom properties, using the 1904 date system.
+ */
+function createPropertiesXls(testDir: string): void {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ["Month", "Total"],
+      ["Jan", 100],
+    ]),
+    "Ledger",
+  );
+  wb.Props = {
+    Title: "Ledger 2024",
+    Author: "Ana",
+    LastAuthor: "Ben",
+    Company: "Acme",
+    CreatedDate: new Date(Date.UTC(2024, 0, 2, 9, 30)),
+  };
+  wb.Custprops = { Project: "Apollo", Budget: 12.5, Approved: true };
+  wb.Workbook = { WBProps: { date1904: true } };
+  writeWorkbook(wb, testDir, "properties.xls", "xls");
+}
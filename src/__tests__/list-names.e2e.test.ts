@@ -0,0 +1,60 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let namesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  namesPath = join(testDir, "names.xlsx");
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("list_names", () => {
+  it("should list defined names", async () => {
+    const result = await client.callTool({
+      name: "list_names",
+      arguments: { filePath: namesPath },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalNames).toBe(6);
+    expect(data.names[0]).toMatchObject({ name: "TaxRate", formula: "=Inputs!$B$2", sheet: "Inputs", range: "B2" });
+  });
+
+  it("should read a named range through read_excel", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: namesPath, namedRange: "Inputs_Region" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.namedRange).toBe("Inputs_Region");
+    expect(data.currentSheet.chunk.data).toHaveLength(2);
+  });
+
+  it("should throw an error for a non-existent file", async () => {
+    await expect(
+      client.callTool({
+        name: "list_names",
+        arguments: { filePath: "/non/existent/file.xlsx" },
+      }),
+    ).rejects.toThrow(/File not found/);
+  });
+});
@@ -35,6 +35,11 @@ describe("list_sheets", () => {
     const data = JSON.parse(content[0].text);
     expect(data.fileName).toBe("basic.xlsx");
     expect(data.sheets).toEqual(["Sheet1"]);
+    expect(data.sheetInfo[0]).toMatchObject({
+      usedRange: "A1:D4",
+      rowCount: 4,
+      headerPreview: ["Name", "Age", "Date", "Score"],
+    });
   });
 
   it("should list all sheets for a multi-sheet file", async () => {
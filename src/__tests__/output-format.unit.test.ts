@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { renderExcelData, rowSerializer } from "../output-format.js";
+import type { ExcelData } from "../types.js";
+
+const result = (): ExcelData => ({
+  fileName: "test.xlsx",
+  totalSheets: 1,
+  currentSheet: {
+    name: "Sheet1",
+    totalRows: 2,
+    totalColumns: 2,
+    chunk: {
+      rowStart: 0,
+      rowEnd: 2,
+      columns: ["Name", "Note"],
+      data: [{ Name: "Alice", Note: 'says "hi", | bye' }, { Name: "Bob" }],
+      sizing: { bytes: 0, tokens: 0, endReason: "end" },
+    },
+    hasMore: false,
+  },
+});
+
+describe("renderExcelData", () => {
+  it("should pretty-print JSON by default", () => {
+    const data = result();
+
+    expect(renderExcelData(data)).toEqual([JSON.stringify(data, null, 2)]);
+  });
+
+  it("should render an escaped markdown table after the metadata", () => {
+    const [metadata, table] = renderExcelData(result(), "markdown");
+
+    expect(JSON.parse(metadata).currentSheet.chunk.data).toBeUndefined();
+    expect(table).toBe('| Name | Note |\n| --- | --- |\n| Alice | says "hi", \\| bye |\n| Bob |  |\n');
+  });
+
+  it("should quote CSV fields and flatten TSV fields", () => {
+    expect(renderExcelData(result(), "csv")[1]).toBe('Name,Note\nAlice,"says ""hi"", | bye"\nBob,\n');
+    expect(rowSerializer("tsv", ["A"])?.({ A: "a\tb\nc" })).toBe("a b c\n");
+  });
+
+  it("should render columnar JSON with null for missing cells", () => {
+    const [text] = renderExcelData(result(), "columnar");
+
+    expect(JSON.parse(text).currentSheet.chunk.data).toEqual({
+      columns: ["Name", "Note"],
+      rows: [
+        ["Alice", 'says "hi", | bye'],
+        ["Bob", null],
+      ],
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getPivotTables } from "../pivot-tables.js";
+import { createPivotXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let pivotPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  pivotPath = await createPivotXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("getPivotTables", () => {
+  it("should describe the pivot's layout, source and fields", async () => {
+    const result = await getPivotTables({ filePath: pivotPath });
+
+    expect(result.totalPivotTables).toBe(1);
+    expect(result.pivotTables[0]).toEqual({
+      name: "SalesPivot",
+      sheet: "Summary",
+      location: "A3:C5",
+      source: { type: "worksheet", sheet: "Data", range: "A1:C5" },
+      rowFields: ["Region"],
+      columnFields: ["Values"],
+      pageFields: [{ field: "Product", selectedItem: "Widget" }],
+      dataFields: [
+        { name: "Total Amount", field: "Amount", function: "sum" },
+        { name: "Share", field: "Amount", function: "count", showDataAs: "percentOfTotal" },
+      ],
+      filters: [
+        { field: "Region", type: "manual", hiddenItems: ["East"] },
+        { field: "Region", type: "valueGreaterThan", value: "60", measure: "Total Amount" },
+      ],
+      cacheFields: ["Region", "Product", "Amount"],
+      recordCount: 4,
+    });
+  });
+
+  it("should resolve cache records against the shared items", async () => {
+    const result = await getPivotTables({ filePath: pivotPath, includeRecords: true, maxRecords: 3 });
+
+    const [pivot] = result.pivotTables;
+    expect(pivot.records).toEqual([
+      { Region: "North", Product: "Widget", Amount: 100 },
+      { Region: "South", Product: "Gadget", Amount: 200 },
+      { Region: "North", Product: "Gadget", Amount: 50 },
+    ]);
+    expect(pivot.hasMoreRecords).toBe(true);
+    expect(pivot.nextRecordStartIndex).toBe(3);
+
+    const [rest] = (
+      await getPivotTables({ filePath: pivotPath, includeRecords: true, recordStartIndex: 3, maxRecords: 3 })
+    ).pivotTables;
+    expect(rest.records).toEqual([{ Region: "East", Product: "Widget", Amount: 30 }]);
+    expect(rest.hasMoreRecords).toBe(false);
+    expect(rest.nextRecordStartIndex).toBeUndefined();
+  });
+
+  it("should filter by sheet and find nothing in workbooks without pivots", async () => {
+    expect((await getPivotTables({ filePath: pivotPath, sheetName: "Data" })).pivotTables).toEqual([]);
+    expect((await getPivotTables({ filePath: join(testDir, "basic.xlsx") })).pivotTables).toEqual([]);
+    await expect(getPivotTables({ filePath: pivotPath, sheetName: "Missing" })).rejects.toThrow(
+      "Sheet not found: Missing",
+    );
+  });
+});
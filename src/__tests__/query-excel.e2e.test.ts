@@ -0,0 +1,73 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let salesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  salesPath = join(testDir, "sales.xlsx");
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("query_excel", () => {
+  it("should run a grouped query across two workbooks", async () => {
+    const result = await client.callTool({
+      name: "query_excel",
+      arguments: {
+        filePath: salesPath,
+        workbooks: { ref: join(testDir, "regions.xlsx") },
+        sql: 'SELECT s.Region, t.Target - SUM(s.Revenue) AS gap FROM Sales s JOIN ref."Region Targets" t ON s.Region = t.region GROUP BY s.Region ORDER BY gap',
+      },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalRows).toBe(2);
+    expect(data.chunk.data).toEqual([
+      { Region: "South", gap: -80 },
+      { Region: "North", gap: -70 },
+    ]);
+  });
+
+  it("should read to the budget when maxRows is 0 and reject a fractional startRow", async () => {
+    const result = await client.callTool({
+      name: "query_excel",
+      arguments: { filePath: salesPath, sql: "SELECT Region FROM Sales", maxRows: 0 },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.chunk.data).toHaveLength(data.totalRows);
+    expect(data.hasMore).toBe(false);
+    await expect(
+      client.callTool({
+        name: "query_excel",
+        arguments: { filePath: salesPath, sql: "SELECT Region FROM Sales", startRow: 0.5 },
+      }),
+    ).rejects.toThrow(/Invalid query_excel arguments/);
+  });
+
+  it("should report SQL syntax errors with their position", async () => {
+    await expect(
+      client.callTool({
+        name: "query_excel",
+        arguments: { filePath: salesPath, sql: "SELECT Region FROM Sales WHERE" },
+      }),
+    ).rejects.toThrow(/SQL syntax error at position 31: unexpected end of query/);
+  });
+});
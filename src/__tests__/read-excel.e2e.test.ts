@@ -1,7 +1,10 @@
+import { readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { encryptAgile } from "./helpers/encrypt-files.js";
+import { createHiddenXlsx } from "./helpers/generate-package-files.js";
 import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
 
 let client: Client;
@@ -10,6 +13,8 @@ let testDir: string;
 
 beforeAll(async () => {
   testDir = setupTestFiles();
+  await createHiddenXlsx(testDir);
+  writeFileSync(join(testDir, "locked.xlsx"), encryptAgile(readFileSync(join(testDir, "basic.xlsx")), "s3cret"));
 
   transport = new StdioClientTransport({
     command: "node",
@@ -94,6 +99,85 @@ describe("read_excel", () => {
     expect(data.currentSheet.hasMore).toBe(true);
   });
 
+  it("should read to the budget when maxRows is 0", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "basic.xlsx"), maxRows: 0 },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.chunk.data).toHaveLength(3);
+    expect(data.currentSheet.hasMore).toBe(false);
+  });
+
+  it.each([-1, 1.5])("should reject startRow %s", async (startRow) => {
+    await expect(
+      client.callTool({ name: "read_excel", arguments: { filePath: join(testDir, "basic.xlsx"), startRow } }),
+    ).rejects.toThrow(/Invalid read_excel arguments/);
+  });
+
+  it("should read an A1 range and report covered cells", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "report.xlsx"), range: "'Report'!A3:B5" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Q1"]);
+    expect(data.currentSheet.chunk.data).toHaveLength(2);
+    expect(data.currentSheet.chunk.cellRange).toBe("A4:B5");
+  });
+
+  it("should detect the header row in auto mode", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "report.xlsx"), header: "auto" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.headerRange).toBe("A3:D3");
+    expect(data.currentSheet.chunk.data[0].Region).toBe("North");
+  });
+
+  it("should filter rows and project columns", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: {
+        filePath: join(testDir, "multi-sheet.xlsx"),
+        sheetName: "Cities",
+        columns: ["City"],
+        where: [{ column: "Population", op: "<", value: 10000000 }],
+      },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.totalRows).toBe(2);
+    expect(data.currentSheet.chunk.data).toEqual([{ City: "London" }, { City: "Paris" }]);
+  });
+
+  it("should leave hidden rows and columns out with skipHidden", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "hidden.xlsx"), skipHidden: true },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet).toMatchObject({ name: "Report", totalRows: 2, skippedRows: 2 });
+    expect(data.currentSheet.chunk.columns).toEqual(["Region", "Amount", "Status"]);
+  });
+
+  it("should return a markdown table after the metadata", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "basic.xlsx"), outputFormat: "markdown", columns: ["Name", "Age"] },
+    });
+
+    const content = result.content as { type: string; text: string }[];
+    expect(content).toHaveLength(2);
+    expect(JSON.parse(content[0].text).currentSheet.chunk.outputFormat).toBe("markdown");
+    expect(content[1].text).toBe("| Name | Age |\n| --- | --- |\n| Alice | 30 |\n| Bob | 25 |\n| Charlie | 35 |\n");
+  });
+
   it("should auto-chunk a large file with hasMore=true", async () => {
     const result = await client.callTool({
       name: "read_excel",
@@ -129,4 +213,24 @@ describe("read_excel", () => {
       }),
     ).rejects.toThrow(/File not found/);
   });
+
+  it("should open an encrypted file with its password", async () => {
+    const result = await client.callTool({
+      name: "read_excel",
+      arguments: { filePath: join(testDir, "locked.xlsx"), password: "s3cret" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.currentSheet.chunk.data[0]).toMatchObject({ Name: "Alice", Age: 30 });
+  });
+
+  it("should report a missing or wrong password", async () => {
+    const filePath = join(testDir, "locked.xlsx");
+    await expect(client.callTool({ name: "read_excel", arguments: { filePath } })).rejects.toThrow(
+      /PasswordRequired: locked.xlsx is encrypted/,
+    );
+    await expect(client.callTool({ name: "read_excel", arguments: { filePath, password: "nope" } })).rejects.toThrow(
+      /WrongPassword/,
+    );
+  });
 });
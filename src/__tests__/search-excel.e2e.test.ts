@@ -0,0 +1,55 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("search_excel", () => {
+  it("should search every sheet of a workbook", async () => {
+    const result = await client.callTool({
+      name: "search_excel",
+      arguments: { filePath: join(testDir, "multi-sheet.xlsx"), query: "london" },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.sheetsSearched).toEqual(["Products", "Cities", "Colors"]);
+    expect(data.matches).toEqual([
+      {
+        sheet: "Cities",
+        address: "A3",
+        matchedIn: ["value"],
+        value: "London",
+        row: { City: "London", Population: 8982000 },
+      },
+    ]);
+  });
+
+  it("should reject an unknown search mode", async () => {
+    await expect(
+      client.callTool({
+        name: "search_excel",
+        arguments: { filePath: join(testDir, "sales.xlsx"), query: "x", mode: "fuzzy" },
+      }),
+    ).rejects.toThrow(/Invalid search_excel arguments/);
+  });
+});
@@ -0,0 +1,102 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { searchExcel } from "../search.js";
+import { createCommentsXlsx, createFormulasXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let salesPath: string;
+let formulasPath: string;
+let commentsPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  salesPath = join(testDir, "sales.xlsx");
+  formulasPath = await createFormulasXlsx(testDir);
+  commentsPath = await createCommentsXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("searchExcel", () => {
+  it("should find text case-insensitively and attach the row with its headers", () => {
+    const result = searchExcel({ filePath: salesPath, query: "widget" });
+
+    expect(result.totalMatches).toBe(4);
+    expect(result.matches[0]).toEqual({
+      sheet: "Sales",
+      address: "C2",
+      matchedIn: ["value"],
+      value: "Widget",
+      row: { Date: new Date("2024-01-15"), Region: "North", Product: "Widget", Revenue: 100, Units: 2 },
+    });
+  });
+
+  it("should leave the row off header cells", () => {
+    const result = searchExcel({ filePath: salesPath, query: "Product", caseSensitive: true });
+
+    expect(result.matches).toEqual([{ sheet: "Sales", address: "C1", matchedIn: ["value"], value: "Product" }]);
+  });
+
+  it("should honour caseSensitive and wholeCell", () => {
+    expect(searchExcel({ filePath: salesPath, query: "widget", caseSensitive: true }).totalMatches).toBe(0);
+    expect(searchExcel({ filePath: salesPath, query: "Gadge", wholeCell: true }).totalMatches).toBe(0);
+    expect(searchExcel({ filePath: salesPath, query: "gadget", wholeCell: true }).totalMatches).toBe(3);
+  });
+
+  it("should compare numbers numerically in number mode", () => {
+    const result = searchExcel({ filePath: salesPath, query: "250.0", mode: "number", includeRow: false });
+
+    expect(result.matches).toEqual([{ sheet: "Sales", address: "D3", matchedIn: ["value"], value: 250 }]);
+  });
+
+  it("should match regular expressions, anchored for wholeCell", () => {
+    expect(searchExcel({ filePath: salesPath, query: "^(north|south)$", mode: "regex" }).totalMatches).toBe(5);
+    expect(searchExcel({ filePath: salesPath, query: "orth", mode: "regex", wholeCell: true }).totalMatches).toBe(0);
+  });
+
+  it("should search formulas, including expanded shared formulas", () => {
+    const result = searchExcel({ filePath: formulasPath, query: "C3", searchIn: ["formula"] });
+
+    expect(result.matches.map(({ address, formula, value }) => ({ address, formula, value }))).toEqual([
+      { address: "D3", formula: "=B3*C3", value: 15 },
+    ]);
+  });
+
+  it("should search comments and their replies", () => {
+    const result = searchExcel({ filePath: commentsPath, query: "finance", includeRow: false });
+
+    expect(result.matches).toEqual([
+      {
+        sheet: "Review",
+        address: "B3",
+        matchedIn: ["comment"],
+        value: 340,
+        comment: "Is this approved?",
+      },
+    ]);
+  });
+
+  it("should paginate matches", () => {
+    const first = searchExcel({ filePath: salesPath, query: "gadget", maxResults: 2 });
+
+    expect(first.totalMatches).toBe(3);
+    expect(first.matches.map((m) => m.address)).toEqual(["C3", "C5"]);
+    expect(first.hasMore).toBe(true);
+    expect(first.nextStartIndex).toBe(2);
+
+    const rest = searchExcel({ filePath: salesPath, query: "gadget", startIndex: 2 });
+    expect(rest.matches.map((m) => m.address)).toEqual(["C8"]);
+    expect(rest.hasMore).toBe(false);
+  });
+
+  it("should reject unknown sheets, invalid patterns and non-numeric number queries", () => {
+    expect(() => searchExcel({ filePath: salesPath, query: "x", sheetNames: ["Nope"] })).toThrow(
+      "Sheet not found: Nope",
+    );
+    expect(() => searchExcel({ filePath: salesPath, query: "(", mode: "regex" })).toThrow(/Invalid regular expression/);
+    expect(() => searchExcel({ filePath: salesPath, query: "ten", mode: "number" })).toThrow('Not a number: "ten"');
+  });
+});
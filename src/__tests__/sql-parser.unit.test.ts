@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseSelect, tokenize } from "../sql-parser.js";
+
+describe("tokenize", () => {
+  it("should read quoted names, strings with doubled quotes and comments", () => {
+    const tokens = tokenize(`SELECT "Sales Data".[Net $], 'it''s' -- trailing note`);
+
+    expect(tokens.map((t) => [t.type, t.value])).toEqual([
+      ["identifier", "SELECT"],
+      ["quoted", "Sales Data"],
+      ["operator", "."],
+      ["quoted", "Net $"],
+      ["operator", ","],
+      ["string", "it's"],
+      ["eof", ""],
+    ]);
+  });
+
+  it("should report where an unterminated string starts", () => {
+    expect(() => tokenize("SELECT 'open")).toThrow(/position 8/);
+  });
+});
+
+describe("parseSelect", () => {
+  it("should parse every clause", () => {
+    const statement = parseSelect(
+      "SELECT DISTINCT s.Region AS r, SUM(Revenue) total FROM Sales s LEFT JOIN book.Targets t USING (Region) " +
+        "WHERE Revenue BETWEEN 10 AND 500 GROUP BY 1 HAVING COUNT(*) > 1 ORDER BY total DESC, r LIMIT 5 OFFSET 2;",
+    );
+
+    expect(statement.distinct).toBe(true);
+    expect(statement.columns.map((c) => [c.alias, c.text])).toEqual([
+      ["r", "s.Region"],
+      ["total", "SUM(Revenue)"],
+    ]);
+    expect(statement.from).toEqual({ name: "Sales", alias: "s" });
+    expect(statement.joins).toEqual([
+      { type: "left", table: { workbook: "book", name: "Targets", alias: "t" }, using: ["Region"] },
+    ]);
+    expect(statement.where?.kind).toBe("between");
+    expect(statement.groupBy).toEqual([{ kind: "literal", value: 1 }]);
+    expect(statement.orderBy.map((o) => o.desc)).toEqual([true, false]);
+    expect([statement.limit, statement.offset]).toEqual([5, 2]);
+  });
+
+  it("should bind AND tighter than OR and NOT to its comparison", () => {
+    const { where } = parseSelect("SELECT * FROM t WHERE a = 1 OR NOT b IS NULL AND c LIKE 'x%'");
+
+    expect(where).toMatchObject({
+      kind: "binary",
+      op: "OR",
+      right: { kind: "binary", op: "AND", left: { kind: "unary", op: "NOT", operand: { kind: "isNull" } } },
+    });
+  });
+
+  it("should reject unsupported syntax with a clear message", () => {
+    expect(() => parseSelect("SELECT * FROM a RIGHT JOIN b ON a.x = b.x")).toThrow(/RIGHT JOIN is not supported/);
+    expect(() => parseSelect("SELECT * FROM a WHERE x IN (SELECT y FROM b)")).toThrow(/subqueries are not supported/);
+    expect(() => parseSelect("SELECT * FROM a JOIN b")).toThrow(/expected ON or USING/);
+    expect(() => parseSelect("SELECT Region FROM")).toThrow(/expected table name/);
+  });
+});
@@ -0,0 +1,172 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { queryExcel } from "../sql-query.js";
+import { createTablesXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let salesPath: string;
+let regionsPath: string;
+let tablesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  salesPath = join(testDir, "sales.xlsx");
+  regionsPath = join(testDir, "regions.xlsx");
+  tablesPath = await createTablesXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+const query = (sql: string, options: { filePath?: string; maxRows?: number; startRow?: number } = {}) =>
+  queryExcel({ filePath: salesPath, sql, ...options });
+
+describe("queryExcel", () => {
+  it("should filter, project and report the table's inferred column types", async () => {
+    const result = await query("SELECT product, revenue * 2 AS double FROM Sales WHERE region = 'South'");
+
+    expect(result.chunk.columns).toEqual(["product", "double"]);
+    expect(result.chunk.data).toEqual([
+      { product: "Widget", double: 160 },
+      { product: "Gadget", double: 600 },
+    ]);
+    expect(result.tables).toEqual([
+      {
+        name: "Sales",
+        file: "sales.xlsx",
+        sheet: "Sales",
+        rows: 7,
+        columns: [
+          { name: "Date", type: "date" },
+          { name: "Region", type: "text" },
+          { name: "Product", type: "text" },
+          { name: "Revenue", type: "integer" },
+          { name: "Units", type: "integer" },
+        ],
+      },
+    ]);
+  });
+
+  it("should group, filter groups and order by an alias", async () => {
+    const result = await query(
+      "SELECT Region, SUM(Revenue) AS total, COUNT(*) AS n FROM Sales WHERE Region IS NOT NULL " +
+        "GROUP BY Region HAVING n > 1 ORDER BY total DESC",
+    );
+
+    expect(result.chunk.data).toEqual([
+      { Region: "North", total: 470, n: 3 },
+      { Region: "South", total: 380, n: 2 },
+    ]);
+  });
+
+  it("should aggregate over date functions and CASE expressions", async () => {
+    const result = await query(
+      "SELECT QUARTER(Date) AS q, SUM(CASE WHEN Product = 'Widget' THEN Units ELSE 0 END) AS widgets, " +
+        "ROUND(AVG(Revenue), 1) AS avgRevenue FROM Sales GROUP BY q ORDER BY q",
+    );
+
+    expect(result.chunk.data).toEqual([
+      { q: 1, widgets: 3, avgRevenue: 143.3 },
+      { q: 2, widgets: 3, avgRevenue: 210 },
+      { q: 3, widgets: 1, avgRevenue: 60 },
+    ]);
+  });
+
+  it("should treat blank cells as NULL", async () => {
+    const result = await query(
+      "SELECT COUNT(*) AS n, COUNT(Region) AS regions, COUNT(DISTINCT Region) AS distinctRegions, " +
+        "MAX(COALESCE(Region, '(none)')) AS last FROM Sales",
+    );
+
+    expect(result.chunk.data).toEqual([{ n: 7, regions: 6, distinctRegions: 3, last: "South" }]);
+  });
+
+  it("should return one row for an ungrouped aggregate over no rows", async () => {
+    const result = await query("SELECT COUNT(*) AS n, SUM(Revenue) AS total FROM Sales WHERE Revenue > 1000");
+
+    expect(result.chunk.data).toEqual([{ n: 0, total: null }]);
+  });
+
+  it("should match LIKE patterns case-insensitively and apply IN and BETWEEN", async () => {
+    const result = await query(
+      "SELECT DISTINCT Product FROM Sales WHERE Product LIKE 'w%' AND Units BETWEEN 1 AND 2 AND Region IN ('North', 'East')",
+    );
+
+    expect(result.chunk.data).toEqual([{ Product: "Widget" }]);
+  });
+
+  it("should join another workbook's sheet with USING and keep unmatched rows in a LEFT JOIN", async () => {
+    const result = await queryExcel({
+      filePath: salesPath,
+      workbooks: { ref: regionsPath },
+      sql:
+        'SELECT Region, Manager, SUM(Revenue) AS total, MAX(Target) AS target FROM Sales LEFT JOIN ref."Region Targets" ' +
+        "USING (Region) WHERE Region IS NOT NULL GROUP BY Region, Manager ORDER BY Region",
+    });
+
+    expect(result.chunk.data).toEqual([
+      { Region: "East", Manager: null, total: 50, target: null },
+      { Region: "North", Manager: "Ana", total: 470, target: 400 },
+      { Region: "South", Manager: "Ben", total: 380, target: 300 },
+    ]);
+    expect(result.tables[1]).toMatchObject({ name: "ref.Region Targets", file: "regions.xlsx", rows: 3 });
+  });
+
+  it("should join Excel tables by name on an ON condition", async () => {
+    const result = await queryExcel({
+      filePath: tablesPath,
+      sql: 'SELECT o."Order", o.Amount, r.Reason FROM Orders o JOIN Returns r ON o."Order" = r."Order" ORDER BY 1',
+    });
+
+    expect(result.chunk.data).toEqual([
+      { Order: 1002, Amount: 400, Reason: "Damaged" },
+      { Order: 1003, Amount: 150, Reason: "Late" },
+    ]);
+    // The totals row is not part of the table's rows
+    expect(result.tables[0]).toMatchObject({ name: "Orders", sheet: "Sales", table: "Orders", rows: 3 });
+  });
+
+  it("should expand * with USING columns once", async () => {
+    const result = await queryExcel({
+      filePath: tablesPath,
+      sql: "SELECT * FROM Orders JOIN Returns USING (\"Order\") WHERE Reason = 'Late'",
+    });
+
+    expect(result.chunk.columns).toEqual(["Order", "Region", "Amount", "Reason"]);
+  });
+
+  it("should name the columns of a table without a header row", async () => {
+    const result = await queryExcel({ filePath: tablesPath, sql: "SELECT Person FROM Shifts WHERE Day = 'Mon'" });
+
+    expect(result.chunk.data).toEqual([{ Person: "Ana" }]);
+  });
+
+  it("should paginate results like read_excel", async () => {
+    const first = await query("SELECT Revenue FROM Sales ORDER BY Revenue", { maxRows: 3 });
+
+    expect(first.totalRows).toBe(7);
+    expect(first.chunk.data.map((row) => row.Revenue)).toEqual([50, 70, 80]);
+    expect(first.hasMore).toBe(true);
+    expect(first.nextChunk).toEqual({ rowStart: 3, columns: ["Revenue"] });
+
+    const last = await query("SELECT Revenue FROM Sales ORDER BY Revenue LIMIT 5", { startRow: 3 });
+    expect(last.chunk.data.map((row) => row.Revenue)).toEqual([100, 120]);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it("should explain unknown tables, columns and ambiguous references", async () => {
+    await expect(query("SELECT * FROM Missing")).rejects.toThrow(
+      "Table not found: Missing. Sheets: Sales; Excel tables: (none)",
+    );
+    await expect(query("SELECT Price FROM Sales")).rejects.toThrow(/Column not found: Price. Available columns: Date/);
+    await expect(
+      queryExcel({ filePath: tablesPath, sql: 'SELECT "Order" FROM Orders JOIN Returns ON 1 = 1' }),
+    ).rejects.toThrow(/Column Order is ambiguous; qualify it with one of: Orders, Returns/);
+    await expect(query("SELECT Region FROM Sales WHERE SUM(Revenue) > 1")).rejects.toThrow(
+      /SUM\(\) cannot be used in WHERE/,
+    );
+    await expect(query("SELECT * FROM x.Sales")).rejects.toThrow(/Unknown workbook: x/);
+  });
+});
@@ -0,0 +1,61 @@
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTablesXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+let tablesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  tablesPath = await createTablesXlsx(testDir);
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("list_tables / read_table", () => {
+  it("should list tables", async () => {
+    const result = await client.callTool({
+      name: "list_tables",
+      arguments: { filePath: tablesPath },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data.totalTables).toBe(4);
+    expect(data.tables[1]).toMatchObject({ name: "Returns", sheet: "Sales", range: "E1:F3" });
+  });
+
+  it("should read a table's rows", async () => {
+    const result = await client.callTool({
+      name: "read_table",
+      arguments: { filePath: tablesPath, tableName: "Orders", outputFormat: "csv" },
+    });
+
+    const content = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content[0].text).currentSheet.table).toBe("Orders");
+    expect(content[1].text).toBe("Order,Region,Amount\n1001,North,250\n1002,South,400\n1003,North,150\n");
+  });
+
+  it("should throw an error for an unknown table", async () => {
+    await expect(
+      client.callTool({
+        name: "read_table",
+        arguments: { filePath: tablesPath, tableName: "Missing" },
+      }),
+    ).rejects.toThrow(/Table not found/);
+  });
+});
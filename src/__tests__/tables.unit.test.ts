@@ -0,0 +1,101 @@
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { listTables, readTable } from "../tables.js";
+import { createTablesXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let tablesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  tablesPath = await createTablesXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+describe("listTables", () => {
+  it("should list every table with its sheet, range and columns", async () => {
+    const result = await listTables({ filePath: tablesPath });
+
+    expect(result.totalTables).toBe(4);
+    expect(result.tables[0]).toEqual({
+      name: "Orders",
+      sheet: "Sales",
+      range: "A1:C5",
+      dataRange: "A2:C4",
+      columns: ["Order", "Region", "Amount"],
+      hasHeaderRow: true,
+      hasTotalsRow: true,
+    });
+    expect(result.tables.map((t) => t.name)).toEqual(["Orders", "Returns", "Staff", "Shifts"]);
+  });
+
+  it("should decode escaped column names", async () => {
+    const result = await listTables({ filePath: tablesPath, sheetName: "Team" });
+
+    expect(result.tables).toHaveLength(1);
+    expect(result.tables[0].columns).toEqual(["Name", "Start Date"]);
+  });
+
+  it("should return no tables for workbooks without any", async () => {
+    const result = await listTables({ filePath: join(testDir, "basic.xlsx") });
+
+    expect(result.tables).toEqual([]);
+  });
+});
+
+describe("readTable", () => {
+  it("should return only the table's data rows, without the totals row", async () => {
+    const result = await readTable({ filePath: tablesPath, tableName: "orders" });
+
+    expect(result.currentSheet.name).toBe("Sales");
+    expect(result.currentSheet.table).toBe("Orders");
+    expect(result.currentSheet.totalRows).toBe(3);
+    expect(result.currentSheet.chunk.columns).toEqual(["Order", "Region", "Amount"]);
+    expect(result.currentSheet.chunk.data[2]).toEqual({ Order: 1003, Region: "North", Amount: 150 });
+    expect(result.currentSheet.chunk.cellRange).toBe("A2:C4");
+  });
+
+  it("should address tables sharing a sheet by name", async () => {
+    const result = await readTable({ filePath: tablesPath, tableName: "Returns" });
+
+    expect(result.currentSheet.chunk.data).toEqual([
+      { Order: 1002, Reason: "Damaged" },
+      { Order: 1003, Reason: "Late" },
+    ]);
+  });
+
+  it("should key the rows of a table without a header row by its column names", async () => {
+    const result = await readTable({
+      filePath: tablesPath,
+      tableName: "Shifts",
+      where: [{ column: "Person", op: "=", value: "Raj" }],
+    });
+
+    expect(result.currentSheet.chunk.columns).toEqual(["Day", "Person"]);
+    expect(result.currentSheet.chunk.data).toEqual([{ Day: "Tue", Person: "Raj" }]);
+    expect(result.currentSheet.chunk.cellRange).toBe("A2:B2");
+  });
+
+  it("should paginate and filter like read_excel", async () => {
+    const result = await readTable({
+      filePath: tablesPath,
+      tableName: "Orders",
+      where: [{ column: "Region", op: "=", value: "North" }],
+      maxRows: 1,
+    });
+
+    expect(result.currentSheet.totalRows).toBe(2);
+    expect(result.currentSheet.chunk.data).toEqual([{ Order: 1001, Region: "North", Amount: 250 }]);
+    expect(result.currentSheet.hasMore).toBe(true);
+  });
+
+  it("should throw for an unknown table", async () => {
+    await expect(readTable({ filePath: tablesPath, tableName: "Nope" })).rejects.toThrow(
+      "Table not found: Nope. Available tables: Orders, Returns, Staff, Shifts",
+    );
+  });
+});
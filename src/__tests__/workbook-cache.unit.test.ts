@@ -0,0 +1,106 @@
+import { utimesSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { readExcelFile } from "../excel-reader.js";
+import {
+  cachedRows,
+  clearWorkbookCache,
+  getWorkbookCacheStats,
+  loadWorkbook,
+  setWorkbookCacheLimit,
+} from "../workbook-cache.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+const defaultLimit = getWorkbookCacheStats().maxBytes;
+
+beforeAll(() => {
+  testDir = setupTestFiles();
+});
+
+afterEach(() => {
+  setWorkbookCacheLimit(defaultLimit);
+  clearWorkbookCache();
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+function writeSheet(filePath: string, rows: unknown[][]): void {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), "Sheet1");
+  writeFileSync(filePath, XLSX.write(wb, { type: "buffer", bookType: "xlsx" }));
+}
+
+describe("loadWorkbook", () => {
+  it("should reuse the parsed workbook for an unchanged file", () => {
+    const first = loadWorkbook(join(testDir, "basic.xlsx"));
+    const second = loadWorkbook(join(testDir, "./basic.xlsx"));
+
+    expect(second).toBe(first);
+    expect(getWorkbookCacheStats().entries).toBe(1);
+  });
+
+  it("should reparse a file whose modification time changed", () => {
+    const filePath = join(testDir, "changing.xlsx");
+    writeSheet(filePath, [["Value"], [1]]);
+    const first = loadWorkbook(filePath);
+
+    writeSheet(filePath, [["Value"], [2], [3]]);
+    utimesSync(filePath, new Date(), new Date(Date.now() + 5000));
+    const second = loadWorkbook(filePath);
+
+    expect(second).not.toBe(first);
+    expect(readExcelFile({ filePath }).currentSheet.totalRows).toBe(2);
+  });
+
+  it("should evict the least recently used workbook when over the memory cap", () => {
+    const basic = loadWorkbook(join(testDir, "basic.xlsx"));
+    const { bytes } = getWorkbookCacheStats();
+    setWorkbookCacheLimit(bytes * 2.5);
+
+    loadWorkbook(join(testDir, "multi-sheet.xlsx"));
+    loadWorkbook(join(testDir, "basic.xlsx"));
+    loadWorkbook(join(testDir, "report.xlsx"));
+
+    expect(getWorkbookCacheStats().entries).toBe(2);
+    expect(loadWorkbook(join(testDir, "basic.xlsx"))).toBe(basic);
+  });
+
+  it("should not cache when the limit is zero", () => {
+    setWorkbookCacheLimit(0);
+    const first = loadWorkbook(join(testDir, "basic.xlsx"));
+
+    expect(loadWorkbook(join(testDir, "basic.xlsx"))).not.toBe(first);
+    expect(getWorkbookCacheStats().entries).toBe(0);
+  });
+});
+
+describe("cachedRows", () => {
+  it("should materialize rows once per key", () => {
+    const cached = loadWorkbook(join(testDir, "basic.xlsx"));
+    let builds = 0;
+    const build = () => {
+      builds++;
+      return { columns: ["A"], rows: [{ A: 1 }] };
+    };
+
+    const first = cachedRows(cached, "Sheet1", build);
+    const second = cachedRows(cached, "Sheet1", build);
+
+    expect(second).toBe(first);
+    expect(builds).toBe(1);
+  });
+
+  it("should serve repeated read_excel pages from the cached rows", () => {
+    const filePath = join(testDir, "large.xlsx");
+    readExcelFile({ filePath, maxRows: 10 });
+    const cached = loadWorkbook(filePath);
+
+    expect(cached.rows.size).toBe(1);
+    readExcelFile({ filePath, startRow: 10, maxRows: 10 });
+    expect(cached.rows.size).toBe(1);
+  });
+});
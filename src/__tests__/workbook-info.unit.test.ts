@@ -0,0 +1,130 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import * as CFB from "cfb";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getWorkbookInfo } from "../workbook-info.js";
+import { createPropertiesXlsx } from "./helpers/generate-package-files.js";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let testDir: string;
+let propertiesPath: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+  propertiesPath = await createPropertiesXlsx(testDir);
+});
+
+afterAll(() => {
+  cleanupTestFiles(testDir);
+});
+
+// A SummaryInformation stream holding a code page and a title in that code page
+function summaryStream(codePage: number, title: Buffer): Buffer {
+  const uint32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value);
+    return buffer;
+  };
+  const codePageValue = Buffer.alloc(8);
+  codePageValue.writeUInt16LE(2);
+  codePageValue.writeUInt16LE(codePage, 4);
+  const titleValue = Buffer.concat([
+    uint32(0x1e),
+    uint32(title.length),
+    title,
+    Buffer.alloc(3 - ((title.length + 3) % 4)),
+  ]);
+  const section = Buffer.concat([uint32(1), uint32(24), uint32(2), uint32(32), codePageValue, titleValue]);
+  return Buffer.concat([
+    Buffer.from([0xfe, 0xff, 0, 0]),
+    Buffer.alloc(20),
+    uint32(1),
+    Buffer.alloc(16),
+    uint32(48),
+    uint32(8 + section.length),
+    uint32(2),
+    section,
+  ]);
+}
+
+describe("getWorkbookInfo", () => {
+  it("should read .xlsx document properties, custom properties and calculation mode", async () => {
+    const result = await getWorkbookInfo({ filePath: propertiesPath });
+
+    expect(result).toMatchObject({
+      fileName: "properties.xlsx",
+      format: { type: "xlsx", container: "zip", hasMacros: false },
+      properties: {
+        title: "Budget & Plan",
+        author: "Ana",
+        lastModifiedBy: "Ben",
+        keywords: "budget, 2024",
+        created: "2024-01-02T09:30:00Z",
+        modified: "2024-03-04T16:00:00Z",
+        company: "Acme",
+        application: "Microsoft Excel",
+        appVersion: "16.0300",
+      },
+      customProperties: { Project: "Apollo", Budget: 12.5, Approved: true },
+      dateSystem: 1900,
+      calcMode: "manual",
+      sheetCount: 1,
+      protection: { structure: true, windows: false, protectedSheets: ["Plan"] },
+    });
+    expect(result.format.fileSize).toBeGreaterThan(0);
+  });
+
+  it("should read .xls summary information streams and BIFF settings", async () => {
+    const result = await getWorkbookInfo({ filePath: join(testDir, "properties.xls") });
+
+    expect(result).toMatchObject({
+      format: { type: "xls", container: "cfb", biffVersion: 8, hasMacros: false },
+      properties: {
+        title: "Ledger 2024",
+        author: "Ana",
+        lastModifiedBy: "Ben",
+        company: "Acme",
+        created: "2024-01-02T09:30:00.000Z",
+      },
+      customProperties: { Project: "Apollo", Budget: 12.5, Approved: true },
+      dateSystem: 1904,
+      calcMode: "auto",
+      protection: { structure: false, windows: false, protectedSheets: [] },
+    });
+  });
+
+  it.each([
+    [932, [0x94, 0x84, 0x8f, 0xe3], "売上"],
+    [936, [0xc2, 0xf4, 0xb3, 0xf6], "卖出"],
+  ])("should decode .xls property strings in code page %i", async (codePage, bytes, title) => {
+    const filePath = join(testDir, `cp${codePage}.xls`);
+    const cfb = CFB.read(readFileSync(join(testDir, "properties.xls")), { type: "buffer" });
+    const entry = CFB.find(cfb, "/\u0005SummaryInformation");
+    if (!entry) throw new Error("No SummaryInformation stream");
+    entry.content = summaryStream(codePage, Buffer.from(bytes));
+    entry.size = entry.content.length;
+    writeFileSync(filePath, CFB.write(cfb, { type: "buffer" }) as Buffer);
+
+    expect((await getWorkbookInfo({ filePath })).properties.title).toBe(title);
+  });
+
+  it("should report text formats without document properties", async () => {
+    const csvPath = join(testDir, "plain.csv");
+    writeFileSync(csvPath, "a,b\n1,2\n");
+
+    expect(await getWorkbookInfo({ filePath: csvPath })).toEqual({
+      fileName: "plain.csv",
+      format: { type: "csv", container: "none", hasMacros: false, fileSize: 8 },
+      properties: {},
+      customProperties: {},
+      dateSystem: 1900,
+      calcMode: "auto",
+      sheetCount: 1,
+      protection: { structure: false, windows: false, protectedSheets: [] },
+    });
+  });
+
+  it("should throw for missing files", async () => {
+    await expect(getWorkbookInfo({ filePath: join(testDir, "missing.xlsx") })).rejects.toThrow("File not found");
+  });
+});
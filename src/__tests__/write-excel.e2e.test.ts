@@ -0,0 +1,86 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cleanupTestFiles, setupTestFiles } from "./helpers/generate-test-files.js";
+
+let client: Client;
+let transport: StdioClientTransport;
+let testDir: string;
+
+beforeAll(async () => {
+  testDir = setupTestFiles();
+
+  transport = new StdioClientTransport({
+    command: "node",
+    args: [join(import.meta.dirname, "../../build/index.js")],
+  });
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client.close();
+  cleanupTestFiles(testDir);
+});
+
+describe("write_excel", () => {
+  it("should create a workbook that read_excel can read back", async () => {
+    const filePath = join(testDir, "summary.xlsx");
+    const result = await client.callTool({
+      name: "write_excel",
+      arguments: {
+        filePath,
+        sheets: [
+          {
+            name: "Summary",
+            rows: [
+              { Region: "North", Revenue: 1200 },
+              { Region: "South", Revenue: 800 },
+            ],
+            numberFormats: { Revenue: "#,##0" },
+            freezePanes: { rows: 1 },
+            autoFilter: true,
+          },
+        ],
+      },
+    });
+
+    const data = JSON.parse((result.content as { type: string; text: string }[])[0].text);
+    expect(data).toMatchObject({
+      filePath,
+      format: "xlsx",
+      sheets: [{ name: "Summary", columns: ["Region", "Revenue"], rowCount: 2, range: "A1:B3" }],
+    });
+
+    const read = await client.callTool({ name: "read_excel", arguments: { filePath } });
+    const sheet = JSON.parse((read.content as { type: string; text: string }[])[0].text).currentSheet;
+    expect(sheet.chunk.data).toEqual([
+      { Region: "North", Revenue: 1200 },
+      { Region: "South", Revenue: 800 },
+    ]);
+  });
+
+  it("should not replace an existing file without overwrite", async () => {
+    const filePath = join(testDir, "basic.xlsx");
+    const before = readFileSync(filePath);
+
+    await expect(
+      client.callTool({
+        name: "write_excel",
+        arguments: { filePath, sheets: [{ name: "Sheet1", rows: [{ A: 1 }] }] },
+      }),
+    ).rejects.toThrow(/File already exists/);
+    expect(readFileSync(filePath)).toEqual(before);
+  });
+
+  it("should reject invalid arguments", async () => {
+    await expect(
+      client.callTool({
+        name: "write_excel",
+        arguments: { filePath: join(testDir, "x.xlsx"), sheets: [{ name: "Sheet1", rows: [1, 2] }] },
+      }),
+    ).rejects.toThrow(/Invalid write_excel arguments/);
+  });
+});
@@ -0,0 +1,284 @@
+import * as XLSX from "xlsx";
+import { planChunk } from "./chunking.js";
+import { distinctKey } from "./describe-sheet.js";
+import { selectSheetRows } from "./excel-reader.js";
+import { compare, filterRows, isEmptyValue, resolveColumn } from "./row-filter.js";
+import type {
+  AggregateExcelArgs,
+  AggregateExcelResult,
+  AggregateFunction,
+  Aggregation,
+  DateBucket,
+  GroupColumn,
+} from "./types.js";
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = [
+  "sum",
+  "count",
+  "countDistinct",
+  "avg",
+  "min",
+  "max",
+  "median",
+  "percentile",
+];
+
+export const DATE_BUCKETS: DateBucket[] = ["day", "week", "month", "quarter", "year"];
+
+const pad = (n: number): string => String(n).padStart(2, "0");
+
+/**
+ * The period a date falls in, as a sortable label: "2024-03-05", "2024-W10",
+ * "2024-03", "2024-Q1" or "2024". Dates are bucketed by their local calendar
+ * day, which is how SheetJS hands back the wall-clock dates stored in the file.
+ */
+export function bucketDate(date: Date, bucket: DateBucket): string {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  switch (bucket) {
+    case "day":
+      return `${year}-${pad(month + 1)}-${pad(date.getDate())}`;
+    case "week": {
+      // ISO 8601 week: weeks start on Monday and belong to the year of their Thursday
+      const thursday = new Date(year, month, date.getDate() + 3 - ((date.getDay() + 6) % 7));
+      const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+      const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / 86400000 / 7 - 0.5);
+      return `${thursday.getFullYear()}-W${pad(Math.max(1, week))}`;
+    }
+    case "month":
+      return `${year}-${pad(month + 1)}`;
+    case "quarter":
+      return `${year}-Q${Math.floor(month / 3) + 1}`;
+    case "year":
+      return String(year);
+  }
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks, as Excel's
+ * PERCENTILE.INC computes it. `sorted` must be in ascending order.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function aggregationName(aggregation: Aggregation): string {
+  if (aggregation.as) return aggregation.as;
+  const { fn, column } = aggregation;
+  if (fn === "percentile") return `p${aggregation.percentile}(${column})`;
+  return column ? `${fn}(${column})` : fn;
+}
+
+function compute(aggregation: Aggregation, column: string | undefined, rows: Record<string, unknown>[]): unknown {
+  if (!column) return rows.length;
+  const values = rows.map((row) => row[column]).filter((value) => !isEmptyValue(value));
+  const numbers = values.filter((value): value is number => typeof value === "number");
+
+  switch (aggregation.fn) {
+    case "count":
+      return values.length;
+    case "countDistinct":
+      return new Set(values.map(distinctKey)).size;
+    case "sum":
+      return numbers.reduce((total, n) => total + n, 0);
+    case "avg":
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    case "min":
+    case "max": {
+      const sign = aggregation.fn === "min" ? 1 : -1;
+      return values.length > 0 ? values.reduce((best, v) => (sign * compare(v, best) < 0 ? v : best)) : null;
+    }
+    case "median":
+      return percentile(
+        numbers.sort((a, b) => a - b),
+        50,
+      );
+    case "percentile":
+      return percentile(
+        numbers.sort((a, b) => a - b),
+        aggregation.percentile ?? 50,
+      );
+  }
+}
+
+// Blank values sort after everything else, in either direction
+export function compareResultValues(a: unknown, b: unknown): number {
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+  return compare(a, b);
+}
+
+interface Group {
+  key: unknown[];
+  rows: Record<string, unknown>[];
+  /** The group's rows split by pivot value */
+  pivoted: Map<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Group, pivot and aggregate a sheet's rows server-side. Rows are filtered
+ * with `where` first; each result row holds the group values followed by one
+ * column per aggregation (per pivot value, when pivoting). The result is
+ * paginated like read_excel's chunks.
+ */
+export function aggregateExcel(args: AggregateExcelArgs): AggregateExcelResult {
+  const {
+    filePath,
+    range,
+    groupBy = [],
+    aggregations,
+    where,
+    pivot,
+    orderBy,
+    startRow = 0,
+    maxRows,
+    maxBytes,
+    maxTokens,
+  } = args;
+  const { sheetName, block, columns, rows, namedRange } = selectSheetRows(args);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  const firstCol = block?.s.c ?? 0;
+
+  const toGroupColumn = (spec: string | GroupColumn): GroupColumn => {
+    const { column, bucket } = typeof spec === "string" ? { column: spec, bucket: undefined } : spec;
+    return { column: resolveColumn(column, columns, firstCol), ...(bucket ? { bucket } : {}) };
+  };
+  const groupColumns = groupBy.map(toGroupColumn);
+  const pivotColumn = pivot ? toGroupColumn(pivot) : undefined;
+
+  const measures = aggregations.map((aggregation) => {
+    if (!aggregation.column && aggregation.fn !== "count") {
+      throw new Error(`Aggregation "${aggregation.fn}" needs a column`);
+    }
+    if (
+      aggregation.fn === "percentile" &&
+      (aggregation.percentile === undefined || aggregation.percentile < 0 || aggregation.percentile > 100)
+    ) {
+      throw new Error('Aggregation "percentile" needs a percentile between 0 and 100');
+    }
+    return {
+      aggregation,
+      column: aggregation.column ? resolveColumn(aggregation.column, columns, firstCol) : undefined,
+      name: aggregationName(aggregation),
+    };
+  });
+
+  const keyValue = (row: Record<string, unknown>, { column, bucket }: GroupColumn): unknown => {
+    const value = row[column];
+    if (isEmptyValue(value)) return null;
+    return bucket && value instanceof Date ? bucketDate(value, bucket) : value;
+  };
+
+  const matched = block && where && where.length > 0 ? filterRows(rows, where, columns, firstCol) : rows;
+
+  // Group rows, then split each group by pivot value
+  const groups = new Map<string, Group>();
+  const pivotKeys = new Map<string, unknown>();
+  for (const row of matched) {
+    const key = groupColumns.map((spec) => keyValue(row, spec));
+    const id = JSON.stringify(key.map(distinctKey));
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, rows: [], pivoted: new Map() };
+      groups.set(id, group);
+    }
+    group.rows.push(row);
+    if (pivotColumn) {
+      const value = keyValue(row, pivotColumn);
+      const pivotId = distinctKey(value);
+      pivotKeys.set(pivotId, value);
+      const slice = group.pivoted.get(pivotId);
+      if (slice) slice.push(row);
+      else group.pivoted.set(pivotId, [row]);
+    }
+  }
+  // An ungrouped aggregate over no rows still reports counts of 0
+  if (groupColumns.length === 0 && groups.size === 0) {
+    groups.set("[]", { key: [], rows: [], pivoted: new Map() });
+  }
+
+  const groupNames = groupColumns.map(({ column, bucket }) => (bucket ? `${column} (${bucket})` : column));
+  const pivotValues = [...pivotKeys.entries()].sort(([, a], [, b]) => compareResultValues(a, b));
+  const pivotLabel = (value: unknown): string =>
+    value === null ? "(blank)" : value instanceof Date ? value.toISOString() : String(value);
+
+  const pivotColumnNames = (label: string): string[] =>
+    measures.map(({ name }) => (measures.length === 1 ? label : `${label} / ${name}`));
+  // Values that print alike (1 and "1", a blank and "(blank)", or a group
+  // column's name) get a " (2)", " (3)"... suffix so no column is overwritten
+  const taken = new Set(groupNames);
+  const pivotLabels = pivotValues.map(([, value]) => {
+    const base = pivotLabel(value);
+    let label = base;
+    for (let n = 2; pivotColumnNames(label).some((name) => taken.has(name)); n++) label = `${base} (${n})`;
+    for (const name of pivotColumnNames(label)) taken.add(name);
+    return label;
+  });
+
+  const resultColumns = [
+    ...groupNames,
+    ...(pivotColumn ? pivotLabels.flatMap(pivotColumnNames) : measures.map(({ name }) => name)),
+  ];
+
+  const data = [...groups.values()].map((group) => {
+    const values: unknown[] = [...group.key];
+    if (pivotColumn) {
+      for (const [id] of pivotValues) {
+        // Combinations without any rows stay blank, as in an Excel pivot table
+        const slice = group.pivoted.get(id);
+        for (const { aggregation, column } of measures) {
+          values.push(slice ? compute(aggregation, column, slice) : null);
+        }
+      }
+    } else {
+      for (const { aggregation, column } of measures) {
+        values.push(compute(aggregation, column, group.rows));
+      }
+    }
+    return Object.fromEntries(resultColumns.map((name, i) => [name, values[i]]));
+  });
+
+  const sortKeys = orderBy ?? groupNames.map((column) => ({ column, direction: "asc" as const }));
+  for (const { column } of sortKeys) {
+    if (!resultColumns.includes(column)) {
+      throw new Error(`Cannot order by ${column}. Result columns: ${resultColumns.join(", ")}`);
+    }
+  }
+  data.sort((a, b) => {
+    for (const { column, direction } of sortKeys) {
+      const order = compareResultValues(a[column], b[column]);
+      if (order === 0) continue;
+      const blank = isEmptyValue(a[column]) || isEmptyValue(b[column]);
+      return direction === "desc" && !blank ? -order : order;
+    }
+    return 0;
+  });
+
+  const envelope = JSON.stringify({ columns: resultColumns, nextChunk: { columns: resultColumns } });
+  const { rowEnd, sizing } = planChunk(data, startRow, { maxRows, maxBytes, maxTokens }, envelope);
+  const hasMore = rowEnd < data.length;
+
+  return {
+    fileName,
+    sheet: sheetName,
+    ...((range || namedRange) && block ? { range: XLSX.utils.encode_range(block) } : {}),
+    ...(namedRange ? { namedRange } : {}),
+    matchedRows: matched.length,
+    totalRows: data.length,
+    ...(pivotColumn ? { pivotValues: pivotLabels } : {}),
+    chunk: {
+      rowStart: startRow,
+      rowEnd,
+      columns: resultColumns,
+      data: data.slice(startRow, rowEnd),
+      sizing,
+    },
+    hasMore,
+    ...(hasMore ? { nextChunk: { rowStart: rowEnd, columns: resultColumns } } : {}),
+  };
+}
@@ -0,0 +1,99 @@
+import * as XLSX from "xlsx";
+
+export interface SheetReference {
+  sheet?: string;
+  address: string;
+}
+
+/**
+ * Split an A1 reference such as `Sheet1!C5:H40` or `'My Sheet'!B:D` into its
+ * sheet qualifier (if any) and the address part.
+ */
+export function splitSheetReference(ref: string): SheetReference {
+  const trimmed = ref.trim();
+  const quoted = trimmed.match(/^'((?:[^']|'')+)'!(.+)$/);
+  if (quoted) {
+    return { sheet: quoted[1].replace(/''/g, "'"), address: quoted[2] };
+  }
+  const bang = trimmed.lastIndexOf("!");
+  if (bang > 0) {
+    return { sheet: trimmed.slice(0, bang), address: trimmed.slice(bang + 1) };
+  }
+  return { address: trimmed };
+}
+
+/**
+ * Resolve an A1 address (`C5:H40`, `C5`, `B:D`, `5:10`) against a sheet's used
+ * range. Whole-column and whole-row references are bounded by the used range,
+ * and the result is clipped to it. Returns null when the address lies entirely
+ * outside the used range.
+ */
+export function resolveAddress(address: string, usedRange: XLSX.Range): XLSX.Range | null {
+  const normalized = address.replace(/\$/g, "").toUpperCase();
+  let range: XLSX.Range;
+
+  if (/^[A-Z]+\d+(:[A-Z]+\d+)?$/.test(normalized)) {
+    range = XLSX.utils.decode_range(normalized);
+  } else if (/^[A-Z]+:[A-Z]+$/.test(normalized)) {
+    const [from, to] = normalized.split(":");
+    range = {
+      s: { r: usedRange.s.r, c: XLSX.utils.decode_col(from) },
+      e: { r: usedRange.e.r, c: XLSX.utils.decode_col(to) },
+    };
+  } else if (/^\d+:\d+$/.test(normalized)) {
+    const [from, to] = normalized.split(":");
+    range = {
+      s: { r: XLSX.utils.decode_row(from), c: usedRange.s.c },
+      e: { r: XLSX.utils.decode_row(to), c: usedRange.e.c },
+    };
+  } else {
+    throw new Error(`Invalid range: ${address}`);
+  }
+
+  // Allow reversed corners such as "H40:C5"
+  const s = { r: Math.min(range.s.r, range.e.r), c: Math.min(range.s.c, range.e.c) };
+  const e = { r: Math.max(range.s.r, range.e.r), c: Math.max(range.s.c, range.e.c) };
+
+  const clipped = {
+    s: { r: Math.max(s.r, usedRange.s.r), c: Math.max(s.c, usedRange.s.c) },
+    e: { r: Math.min(e.r, usedRange.e.r), c: Math.min(e.c, usedRange.e.c) },
+  };
+  if (clipped.s.r > clipped.e.r || clipped.s.c > clipped.e.c) {
+    return null;
+  }
+  return clipped;
+}
+
+/**
+ * Encode the block covering rows `fromRow`..`toRow` of the given column span.
+ */
+export function encodeBlock(columns: XLSX.Range, fromRow: number, toRow: number): string {
+  return XLSX.utils.encode_range({ s: { r: fromRow, c: columns.s.c }, e: { r: toRow, c: columns.e.c } });
+}
+
+export interface SheetBlock {
+  sheetName: string;
+  worksheet: XLSX.WorkSheet;
+  /** The requested range clipped to the used range, or the whole used range; null when nothing is there */
+  block: XLSX.Range | null;
+}
+
+/**
+ * Pick the worksheet and block a tool call addresses. A sheet-qualified range
+ * selects its sheet; otherwise `sheetName` or the first sheet is used.
+ */
+export function resolveSheetBlock(workbook: XLSX.WorkBook, sheetName?: string, range?: string): SheetBlock {
+  const reference = range ? splitSheetReference(range) : undefined;
+  if (reference?.sheet && sheetName && reference.sheet !== sheetName) {
+    throw new Error(`Range sheet "${reference.sheet}" does not match sheetName "${sheetName}"`);
+  }
+  const selectedSheetName = reference?.sheet || sheetName || workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[selectedSheetName];
+  if (!worksheet) {
+    throw new Error(`Sheet not found: ${selectedSheetName}`);
+  }
+
+  const usedRange = worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]) : null;
+  const block = usedRange && reference ? resolveAddress(reference.address, usedRange) : usedRange;
+  return { sheetName: selectedSheetName, worksheet, block };
+}
@@ -0,0 +1,183 @@
+import { existsSync } from "node:fs";
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import type { ChartAxis, ChartInfo, ChartSeries, GetChartsArgs, GetChartsResult } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+import {
+  decodeXml,
+  isZipPackage,
+  listSheetParts,
+  readPart,
+  readRelationships,
+  type XmlElement,
+  xmlElements,
+} from "./xlsx-package.js";
+
+const AXIS_KINDS: Record<string, string> = { catAx: "category", valAx: "value", dateAx: "date", serAx: "series" };
+
+const firstElement = (xml: string, name: string): XmlElement | undefined => xmlElements(xml, name)[0];
+
+const elementText = (xml: string, name: string): string | undefined => {
+  const element = firstElement(xml, name);
+  return element ? decodeXml(element.body) : undefined;
+};
+
+/**
+ * Text of a title or series name: rich text runs (one line per paragraph),
+ * a plain value, or the cached text of the cell it refers to.
+ */
+function richText(tx: string): string | undefined {
+  const rich = firstElement(tx, "rich");
+  if (rich) {
+    return xmlElements(rich.body, "p")
+      .map((p) =>
+        xmlElements(p.body, "t")
+          .map((t) => decodeXml(t.body))
+          .join(""),
+      )
+      .join("\n");
+  }
+  const ref = firstElement(tx, "strRef");
+  if (ref) return cachedValues(ref.body).join("");
+  return elementText(tx, "v");
+}
+
+/**
+ * Points of a data cache or literal, placed by index so gaps come back as
+ * null. Multi-level category caches return their innermost level.
+ */
+function cachedValues(xml: string): unknown[] {
+  const cache = firstElement(xml, "lvl")?.body ?? xml;
+  const numeric = /<(?:\w+:)?num(?:Cache|Lit)\b/.test(xml);
+  const count = Number(firstElement(xml, "ptCount")?.attributes.val ?? 0);
+  const points = xmlElements(cache, "pt");
+  const length = points.reduce((max, pt) => Math.max(max, Number(pt.attributes.idx) + 1), count);
+  const values: unknown[] = Array.from({ length }, () => null);
+  for (const pt of points) {
+    const text = elementText(pt.body, "v") ?? "";
+    values[Number(pt.attributes.idx)] = numeric ? Number(text) : text;
+  }
+  return values;
+}
+
+// A series data source: its cell reference and the values cached with the chart
+function dataSource(xml: string | undefined): { ref?: string; values?: unknown[] } {
+  if (xml === undefined) return {};
+  const ref = elementText(xml, "f");
+  return { ...(ref ? { ref } : {}), values: cachedValues(xml) };
+}
+
+function parseSeries(xml: string, type: string | undefined): ChartSeries {
+  const tx = firstElement(xml, "tx")?.body;
+  const name = tx === undefined ? undefined : richText(tx);
+  const nameRef = tx === undefined ? undefined : elementText(tx, "f");
+  const categories = dataSource((firstElement(xml, "cat") ?? firstElement(xml, "xVal"))?.body);
+  const values = dataSource((firstElement(xml, "val") ?? firstElement(xml, "yVal"))?.body);
+  const sizes = dataSource(firstElement(xml, "bubbleSize")?.body);
+  return {
+    ...(name ? { name } : {}),
+    ...(nameRef ? { nameRef } : {}),
+    ...(categories.ref ? { categoriesRef: categories.ref } : {}),
+    ...(categories.values ? { categories: categories.values } : {}),
+    ...(values.ref ? { valuesRef: values.ref } : {}),
+    ...(values.values ? { values: values.values } : {}),
+    ...(sizes.ref ? { sizesRef: sizes.ref } : {}),
+    ...(sizes.values ? { sizes: sizes.values } : {}),
+    ...(type ? { type } : {}),
+  };
+}
+
+function parseChart(xml: string): Pick<ChartInfo, "type" | "title" | "axes" | "series"> {
+  const chart = firstElement(xml, "chart")?.body ?? "";
+  const plotArea = firstElement(chart, "plotArea")?.body ?? "";
+  // Axis titles live inside the plot area, so the chart title is looked for outside it
+  const titleXml = firstElement(chart.replace(plotArea, ""), "title")?.body;
+  const title = titleXml === undefined ? undefined : richText(firstElement(titleXml, "tx")?.body ?? "");
+
+  const plots = [...plotArea.matchAll(/<(?:\w+:)?(\w+)Chart\b[^>]*>([\s\S]*?)<\/(?:\w+:)?\1Chart>/g)].map((match) => {
+    const barDir = firstElement(match[2], "barDir")?.attributes.val;
+    return { type: barDir === "col" ? match[1].replace("bar", "column") : match[1], body: match[2] };
+  });
+  const combo = new Set(plots.map((plot) => plot.type)).size > 1;
+
+  const axes = Object.keys(AXIS_KINDS).flatMap((element) =>
+    xmlElements(plotArea, element).map(({ body }): ChartAxis => {
+      const position = firstElement(body, "axPos")?.attributes.val;
+      const axisTitle = firstElement(body, "title")?.body;
+      const text = axisTitle === undefined ? undefined : richText(firstElement(axisTitle, "tx")?.body ?? "");
+      return { kind: AXIS_KINDS[element], ...(position ? { position } : {}), ...(text ? { title: text } : {}) };
+    }),
+  );
+
+  return {
+    type: combo ? "combo" : (plots[0]?.type ?? "unknown"),
+    ...(title ? { title } : {}),
+    axes,
+    series: plots.flatMap((plot) =>
+      xmlElements(plot.body, "ser").map((ser) => parseSeries(ser.body, combo ? plot.type : undefined)),
+    ),
+  };
+}
+
+// Cell range a drawing anchor covers; absolute anchors are not tied to cells
+function anchorRange(anchor: XmlElement): string | undefined {
+  const cellOf = (marker: XmlElement | undefined) =>
+    marker && {
+      r: Number(firstElement(marker.body, "row")?.body ?? 0),
+      c: Number(firstElement(marker.body, "col")?.body ?? 0),
+    };
+  const from = cellOf(firstElement(anchor.body, "from"));
+  if (!from) return undefined;
+  const to = cellOf(firstElement(anchor.body, "to")) ?? from;
+  return XLSX.utils.encode_range({ s: from, e: to });
+}
+
+/**
+ * Native charts of an .xlsx package, found through each sheet's drawings,
+ * with their series references and the values cached in the chart part.
+ * Other formats have none.
+ */
+export async function getCharts(args: GetChartsArgs): Promise<GetChartsResult> {
+  const { filePath, password, sheetName } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { buffer, workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  if (sheetName && !workbook.SheetNames.includes(sheetName)) {
+    throw new Error(`Sheet not found: ${sheetName}`);
+  }
+
+  const charts: ChartInfo[] = [];
+  if (isZipPackage(buffer)) {
+    const zip = await JSZip.loadAsync(buffer);
+    for (const part of await listSheetParts(zip)) {
+      if (sheetName && part.name !== sheetName) continue;
+      for (const rel of part.rels) {
+        if (rel.external || rel.type !== "drawing") continue;
+        const drawingXml = (await readPart(zip, rel.target)) ?? "";
+        const drawingRels = await readRelationships(zip, rel.target);
+        const anchors = ["twoCellAnchor", "oneCellAnchor", "absoluteAnchor"].flatMap((name) =>
+          xmlElements(drawingXml, name),
+        );
+        for (const anchor of anchors) {
+          for (const chartRef of xmlElements(anchor.body, "chart")) {
+            const chartRel = drawingRels.find((r) => r.id === chartRef.attributes.id && !r.external);
+            if (!chartRel) continue;
+            const name = firstElement(anchor.body, "cNvPr")?.attributes.name;
+            const range = anchorRange(anchor);
+            charts.push({
+              sheet: part.name,
+              ...(name ? { name } : {}),
+              ...(range ? { anchor: range } : {}),
+              ...parseChart((await readPart(zip, chartRel.target)) ?? ""),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return { fileName, totalCharts: charts.length, charts };
+}
@@ -0,0 +1,96 @@
+import type { ChunkEndReason, ChunkSizing } from "./types.js";
+
+export const MAX_RESPONSE_SIZE = 100 * 1024; // 100KB default max response size
+
+// Rows sit four levels deep in the pretty-printed response, 8 spaces more than JSON.stringify(row, null, 2)
+const ROW_INDENT = 8;
+// Room for the response fields around the rows (file and sheet names, counts, pagination)
+const ENVELOPE_SIZE = 1024;
+
+export interface ChunkLimits {
+  maxRows?: number;
+  maxBytes?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Approximate the number of LLM tokens in a piece of text. ASCII text runs at
+ * roughly four characters per token, while CJK and other non-ASCII characters
+ * usually cost about one token each.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * Serialize a row the way it appears in the pretty-printed JSON response.
+ */
+export const serializeJsonRow = (row: unknown): string => {
+  const text = JSON.stringify(row, null, 2);
+  const lines = text.split("\n").length;
+  return `${text},\n${" ".repeat(ROW_INDENT * lines)}`;
+};
+
+/**
+ * Decide where a chunk starting at `startRow` ends by serializing rows one at a
+ * time and stopping before the first row that would exceed a limit. The first
+ * row is always included so pagination can make progress. A maxRows of 0
+ * sets no row limit, and when no byte or token budget is given, the default
+ * byte budget applies.
+ */
+export function planChunk<T>(
+  rows: T[],
+  startRow: number,
+  limits: ChunkLimits,
+  envelope: string,
+  serialize: (row: T) => string = serializeJsonRow,
+): { rowEnd: number; sizing: ChunkSizing } {
+  const maxRows = limits.maxRows || undefined;
+  const maxBytes = limits.maxBytes ?? (limits.maxTokens === undefined ? MAX_RESPONSE_SIZE : undefined);
+  const maxTokens = limits.maxTokens;
+
+  let bytes = Buffer.byteLength(envelope) + ENVELOPE_SIZE;
+  let tokens = estimateTokens(envelope) + Math.ceil(ENVELOPE_SIZE / 4);
+  let rowEnd = startRow;
+  let endReason: ChunkEndReason = "end";
+
+  while (rowEnd < rows.length) {
+    if (maxRows !== undefined && rowEnd - startRow >= maxRows) {
+      endReason = "maxRows";
+      break;
+    }
+    const text = serialize(rows[rowEnd]);
+    const rowBytes = Buffer.byteLength(text);
+    const rowTokens = estimateTokens(text);
+    const first = rowEnd === startRow;
+    if (!first && maxBytes !== undefined && bytes + rowBytes > maxBytes) {
+      endReason = "maxBytes";
+      break;
+    }
+    if (!first && maxTokens !== undefined && tokens + rowTokens > maxTokens) {
+      endReason = "maxTokens";
+      break;
+    }
+    bytes += rowBytes;
+    tokens += rowTokens;
+    rowEnd++;
+  }
+
+  return {
+    rowEnd,
+    sizing: {
+      ...(maxRows !== undefined ? { maxRows } : {}),
+      ...(maxBytes !== undefined ? { maxBytes } : {}),
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+      bytes,
+      tokens,
+      endReason,
+    },
+  };
+}
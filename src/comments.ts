@@ -0,0 +1,172 @@
+import { existsSync } from "node:fs";
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import type { CellComment, CommentReply, GetCommentsArgs, GetCommentsResult, SheetComments } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+import { decodeXml, isZipPackage, listSheetParts, readPart, xmlAttributes } from "./xlsx-package.js";
+
+const byPosition = (a: CellComment, b: CellComment): number => {
+  const x = XLSX.utils.decode_cell(a.address);
+  const y = XLSX.utils.decode_cell(b.address);
+  return x.r - y.r || x.c - y.c;
+};
+
+/**
+ * Comment attached to a cell, as parsed by SheetJS. Legacy notes and .xls
+ * NOTE records carry one entry; threaded comments carry the whole thread in
+ * posting order, so the first entry is the comment and the rest its replies.
+ * SheetJS does not keep timestamps, which only get_comments reports.
+ */
+export function commentAt(worksheet: XLSX.WorkSheet, r: number, c: number): Omit<CellComment, "address"> | undefined {
+  const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+  const [first, ...rest] = cell?.c ?? [];
+  if (!first) return undefined;
+
+  const reply = (comment: XLSX.Comment): CommentReply => ({
+    ...(comment.a ? { author: comment.a } : {}),
+    text: comment.t,
+  });
+  return {
+    ...reply(first),
+    threaded: Boolean(first.T),
+    ...(rest.length > 0 ? { replies: rest.map(reply) } : {}),
+  };
+}
+
+/**
+ * Comments of an .xls (or other non-XML) workbook, from the NOTE/TXO records
+ * SheetJS attaches to cells.
+ */
+function sheetJsComments(workbook: XLSX.WorkBook, sheetNames: string[]): SheetComments[] {
+  return sheetNames.map((sheet) => {
+    const worksheet = workbook.Sheets[sheet];
+    const comments: CellComment[] = [];
+    for (const address of Object.keys(worksheet)) {
+      if (address.startsWith("!")) continue;
+      const { r, c } = XLSX.utils.decode_cell(address);
+      const comment = commentAt(worksheet, r, c);
+      if (comment) comments.push({ address, ...comment });
+    }
+    return { sheet, comments: comments.sort(byPosition) };
+  });
+}
+
+async function readPersons(zip: JSZip): Promise<Map<string, string>> {
+  const persons = new Map<string, string>();
+  const personParts = Object.keys(zip.files).filter((path) => /^xl\/persons\/[^/]+\.xml$/i.test(path));
+  for (const path of personParts) {
+    const xml = (await readPart(zip, path)) ?? "";
+    for (const match of xml.matchAll(/<(?:\w+:)?person\b[^>]*>/g)) {
+      const { id, displayName } = xmlAttributes(match[0]);
+      if (id && displayName) persons.set(id, displayName);
+    }
+  }
+  return persons;
+}
+
+function parseThreadedComments(xml: string, persons: Map<string, string>): CellComment[] {
+  const roots = new Map<string, CellComment>();
+  const replies: { parentId: string; reply: CommentReply }[] = [];
+
+  for (const match of xml.matchAll(
+    /<(?:\w+:)?threadedComment\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?threadedComment>)/g,
+  )) {
+    const { ref, dT, personId, id, parentId, done } = xmlAttributes(match[1]);
+    const text = match[2]?.match(/<(?:\w+:)?text>([\s\S]*?)<\/(?:\w+:)?text>/)?.[1] ?? "";
+    const author = persons.get(personId);
+    const entry: CommentReply = {
+      ...(author ? { author } : {}),
+      text: decodeXml(text).replace(/\r\n?/g, "\n"),
+      ...(dT ? { timestamp: dT } : {}),
+    };
+    if (parentId) {
+      replies.push({ parentId, reply: entry });
+    } else {
+      roots.set(id, {
+        address: ref,
+        ...entry,
+        threaded: true,
+        ...(done === "1" || done === "true" ? { resolved: true } : {}),
+      });
+    }
+  }
+
+  for (const { parentId, reply } of replies) {
+    const root = roots.get(parentId);
+    if (!root) continue;
+    root.replies = [...(root.replies ?? []), reply];
+  }
+  return [...roots.values()];
+}
+
+function parseLegacyComments(xml: string): CellComment[] {
+  const authors = [...xml.matchAll(/<(?:\w+:)?author>([\s\S]*?)<\/(?:\w+:)?author>/g)].map((m) => decodeXml(m[1]));
+
+  return [...xml.matchAll(/<(?:\w+:)?comment\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?comment>/g)].map((match) => {
+    const { ref, authorId } = xmlAttributes(match[1]);
+    const author = authors[Number(authorId)];
+    // Rich text runs each carry their own <t>; plain notes have a single one
+    const text = [...match[2].matchAll(/<(?:\w+:)?t\b[^>]*>([\s\S]*?)<\/(?:\w+:)?t>/g)].map((m) => m[1]).join("");
+    return {
+      address: ref,
+      ...(author ? { author } : {}),
+      text: decodeXml(text).replace(/\r\n?/g, "\n"),
+      threaded: false,
+    };
+  });
+}
+
+/**
+ * Comments of an .xlsx package, read from the parts directly so that threaded
+ * comments keep their timestamps, resolved state and reply chain. Excel also
+ * writes a legacy placeholder note for every threaded comment; those are
+ * dropped in favour of the thread.
+ */
+async function packageComments(zip: JSZip, sheetNames: string[]): Promise<SheetComments[] | undefined> {
+  const parts = await listSheetParts(zip);
+  if (parts.length === 0) return undefined;
+
+  const persons = await readPersons(zip);
+  const result: SheetComments[] = [];
+  for (const sheet of sheetNames) {
+    const part = parts.find((p) => p.name === sheet);
+    const comments: CellComment[] = [];
+    for (const rel of part?.rels ?? []) {
+      if (rel.external || rel.type !== "threadedComment") continue;
+      comments.push(...parseThreadedComments((await readPart(zip, rel.target)) ?? "", persons));
+    }
+    const threadedRefs = new Set(comments.map((comment) => comment.address));
+    for (const rel of part?.rels ?? []) {
+      if (rel.external || rel.type !== "comments") continue;
+      const notes = parseLegacyComments((await readPart(zip, rel.target)) ?? "");
+      comments.push(...notes.filter((note) => !threadedRefs.has(note.address)));
+    }
+    result.push({ sheet, comments: comments.sort(byPosition) });
+  }
+  return result;
+}
+
+export async function getComments(args: GetCommentsArgs): Promise<GetCommentsResult> {
+  const { filePath, password, sheetName } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { buffer, workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+
+  if (sheetName && !workbook.SheetNames.includes(sheetName)) {
+    throw new Error(`Sheet not found: ${sheetName}`);
+  }
+  const sheetNames = sheetName ? [sheetName] : workbook.SheetNames;
+
+  const sheets =
+    (isZipPackage(buffer) ? await packageComments(await JSZip.loadAsync(buffer), sheetNames) : undefined) ??
+    sheetJsComments(workbook, sheetNames);
+
+  return {
+    fileName,
+    totalComments: sheets.reduce((total, sheet) => total + sheet.comments.length, 0),
+    sheets,
+  };
+}
@@ -0,0 +1,78 @@
+import { existsSync } from "node:fs";
+import type * as XLSX from "xlsx";
+import { splitSheetReference } from "./cell-range.js";
+import type { DefinedNameInfo, ListNamesArgs, ListNamesResult } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+
+const SINGLE_AREA = /^(\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)$/i;
+
+/**
+ * The sheet and range a name's formula points to, when it is a single
+ * rectangular area on one sheet. Dynamic names (OFFSET, INDIRECT...),
+ * constants, unions and #REF! targets have none.
+ */
+function refersTo(workbook: XLSX.WorkBook, ref: string): { sheet: string; range: string } | undefined {
+  const { sheet, address } = splitSheetReference(ref.replace(/^=/, ""));
+  if (!sheet || !workbook.SheetNames.includes(sheet) || !SINGLE_AREA.test(address)) return undefined;
+  return { sheet, range: address.replace(/\$/g, "").toUpperCase() };
+}
+
+/**
+ * Every defined name in the workbook, in the order the file lists them.
+ */
+export function definedNames(workbook: XLSX.WorkBook): DefinedNameInfo[] {
+  return (workbook.Workbook?.Names ?? []).map((name) => {
+    const scopeSheet = name.Sheet !== undefined ? workbook.SheetNames[name.Sheet] : undefined;
+    const target = refersTo(workbook, name.Ref);
+    return {
+      name: name.Name,
+      scope: scopeSheet ? "sheet" : "workbook",
+      ...(scopeSheet ? { scopeSheet } : {}),
+      formula: `=${name.Ref.replace(/^=/, "")}`,
+      hidden: Boolean((name as XLSX.DefinedName & { Hidden?: boolean }).Hidden),
+      ...(name.Comment ? { comment: name.Comment } : {}),
+      ...(target ?? {}),
+    };
+  });
+}
+
+/**
+ * Resolve a defined name to a sheet-qualified range for read_excel. Names are
+ * matched case-insensitively, like Excel does; a name scoped to `sheetName`
+ * wins over a workbook-level name of the same spelling.
+ */
+export function resolveNamedRange(workbook: XLSX.WorkBook, name: string, sheetName?: string): DefinedNameInfo {
+  const matches = definedNames(workbook).filter((n) => n.name.toLowerCase() === name.toLowerCase());
+  const sheetScoped = matches.filter((n) => n.scope === "sheet");
+
+  const match =
+    (sheetName ? sheetScoped.find((n) => n.scopeSheet === sheetName) : undefined) ??
+    matches.find((n) => n.scope === "workbook") ??
+    (sheetScoped.length === 1 ? sheetScoped[0] : undefined);
+
+  if (!match) {
+    if (sheetScoped.length > 1) {
+      throw new Error(
+        `Name "${name}" is defined on several sheets (${sheetScoped.map((n) => n.scopeSheet).join(", ")}); pass sheetName to choose one`,
+      );
+    }
+    throw new Error(`Name not found: ${name}`);
+  }
+  if (!match.sheet || !match.range) {
+    throw new Error(`Name "${match.name}" does not refer to a single range: ${match.formula}`);
+  }
+  return match;
+}
+
+export function listNames(args: ListNamesArgs): ListNamesResult {
+  const { filePath, password } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  const names = definedNames(workbook);
+
+  return { fileName, totalNames: names.length, names };
+}
@@ -0,0 +1,129 @@
+import * as XLSX from "xlsx";
+import { selectSheetRows } from "./excel-reader.js";
+import { isEmptyValue, resolveColumn } from "./row-filter.js";
+import type { ColumnProfile, ColumnType, DescribeSheetArgs, DescribeSheetResult } from "./types.js";
+
+const DEFAULT_TOP_N = 5;
+const DEFAULT_SAMPLE_SIZE = 3;
+
+function kindOf(value: unknown): Exclude<ColumnType, "mixed" | "empty"> {
+  if (value instanceof Date) return "date";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  if (typeof value === "boolean") return "boolean";
+  return "text";
+}
+
+function combineKinds(kinds: Set<ColumnType>): ColumnType {
+  // Integers mixed with fractional numbers are still a number column
+  if (kinds.has("integer") && kinds.has("number")) kinds.delete("integer");
+  return kinds.size === 0 ? "empty" : kinds.size === 1 ? [...kinds][0] : "mixed";
+}
+
+/**
+ * The type a column's non-blank values add up to, as describe_sheet reports it.
+ */
+export function inferColumnType(values: unknown[]): ColumnType {
+  const kinds = new Set<ColumnType>();
+  for (const value of values) {
+    if (!isEmptyValue(value)) kinds.add(kindOf(value));
+  }
+  return combineKinds(kinds);
+}
+
+// Distinct values are told apart by type as well as text, so 1 and "1" stay separate
+export const distinctKey = (value: unknown): string =>
+  value instanceof Date ? `date:${value.getTime()}` : `${typeof value}:${String(value)}`;
+
+/**
+ * Profile one column's values: inferred type, blank and distinct counts,
+ * numeric and date ranges, the most frequent values and a few samples.
+ */
+export function profileColumn(
+  name: string,
+  column: string,
+  values: unknown[],
+  topN = DEFAULT_TOP_N,
+  sampleSize = DEFAULT_SAMPLE_SIZE,
+): ColumnProfile {
+  const kinds = new Set<ColumnType>();
+  const distinct = new Map<string, { value: unknown; count: number }>();
+  let nullCount = 0;
+  let numbers = 0;
+  let sum = 0;
+  let min: number | undefined;
+  let max: number | undefined;
+  let minDate: Date | undefined;
+  let maxDate: Date | undefined;
+
+  for (const value of values) {
+    if (isEmptyValue(value)) {
+      nullCount++;
+      continue;
+    }
+    kinds.add(kindOf(value));
+
+    const key = distinctKey(value);
+    const entry = distinct.get(key);
+    if (entry) entry.count++;
+    else distinct.set(key, { value, count: 1 });
+
+    if (typeof value === "number") {
+      numbers++;
+      sum += value;
+      min = min === undefined ? value : Math.min(min, value);
+      max = max === undefined ? value : Math.max(max, value);
+    } else if (value instanceof Date) {
+      if (!minDate || value < minDate) minDate = value;
+      if (!maxDate || value > maxDate) maxDate = value;
+    }
+  }
+
+  const type = combineKinds(kinds);
+
+  // Map iteration follows first appearance, and the sort is stable, so ties keep sheet order
+  const frequent = [...distinct.values()].sort((a, b) => b.count - a.count);
+
+  return {
+    name,
+    column,
+    type,
+    count: values.length - nullCount,
+    nullCount,
+    distinctCount: distinct.size,
+    ...(numbers > 0 ? { min, max, mean: sum / numbers } : {}),
+    ...(minDate && maxDate ? { dateRange: { min: minDate.toISOString(), max: maxDate.toISOString() } } : {}),
+    topValues: frequent.slice(0, topN),
+    samples: [...distinct.values()].slice(0, sampleSize).map((entry) => entry.value),
+  };
+}
+
+export function describeSheet(args: DescribeSheetArgs): DescribeSheetResult {
+  const { filePath, range, columns: selectedColumns, topN, sampleSize } = args;
+  const { sheetName, block, columns, rows, headerRange, namedRange } = selectSheetRows(args);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  const firstCol = block?.s.c ?? 0;
+
+  const profiled =
+    block && selectedColumns && selectedColumns.length > 0
+      ? selectedColumns.map((column) => resolveColumn(column, columns, firstCol))
+      : columns;
+
+  return {
+    fileName,
+    sheet: sheetName,
+    ...((range || namedRange) && block ? { range: XLSX.utils.encode_range(block) } : {}),
+    ...(namedRange ? { namedRange } : {}),
+    ...(headerRange ? { headerRange } : {}),
+    totalRows: rows.length,
+    totalColumns: columns.length,
+    columns: profiled.map((name) =>
+      profileColumn(
+        name,
+        XLSX.utils.encode_col(firstCol + columns.indexOf(name)),
+        rows.map((row) => row[name]),
+        topN,
+        sampleSize,
+      ),
+    ),
+  };
+}
@@ -0,0 +1,261 @@
+import { existsSync } from "node:fs";
+import * as XLSX from "xlsx";
+import { planChunk } from "./chunking.js";
+import { distinctKey } from "./describe-sheet.js";
+import { rowNumber, type SheetSelection, selectSheetRows } from "./excel-reader.js";
+import { formulaAt } from "./formulas.js";
+import { isEmptyValue, resolveColumn } from "./row-filter.js";
+import type { DiffChange, DiffExcelArgs, DiffExcelResult, SheetDiffSummary } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+
+type Row = Record<string, unknown>;
+
+// Blank cells compare equal however they are stored
+const valueKey = (value: unknown): string => (isEmptyValue(value) ? "blank" : distinctKey(value));
+
+/**
+ * A formula with its unanchored references rewritten relative to its cell
+ * (R[-1]C[2]), so a formula that moved along with its row still compares
+ * equal. Anchored parts ($B$2) stay absolute.
+ */
+export function relativeFormula(formula: string, r: number, c: number): string {
+  return formula.replace(
+    /(?<![A-Za-z0-9_.$])(\$?)([A-Z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_(])/g,
+    (_, colAbs: string, col: string, rowAbs: string, row: string) => {
+      const colIndex = XLSX.utils.decode_col(col);
+      const rowIndex = Number(row) - 1;
+      const rowPart = rowAbs ? `R${rowIndex + 1}` : `R[${rowIndex - r}]`;
+      const colPart = colAbs ? `C${colIndex + 1}` : `C[${colIndex - c}]`;
+      return rowPart + colPart;
+    },
+  );
+}
+
+interface RowPair {
+  old?: Row;
+  new?: Row;
+}
+
+// Key columns must exist on both sides; a sheet without them is matched by position
+function keyColumnsIn(selection: SheetSelection, keyColumns: string[]): string[] | undefined {
+  const firstCol = selection.block?.s.c ?? 0;
+  try {
+    return keyColumns.map((column) => resolveColumn(column, selection.columns, firstCol));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pair up the rows of two versions of a sheet, by key column values or by
+ * sheet row number, and collect the added, removed and changed rows.
+ */
+function diffSheet(
+  before: SheetSelection,
+  after: SheetSelection,
+  keyColumns: string[] | undefined,
+  compareFormulas: boolean,
+  changes: DiffChange[],
+): SheetDiffSummary {
+  const sheet = before.sheetName;
+  const columnsAdded = after.columns.filter((column) => !before.columns.includes(column));
+  const columnsRemoved = before.columns.filter((column) => !after.columns.includes(column));
+  const common = after.columns.filter((column) => before.columns.includes(column));
+  const sheetCol = (selection: SheetSelection, column: string) =>
+    (selection.block?.s.c ?? 0) + selection.columns.indexOf(column);
+
+  const oldKeys = keyColumns ? keyColumnsIn(before, keyColumns) : undefined;
+  const newKeys = keyColumns ? keyColumnsIn(after, keyColumns) : undefined;
+  const keyed = oldKeys !== undefined && newKeys !== undefined;
+
+  const pairs: RowPair[] = [];
+  if (keyed) {
+    // Rows sharing a key are paired in order of appearance
+    const id = (row: Row, keys: string[]) => JSON.stringify(keys.map((key) => valueKey(row[key])));
+    const pending = new Map<string, Row[]>();
+    for (const row of before.rows) {
+      const queue = pending.get(id(row, oldKeys));
+      if (queue) queue.push(row);
+      else pending.set(id(row, oldKeys), [row]);
+    }
+    const matched = new Set<Row>();
+    for (const row of after.rows) {
+      const match = pending.get(id(row, newKeys))?.shift();
+      if (match) matched.add(match);
+      pairs.push({ old: match, new: row });
+    }
+    for (const row of before.rows) {
+      if (!matched.has(row)) pairs.push({ old: row });
+    }
+  } else {
+    const oldRows = new Map(before.rows.map((row) => [rowNumber(row), row]));
+    const newRows = new Map(after.rows.map((row) => [rowNumber(row), row]));
+    const numbers = [...new Set([...oldRows.keys(), ...newRows.keys()])].sort((a, b) => a - b);
+    for (const r of numbers) pairs.push({ old: oldRows.get(r), new: newRows.get(r) });
+  }
+
+  const keyOf = (row: Row, keys: string[] | undefined) =>
+    keyed && keys ? { key: Object.fromEntries(keys.map((key) => [key, row[key] ?? null])) } : {};
+
+  const summary: SheetDiffSummary = {
+    sheet,
+    ...(after.sheetName !== sheet ? { otherSheet: after.sheetName } : {}),
+    matchedBy: keyed ? "key" : "position",
+    columnsAdded,
+    columnsRemoved,
+    rowsAdded: 0,
+    rowsRemoved: 0,
+    rowsChanged: 0,
+    cellsChanged: 0,
+    formulasChanged: 0,
+  };
+
+  for (const pair of pairs) {
+    if (!pair.old && pair.new) {
+      summary.rowsAdded++;
+      changes.push({
+        type: "rowAdded",
+        sheet,
+        newRow: rowNumber(pair.new) + 1,
+        ...keyOf(pair.new, newKeys),
+        values: pair.new,
+      });
+      continue;
+    }
+    if (pair.old && !pair.new) {
+      summary.rowsRemoved++;
+      changes.push({
+        type: "rowRemoved",
+        sheet,
+        oldRow: rowNumber(pair.old) + 1,
+        ...keyOf(pair.old, oldKeys),
+        values: pair.old,
+      });
+      continue;
+    }
+    if (!pair.old || !pair.new) continue;
+
+    const oldR = rowNumber(pair.old);
+    const newR = rowNumber(pair.new);
+    let rowChanged = false;
+    for (const column of common) {
+      const oldC = sheetCol(before, column);
+      const newC = sheetCol(after, column);
+      const valueChanged = valueKey(pair.old[column]) !== valueKey(pair.new[column]);
+      const formulaBefore = compareFormulas ? formulaAt(before.worksheet, oldR, oldC)?.formula : undefined;
+      const formulaAfter = compareFormulas ? formulaAt(after.worksheet, newR, newC)?.formula : undefined;
+      const formulaChanged =
+        (formulaBefore === undefined ? "" : relativeFormula(formulaBefore, oldR, oldC)) !==
+        (formulaAfter === undefined ? "" : relativeFormula(formulaAfter, newR, newC));
+      if (!valueChanged && !formulaChanged) continue;
+
+      rowChanged = true;
+      if (valueChanged) summary.cellsChanged++;
+      if (formulaChanged) summary.formulasChanged++;
+      const address = XLSX.utils.encode_cell({ r: newR, c: newC });
+      const oldAddress = XLSX.utils.encode_cell({ r: oldR, c: oldC });
+      changes.push({
+        type: "cellChanged",
+        sheet,
+        oldRow: oldR + 1,
+        newRow: newR + 1,
+        ...keyOf(pair.new, newKeys),
+        column,
+        address,
+        ...(oldAddress !== address ? { oldAddress } : {}),
+        before: pair.old[column] ?? null,
+        after: pair.new[column] ?? null,
+        ...(formulaChanged && formulaBefore ? { formulaBefore } : {}),
+        ...(formulaChanged && formulaAfter ? { formulaAfter } : {}),
+      });
+    }
+    if (rowChanged) summary.rowsChanged++;
+  }
+  return summary;
+}
+
+/**
+ * Compare two workbooks, or two sheets, reading both through the same path
+ * as read_excel (first row as headers). The summary lists added and removed
+ * sheets and per-sheet counts; the paginated detail lists added and removed
+ * rows and changed cells with their addresses.
+ */
+export function diffExcel(args: DiffExcelArgs): DiffExcelResult {
+  const {
+    filePath,
+    password,
+    otherFilePath = filePath,
+    otherPassword = password,
+    sheetName,
+    otherSheetName,
+    keyColumns,
+    compareFormulas = true,
+    startIndex = 0,
+    maxResults,
+  } = args;
+  for (const path of [filePath, otherFilePath]) {
+    if (!existsSync(path)) {
+      throw new Error(`File not found: ${path}`);
+    }
+  }
+  if (otherSheetName && !sheetName) {
+    throw new Error("otherSheetName needs sheetName");
+  }
+  if (args.otherFilePath === undefined && (otherSheetName ?? sheetName) === sheetName) {
+    throw new Error("Nothing to compare: pass otherFilePath, or sheetName and a different otherSheetName");
+  }
+
+  const before = loadWorkbook(filePath, password).workbook;
+  const after = loadWorkbook(otherFilePath, otherPassword).workbook;
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  const otherFileName = otherFilePath.split(/[\\/]/).pop() || "";
+
+  let pairs: [string, string][];
+  let sheetsAdded: string[] = [];
+  let sheetsRemoved: string[] = [];
+  if (sheetName) {
+    pairs = [[sheetName, otherSheetName ?? sheetName]];
+  } else {
+    sheetsAdded = after.SheetNames.filter((name) => !before.SheetNames.includes(name));
+    sheetsRemoved = before.SheetNames.filter((name) => !after.SheetNames.includes(name));
+    pairs = before.SheetNames.filter((name) => after.SheetNames.includes(name)).map((name) => [name, name]);
+  }
+
+  const changes: DiffChange[] = [];
+  const sheets = pairs.map(([oldSheet, newSheet]) => {
+    const oldSelection = selectSheetRows({ filePath, password, sheetName: oldSheet });
+    const newSelection = selectSheetRows({ filePath: otherFilePath, password: otherPassword, sheetName: newSheet });
+    const keys = keyColumns && keyColumns.length > 0 ? keyColumns : undefined;
+    // A sheet asked for by name must have the key columns; across all sheets, those without them fall back to position
+    if (keys && sheetName) {
+      for (const selection of [oldSelection, newSelection]) {
+        for (const column of keys) resolveColumn(column, selection.columns, selection.block?.s.c ?? 0);
+      }
+    }
+    return diffSheet(oldSelection, newSelection, keys, compareFormulas, changes);
+  });
+
+  const envelope = JSON.stringify({ sheetsAdded, sheetsRemoved, sheets });
+  const { rowEnd, sizing } = planChunk(changes, startIndex, { maxRows: maxResults }, envelope);
+  const hasMore = rowEnd < changes.length;
+  const identical =
+    sheetsAdded.length === 0 &&
+    sheetsRemoved.length === 0 &&
+    changes.length === 0 &&
+    sheets.every((s) => s.columnsAdded.length === 0 && s.columnsRemoved.length === 0);
+
+  return {
+    fileName,
+    otherFileName,
+    identical,
+    sheetsAdded,
+    sheetsRemoved,
+    sheets,
+    totalChanges: changes.length,
+    startIndex,
+    changes: changes.slice(startIndex, rowEnd),
+    sizing,
+    hasMore,
+    ...(hasMore ? { nextStartIndex: rowEnd } : {}),
+  };
+}
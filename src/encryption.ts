@@ -0,0 +1,440 @@
+import { createDecipheriv, createHash } from "node:crypto";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import * as CFB from "cfb";
+import type { EncryptionType } from "./types.js";
+import { isCompoundFile, xmlElements } from "./xlsx-package.js";
+
+// BIFF record types
+const BIFF_BOF = 0x0809;
+const BIFF_EOF = 0x000a;
+const BIFF_FILEPASS = 0x002f;
+const BIFF_BOUNDSHEET = 0x0085;
+
+// Records left in plain text after FILEPASS (MS-XLS 2.2.10)
+const UNENCRYPTED_RECORDS = new Set([BIFF_BOF, BIFF_FILEPASS, 0x0194, 0x0195, 0x00e1, 0x0196, 0x0138]);
+
+// RC4 is re-keyed for every 1024-byte block of the workbook stream
+const RC4_BLOCK_SIZE = 1024;
+// Agile encryption encrypts the package in 4096-byte segments
+const SEGMENT_SIZE = 4096;
+// Password Excel uses for files that only need one to be modified
+const DEFAULT_PASSWORD = "VelvetSweatshop";
+
+// Block keys of Agile password key derivation (MS-OFFCRYPTO 2.3.4.11)
+const VERIFIER_INPUT_BLOCK = Buffer.from([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79]);
+const VERIFIER_VALUE_BLOCK = Buffer.from([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e]);
+const KEY_VALUE_BLOCK = Buffer.from([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6]);
+
+// XOR obfuscation tables (MS-OFFCRYPTO 2.3.7.2)
+const XOR_PAD = [0xbb, 0xff, 0xff, 0xba, 0xff, 0xff, 0xb9, 0x80, 0x00, 0xbe, 0x0f, 0x00, 0xbf, 0x0f, 0x00];
+const XOR_INITIAL_CODE = [
+  0xe1f0, 0x1d0f, 0xcc9c, 0x84c0, 0x110c, 0x0e10, 0xf1ce, 0x313e, 0x1872, 0xe139, 0xd40f, 0x84f9, 0x280c, 0xa96a,
+  0x4ec3,
+];
+const XOR_MATRIX = [
+  0xaefc, 0x4dd9, 0x9bb2, 0x2745, 0x4e8a, 0x9d14, 0x2a09, 0x7b61, 0xf6c2, 0xfda5, 0xeb6b, 0xc6f7, 0x9dcf, 0x2bbf,
+  0x4563, 0x8ac6, 0x05ad, 0x0b5a, 0x16b4, 0x2d68, 0x5ad0, 0x0375, 0x06ea, 0x0dd4, 0x1ba8, 0x3750, 0x6ea0, 0xdd40,
+  0xd849, 0xa0b3, 0x5147, 0xa28e, 0x553d, 0xaa7a, 0x44d5, 0x6f45, 0xde8a, 0xad35, 0x4a4b, 0x9496, 0x390d, 0x721a,
+  0xeb23, 0xc667, 0x9cef, 0x29ff, 0x53fe, 0xa7fc, 0x5fd9, 0x47d3, 0x8fa6, 0x0f6d, 0x1eda, 0x3db4, 0x7b68, 0xf6d0,
+  0xb861, 0x60e3, 0xc1c6, 0x93ad, 0x377b, 0x6ef6, 0xddec, 0x45a0, 0x8b40, 0x06a1, 0x0d42, 0x1a84, 0x3508, 0x6a10,
+  0xaa51, 0x4483, 0x8906, 0x022d, 0x045a, 0x08b4, 0x1168, 0x76b4, 0xed68, 0xcaf1, 0x85c3, 0x1ba7, 0x374e, 0x6e9c,
+  0x3730, 0x6e60, 0xdcc0, 0xa9a1, 0x4363, 0x86c6, 0x1dad, 0x3331, 0x6662, 0xccc4, 0x89a9, 0x0373, 0x06e6, 0x0dcc,
+  0x1021, 0x2042, 0x4084, 0x8108, 0x1231, 0x2462, 0x48c4,
+];
+
+export type PasswordErrorReason = "PasswordRequired" | "WrongPassword";
+
+/**
+ * An encrypted workbook opened without its password or with the wrong one.
+ * The reason leads the message and is repeated in the error data, so clients
+ * can tell the two apart and ask the user for a password.
+ */
+export class PasswordError extends McpError {
+  readonly reason: PasswordErrorReason;
+
+  constructor(reason: PasswordErrorReason, fileName: string) {
+    super(
+      ErrorCode.InvalidRequest,
+      reason === "PasswordRequired"
+        ? `PasswordRequired: ${fileName} is encrypted; pass its password in the password argument`
+        : `WrongPassword: the password for ${fileName} is incorrect`,
+      { reason },
+    );
+    this.reason = reason;
+  }
+}
+
+export interface DecryptedWorkbook {
+  /** The plain workbook: a zip package, or an .xls compound file without its FILEPASS record */
+  buffer: Buffer;
+  encryption?: EncryptionType;
+}
+
+const hash = (algorithm: string, ...parts: Buffer[]): Buffer =>
+  createHash(algorithm).update(Buffer.concat(parts)).digest();
+
+const uint32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+
+// Truncate to `length`, or pad with 0x36 bytes as MS-OFFCRYPTO does for short hashes
+const fitTo = (buffer: Buffer, length: number): Buffer =>
+  buffer.length >= length
+    ? buffer.subarray(0, length)
+    : Buffer.concat([buffer, Buffer.alloc(length - buffer.length, 0x36)]);
+
+function aesDecrypt(mode: "cbc" | "ecb", key: Buffer, iv: Buffer | null, data: Buffer): Buffer {
+  const decipher = createDecipheriv(`aes-${key.length * 8}-${mode}`, key, iv);
+  decipher.setAutoPadding(false);
+  // Ciphertext is a whole number of blocks; anything after the last block is slack
+  const blocks = data.subarray(0, data.length - (data.length % 16));
+  return Buffer.concat([decipher.update(blocks), decipher.final()]);
+}
+
+/**
+ * RC4 keystream. Node's OpenSSL build no longer ships RC4, and the workbook
+ * streams it protects are small enough to run it in JavaScript.
+ */
+function rc4Keystream(key: Buffer, length: number): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = Buffer.alloc(length);
+  for (let n = 0, i = 0, j = 0; n < length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+interface EncryptionVerifier {
+  salt: Buffer;
+  encryptedVerifier: Buffer;
+  encryptedVerifierHash: Buffer;
+}
+
+/**
+ * EncryptionHeader and EncryptionVerifier (MS-OFFCRYPTO 2.3.2, 2.3.3) as used
+ * by Standard encryption and RC4 CryptoAPI. `offset` points at the header's
+ * Flags, after the version.
+ */
+function readCryptoApiHeader(data: Buffer, offset: number): EncryptionVerifier & { algId: number; keyBits: number } {
+  const headerSize = data.readUInt32LE(offset + 4);
+  const header = offset + 8;
+  const verifier = header + headerSize;
+  const saltSize = data.readUInt32LE(verifier);
+  const salt = data.subarray(verifier + 4, verifier + 4 + saltSize);
+  const encryptedVerifier = data.subarray(verifier + 4 + saltSize, verifier + 20 + saltSize);
+  return {
+    algId: data.readUInt32LE(header + 8),
+    keyBits: data.readUInt32LE(header + 16),
+    salt,
+    encryptedVerifier,
+    // Followed by VerifierHashSize; the encrypted hash runs to the end of the structure
+    encryptedVerifierHash: data.subarray(verifier + 24 + saltSize),
+  };
+}
+
+// ECMA-376 Agile encryption (MS-OFFCRYPTO 2.3.4.10-2.3.4.15)
+function decryptAgile(info: Buffer, payload: Buffer, password: string): Buffer | undefined {
+  const xml = info.subarray(8).toString("utf8");
+  const keyData = xmlElements(xml, "keyData")[0]?.attributes;
+  const encryptedKey = xmlElements(xml, "encryptedKey")[0]?.attributes;
+  if (!keyData || !encryptedKey) throw new Error("Unsupported encryption: no password key encryptor");
+  if (encryptedKey.cipherAlgorithm !== "AES" || keyData.cipherAlgorithm !== "AES") {
+    throw new Error(`Unsupported encryption: ${encryptedKey.cipherAlgorithm} cipher`);
+  }
+
+  const algorithm = encryptedKey.hashAlgorithm.toLowerCase();
+  const keyBytes = Number(encryptedKey.keyBits) / 8;
+  let passwordHash = hash(algorithm, Buffer.from(encryptedKey.saltValue, "base64"), Buffer.from(password, "utf16le"));
+  for (let i = 0; i < Number(encryptedKey.spinCount); i++) {
+    passwordHash = hash(algorithm, uint32(i), passwordHash);
+  }
+  const keyFor = (block: Buffer) => fitTo(hash(algorithm, passwordHash, block), keyBytes);
+  const decryptValue = (block: Buffer, attribute: string) =>
+    aesDecrypt(
+      "cbc",
+      keyFor(block),
+      fitTo(Buffer.from(encryptedKey.saltValue, "base64"), Number(encryptedKey.blockSize)),
+      Buffer.from(attribute, "base64"),
+    );
+
+  const verifierInput = decryptValue(VERIFIER_INPUT_BLOCK, encryptedKey.encryptedVerifierHashInput).subarray(
+    0,
+    Number(encryptedKey.saltSize),
+  );
+  const verifierHash = decryptValue(VERIFIER_VALUE_BLOCK, encryptedKey.encryptedVerifierHashValue).subarray(
+    0,
+    Number(encryptedKey.hashSize),
+  );
+  if (!hash(algorithm, verifierInput).equals(verifierHash)) return undefined;
+
+  const secretKey = decryptValue(KEY_VALUE_BLOCK, encryptedKey.encryptedKeyValue).subarray(
+    0,
+    Number(keyData.keyBits) / 8,
+  );
+  const keySalt = Buffer.from(keyData.saltValue, "base64");
+  const keyAlgorithm = keyData.hashAlgorithm.toLowerCase();
+  const size = Number(payload.readBigUInt64LE(0));
+  const segments: Buffer[] = [];
+  for (let offset = 8, i = 0; offset < payload.length; offset += SEGMENT_SIZE, i++) {
+    const iv = fitTo(hash(keyAlgorithm, keySalt, uint32(i)), Number(keyData.blockSize));
+    segments.push(aesDecrypt("cbc", secretKey, iv, payload.subarray(offset, offset + SEGMENT_SIZE)));
+  }
+  return Buffer.concat(segments).subarray(0, size);
+}
+
+// ECMA-376 Standard encryption: AES in ECB mode with a SHA-1 derived key (MS-OFFCRYPTO 2.3.4.5-2.3.4.9)
+function decryptStandard(info: Buffer, payload: Buffer, password: string): Buffer | undefined {
+  const { algId, keyBits, salt, encryptedVerifier, encryptedVerifierHash } = readCryptoApiHeader(info, 4);
+  // CALG_AES_128, CALG_AES_192 and CALG_AES_256
+  if (![0x660e, 0x660f, 0x6610].includes(algId)) {
+    throw new Error(`Unsupported encryption: algorithm 0x${algId.toString(16)}`);
+  }
+
+  let passwordHash = hash("sha1", salt, Buffer.from(password, "utf16le"));
+  for (let i = 0; i < 50000; i++) {
+    passwordHash = hash("sha1", uint32(i), passwordHash);
+  }
+  const final = hash("sha1", passwordHash, uint32(0));
+  const derive = (fill: number) => {
+    const buffer = Buffer.alloc(64, fill);
+    for (let i = 0; i < final.length; i++) buffer[i] ^= final[i];
+    return hash("sha1", buffer);
+  };
+  const key = Buffer.concat([derive(0x36), derive(0x5c)]).subarray(0, keyBits / 8);
+
+  const verifier = aesDecrypt("ecb", key, null, encryptedVerifier);
+  const verifierHash = aesDecrypt("ecb", key, null, encryptedVerifierHash).subarray(0, 20);
+  if (!hash("sha1", verifier).equals(verifierHash)) return undefined;
+
+  const size = Number(payload.readBigUInt64LE(0));
+  return aesDecrypt("ecb", key, null, payload.subarray(8)).subarray(0, size);
+}
+
+// Password verifier and XOR array of XOR obfuscation method 1 (MS-OFFCRYPTO 2.3.7.1-2.3.7.2)
+function xorPasswordVerifier(password: Buffer): number {
+  let verifier = 0;
+  for (const byte of [password.length, ...password].reverse()) {
+    verifier = ((verifier & 0x4000 ? 1 : 0) | ((verifier << 1) & 0x7fff)) ^ byte;
+  }
+  return verifier ^ 0xce4b;
+}
+
+function xorArray(password: Buffer): Buffer {
+  let key = XOR_INITIAL_CODE[password.length - 1];
+  let element = 0x68;
+  for (let i = password.length - 1; i >= 0; i--) {
+    let char = password[i];
+    for (let bit = 0; bit < 7; bit++, char <<= 1, element--) {
+      if (char & 0x40) key ^= XOR_MATRIX[element];
+    }
+  }
+
+  const ror = (byte: number) => ((byte >> 1) | (byte << 7)) & 0xff;
+  const high = key >> 8;
+  const low = key & 0xff;
+  const array = Buffer.alloc(16);
+  let index = password.length;
+  if (index % 2 === 1) {
+    array[index] = ror(XOR_PAD[0] ^ high);
+    index--;
+    array[index] = ror(password[password.length - 1] ^ low);
+  }
+  while (index > 0) {
+    index--;
+    array[index] = ror(password[index] ^ high);
+    index--;
+    array[index] = ror(password[index] ^ low);
+  }
+  for (let i = 15, pad = 15 - password.length; pad > 0; i -= 2, pad -= 2) {
+    array[i] = ror(XOR_PAD[pad] ^ high);
+    array[i - 1] = ror(XOR_PAD[pad - 1] ^ low);
+  }
+  return array;
+}
+
+interface RawRecord {
+  type: number;
+  /** Stream offset of the record data, after its 4-byte header */
+  offset: number;
+  size: number;
+}
+
+// Records of a BIFF stream as they lie in it, CONTINUE records included
+function rawRecords(stream: Buffer): RawRecord[] {
+  const records: RawRecord[] = [];
+  for (let pos = 0; pos + 4 <= stream.length; ) {
+    const size = stream.readUInt16LE(pos + 2);
+    records.push({ type: stream.readUInt16LE(pos), offset: pos + 4, size });
+    pos += 4 + size;
+  }
+  return records;
+}
+
+/**
+ * How the bytes of a protected workbook stream are decrypted: `decrypt`
+ * takes a byte, its stream offset and the size of the record holding it.
+ * Returns undefined when the password does not match.
+ */
+function xlsDecrypter(
+  filePass: Buffer,
+  biff8: boolean,
+  password: string,
+  streamLength: number,
+): { encryption: EncryptionType; decrypt?: (byte: number, offset: number, recordSize: number) => number } {
+  // BIFF5 only knows XOR obfuscation and has no encryption type field
+  const type = biff8 ? filePass.readUInt16LE(0) : 0;
+  if (type === 0) {
+    const verification = filePass.readUInt16LE(biff8 ? 4 : 2);
+    const bytes = Buffer.from(password.slice(0, 15), "latin1");
+    if (bytes.length === 0 || xorPasswordVerifier(bytes) !== verification) return { encryption: "xor" };
+    const array = xorArray(bytes);
+    // The XOR array index runs from the record's stream offset plus its size
+    return {
+      encryption: "xor",
+      decrypt: (byte, offset, recordSize) => {
+        const value = byte ^ array[(offset + recordSize) & 0x0f];
+        return ((value >> 5) | (value << 3)) & 0xff;
+      },
+    };
+  }
+
+  const major = filePass.readUInt16LE(2);
+  let encryption: EncryptionType;
+  let blockKey: (block: number) => Buffer;
+  let verifier: EncryptionVerifier;
+  let verifierHash: string;
+  if (major === 1) {
+    // RC4 with an MD5 derived 40-bit key (MS-OFFCRYPTO 2.3.6)
+    encryption = "rc4";
+    verifier = {
+      salt: filePass.subarray(6, 22),
+      encryptedVerifier: filePass.subarray(22, 38),
+      encryptedVerifierHash: filePass.subarray(38, 54),
+    };
+    verifierHash = "md5";
+    const truncated = hash("md5", Buffer.from(password, "utf16le")).subarray(0, 5);
+    const intermediate = hash(
+      "md5",
+      ...Array.from({ length: 16 }, () => Buffer.concat([truncated, verifier.salt])),
+    ).subarray(0, 5);
+    blockKey = (block) => hash("md5", intermediate, uint32(block));
+  } else {
+    // RC4 CryptoAPI with a SHA-1 derived key (MS-OFFCRYPTO 2.3.5)
+    encryption = "rc4CryptoApi";
+    const header = readCryptoApiHeader(filePass, 6);
+    verifier = header;
+    verifierHash = "sha1";
+    const keyBits = header.keyBits || 40;
+    const base = hash("sha1", header.salt, Buffer.from(password, "utf16le"));
+    blockKey = (block) => {
+      const key = hash("sha1", base, uint32(block));
+      // 40-bit keys are padded with zeros to 128 bits
+      return keyBits === 40 ? Buffer.concat([key.subarray(0, 5), Buffer.alloc(11)]) : key.subarray(0, keyBits / 8);
+    };
+  }
+
+  const encrypted = Buffer.concat([verifier.encryptedVerifier, verifier.encryptedVerifierHash]);
+  const check = rc4Keystream(blockKey(0), encrypted.length);
+  const plain = Buffer.from(encrypted.map((byte, i) => byte ^ check[i]));
+  const digest = hash(verifierHash, plain.subarray(0, 16));
+  if (!digest.equals(plain.subarray(16, 16 + digest.length))) return { encryption };
+
+  const keystream = Buffer.alloc(streamLength);
+  for (let block = 0; block * RC4_BLOCK_SIZE < streamLength; block++) {
+    keystream.set(
+      rc4Keystream(blockKey(block), Math.min(RC4_BLOCK_SIZE, streamLength - block * RC4_BLOCK_SIZE)),
+      block * RC4_BLOCK_SIZE,
+    );
+  }
+  return { encryption, decrypt: (byte, offset) => byte ^ keystream[offset] };
+}
+
+/**
+ * Decrypt the workbook stream of a password-protected .xls. Record headers,
+ * the records MS-XLS leaves in plain text and the sheet offsets in BOUNDSHEET
+ * stay as they are; the FILEPASS record is dropped and the sheet offsets
+ * after it moved up, so the result reads as an unprotected workbook.
+ */
+function decryptXls(
+  stream: Buffer,
+  password: string | undefined,
+  fileName: string,
+): { stream: Buffer; encryption: EncryptionType } | undefined {
+  const records = rawRecords(stream);
+  const globalsEnd = records.findIndex((record) => record.type === BIFF_EOF);
+  const filePassIndex = records
+    .slice(0, globalsEnd === -1 ? undefined : globalsEnd)
+    .findIndex((record) => record.type === BIFF_FILEPASS);
+  if (filePassIndex === -1) return undefined;
+
+  const filePass = records[filePassIndex];
+  const filePassData = stream.subarray(filePass.offset, filePass.offset + filePass.size);
+  const biff8 = records[0]?.type === BIFF_BOF && stream.readUInt16LE(records[0].offset) >= 0x0600;
+  const { encryption, decrypt } = xlsDecrypter(filePassData, biff8, password ?? DEFAULT_PASSWORD, stream.length);
+  if (!decrypt) throw new PasswordError(password === undefined ? "PasswordRequired" : "WrongPassword", fileName);
+
+  const plain = Buffer.from(stream);
+  for (const record of records.slice(filePassIndex + 1)) {
+    if (UNENCRYPTED_RECORDS.has(record.type)) continue;
+    const start = record.offset + (record.type === BIFF_BOUNDSHEET ? 4 : 0);
+    for (let offset = start; offset < record.offset + record.size; offset++) {
+      plain[offset] = decrypt(plain[offset], offset, record.size);
+    }
+  }
+
+  const removed = 4 + filePass.size;
+  const filePassStart = filePass.offset - 4;
+  const result = Buffer.concat([plain.subarray(0, filePassStart), plain.subarray(filePassStart + removed)]);
+  for (const record of records) {
+    if (record.type !== BIFF_BOUNDSHEET) continue;
+    const at = record.offset > filePassStart ? record.offset - removed : record.offset;
+    const sheetOffset = result.readUInt32LE(at);
+    if (sheetOffset > filePassStart) result.writeUInt32LE(sheetOffset - removed, at);
+  }
+  return { stream: result, encryption };
+}
+
+/**
+ * Open a workbook file's bytes, decrypting them when the file is password
+ * protected: ECMA-376 Agile and Standard encryption of Open XML packages, and
+ * RC4, RC4 CryptoAPI and XOR protection of .xls workbooks. Files Excel
+ * protected with its default password open without one. Unprotected files
+ * come back unchanged.
+ */
+export function decryptWorkbook(buffer: Buffer, password: string | undefined, fileName: string): DecryptedWorkbook {
+  if (!isCompoundFile(buffer)) return { buffer };
+  const cfb = CFB.read(buffer, { type: "buffer" });
+  const content = (name: string): Buffer | undefined => {
+    const entry = CFB.find(cfb, name);
+    return entry?.content ? Buffer.from(entry.content) : undefined;
+  };
+
+  const info = content("/EncryptionInfo");
+  const payload = content("/EncryptedPackage");
+  if (info && payload) {
+    const agile = info.readUInt16LE(0) === 4 && info.readUInt16LE(2) === 4;
+    if (!agile && info.readUInt16LE(2) !== 2) {
+      throw new Error("Unsupported encryption: ECMA-376 Extensible encryption");
+    }
+    const decrypt = agile ? decryptAgile : decryptStandard;
+    const plain = decrypt(info, payload, password ?? DEFAULT_PASSWORD);
+    if (!plain) throw new PasswordError(password === undefined ? "PasswordRequired" : "WrongPassword", fileName);
+    return { buffer: plain, encryption: agile ? "agile" : "standard" };
+  }
+
+  const entry = CFB.find(cfb, "/Workbook") ?? CFB.find(cfb, "/Book");
+  const decrypted = entry?.content ? decryptXls(Buffer.from(entry.content), password, fileName) : undefined;
+  if (!entry || !decrypted) return { buffer };
+  entry.content = decrypted.stream;
+  entry.size = decrypted.stream.length;
+  return { buffer: Buffer.from(CFB.write(cfb, { type: "buffer" }) as Buffer), encryption: decrypted.encryption };
+}
@@ -1,57 +1,357 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync } from "node:fs";
 import * as XLSX from "xlsx";
-import type { ExcelData, ListSheetsArgs, ReadExcelArgs } from "./types.js";
+import { encodeBlock, resolveSheetBlock, splitSheetReference } from "./cell-range.js";
+import { planChunk, serializeJsonRow } from "./chunking.js";
+import { commentAt } from "./comments.js";
+import { resolveNamedRange } from "./defined-names.js";
+import { formulaAt } from "./formulas.js";
+import { buildHeaderNames, detectHeaderRows } from "./headers.js";
+import { hyperlinkAt } from "./hyperlinks.js";
+import { fillMergedCells, mergesIn } from "./merges.js";
+import { formatHeader, rowSerializer } from "./output-format.js";
+import { filterRows, projectRows, resolveColumn } from "./row-filter.js";
+import { packageSheetObjects } from "./sheet-objects.js";
+import type {
+  ExcelData,
+  HeaderMode,
+  ListSheetsArgs,
+  ReadExcelArgs,
+  SheetSelectionArgs,
+  SheetType,
+  SheetVisibility,
+} from "./types.js";
+import { firstVisibleSheet, isColumnHidden, isRowFiltered, isRowHidden, sheetVisibility } from "./visibility.js";
+import { type CachedWorkbook, cachedRows, loadWorkbook } from "./workbook-cache.js";
 
-const MAX_RESPONSE_SIZE = 100 * 1024; // 100KB default max response size
+export const rowNumber = (row: Record<string, unknown>): number => (row as { __rowNum__: number }).__rowNum__;
 
-export const estimateJsonSize = (obj: unknown): number => {
-  const str = JSON.stringify(obj);
-  return str.length * 2; // Rough estimate, multiply by 2 for unicode
-};
+/**
+ * Extra details to attach to a cell's value, or undefined to leave it as is.
+ */
+type CellDecorator = (r: number, c: number) => Record<string, unknown> | undefined;
 
-export const calculateChunkSize = (data: Record<string, unknown>[], maxSize: number): number => {
-  const singleRowSize = estimateJsonSize(data[0]);
-  return Math.max(1, Math.floor(maxSize / singleRowSize));
-};
+/**
+ * Replace values of decorated cells with `{ value, ...details }` objects,
+ * leaving other cells as plain values.
+ */
+function decorateRow(
+  row: Record<string, unknown>,
+  columnIndex: Map<string, number>,
+  decorators: CellDecorator[],
+): Record<string, unknown> {
+  const r = rowNumber(row);
+  const decorated: Record<string, unknown> = {};
+  Object.defineProperty(decorated, "__rowNum__", { value: r });
+  for (const [column, value] of Object.entries(row)) {
+    const c = columnIndex.get(column);
+    let details: Record<string, unknown> | undefined;
+    if (c !== undefined) {
+      for (const decorator of decorators) {
+        const extra = decorator(r, c);
+        if (extra) details = { ...details, ...extra };
+      }
+    }
+    decorated[column] = details ? { value, ...details } : value;
+  }
+  return decorated;
+}
+
+/**
+ * The displayed text and number format of a non-text cell, as Excel shows it.
+ */
+function displayOf(worksheet: XLSX.WorkSheet, r: number, c: number): Record<string, unknown> | undefined {
+  const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+  if (!cell || cell.t === "s" || cell.t === "z") return undefined;
+  const format = typeof cell.z === "string" ? cell.z : cell.z !== undefined ? XLSX.SSF.get_table()[cell.z] : undefined;
+  return { text: XLSX.utils.format_cell(cell), ...(format ? { format } : {}) };
+}
+
+interface SheetRows {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  headerRange?: string;
+}
+
+interface SheetRowsOptions {
+  header: HeaderMode;
+  /** Names for the columns when header is "none"; letters stand in for missing ones */
+  columnNames?: string[];
+  headerRow?: number;
+  headerRows?: number;
+  /** Return display text (the cell's formatted value) instead of raw values */
+  formatted: boolean;
+  /** Copy each merged region's value into every cell it covers */
+  fillMerged: boolean;
+}
+
+/**
+ * Convert a block of the worksheet to row objects, locating the header rows
+ * according to the requested header mode.
+ */
+function readSheetRows(sheet: XLSX.WorkSheet, block: XLSX.Range, options: SheetRowsOptions): SheetRows {
+  const { header, columnNames = [], headerRow, headerRows, formatted, fillMerged } = options;
+  const worksheet = fillMerged ? fillMergedCells(sheet) : sheet;
+  if (header === "none") {
+    const columns: string[] = [];
+    for (let c = block.s.c; c <= block.e.c; c++) {
+      columns.push(columnNames[c - block.s.c] || XLSX.utils.encode_col(c));
+    }
+    const rows = XLSX.utils.sheet_to_json(worksheet, {
+      header: columns,
+      raw: !formatted,
+      dateNF: "yyyy-mm-dd",
+      range: block,
+    }) as Record<string, unknown>[];
+    return { columns, rows };
+  }
+
+  let start = block.s.r;
+  let count = headerRows ?? 1;
+  if (headerRow !== undefined) {
+    start = headerRow - 1;
+    if (start < block.s.r || start > block.e.r) {
+      throw new Error(`headerRow ${headerRow} is outside the range being read (${XLSX.utils.encode_range(block)})`);
+    }
+  } else if (header === "auto") {
+    const detected = detectHeaderRows(worksheet, block);
+    start = detected.start;
+    count = headerRows ?? detected.count;
+  }
+  count = Math.max(1, Math.min(count, block.e.r - start + 1));
 
-export function readExcelFile(args: ReadExcelArgs): ExcelData {
-  const { filePath, sheetName, startRow = 0, maxRows } = args;
+  const columns = buildHeaderNames(worksheet, block, start, count);
+  const dataStart = start + count;
+  const rows =
+    dataStart <= block.e.r
+      ? (XLSX.utils.sheet_to_json(worksheet, {
+          header: columns,
+          raw: !formatted,
+          dateNF: "yyyy-mm-dd",
+          range: { s: { r: dataStart, c: block.s.c }, e: block.e },
+        }) as Record<string, unknown>[])
+      : [];
+  return { columns, rows, headerRange: encodeBlock(block, start, start + count - 1) };
+}
+
+export interface SheetSelection extends SheetRows {
+  cached: CachedWorkbook;
+  sheetName: string;
+  worksheet: XLSX.WorkSheet;
+  /** The block rows were read from; null for an empty sheet */
+  block: XLSX.Range | null;
+  /** Defined name the block was resolved from */
+  namedRange?: string;
+}
+
+/** Options the tools set for a selection, beyond what callers can ask for */
+export interface SheetSelectionOptions {
+  /** Names to key the columns by with header "none", such as an Excel table's; letters fill any gaps */
+  columnNames?: string[];
+}
+
+/**
+ * Resolve the sheet and block a call addresses (sheetName, range or
+ * namedRange) and materialize its rows under the requested header options.
+ * This is read_excel's parsing path, shared by the tools that work on whole
+ * sheets rather than chunks.
+ */
+export function selectSheetRows(args: SheetSelectionArgs, options: SheetSelectionOptions = {}): SheetSelection {
+  const {
+    filePath,
+    password,
+    sheetName,
+    range,
+    header = "first",
+    headerRow,
+    headerRows,
+    valueMode,
+    fillMerged = false,
+    namedRange,
+  } = args;
   if (!existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`);
   }
 
-  const data = readFileSync(filePath);
-  const workbook = XLSX.read(data, {
-    type: "buffer",
-    cellDates: true,
-    cellNF: false,
-    cellText: false,
-    dateNF: "yyyy-mm-dd",
-  });
+  if (header === "none" && headerRow !== undefined) {
+    throw new Error('headerRow cannot be combined with header: "none"');
+  }
+
+  if (namedRange && range) {
+    throw new Error("namedRange cannot be combined with range");
+  }
+
+  const cached = loadWorkbook(filePath, password);
+  const { workbook } = cached;
+
+  // A name scoped to sheetName takes precedence; the block is read from whichever sheet the name points to
+  const name = namedRange ? resolveNamedRange(workbook, namedRange, sheetName) : undefined;
+  const {
+    sheetName: selectedSheetName,
+    worksheet,
+    block,
+  } = name ? resolveSheetBlock(workbook, name.sheet, name.range) : resolveSheetBlock(workbook, sheetName, range);
+  const rowsOptions: SheetRowsOptions = {
+    header,
+    columnNames: options.columnNames,
+    headerRow,
+    headerRows,
+    formatted: valueMode === "formatted",
+    fillMerged,
+  };
+  const sheetRows: SheetRows = block
+    ? cachedRows(cached, JSON.stringify([selectedSheetName, XLSX.utils.encode_range(block), rowsOptions]), () =>
+        readSheetRows(worksheet, block, rowsOptions),
+      )
+    : { columns: [], rows: [] };
+
+  return {
+    ...sheetRows,
+    cached,
+    sheetName: selectedSheetName,
+    worksheet,
+    block,
+    ...(name ? { namedRange: name.name } : {}),
+  };
+}
+
+export function readExcelFile(args: ReadExcelArgs, options: SheetSelectionOptions = {}): ExcelData {
+  const {
+    filePath,
+    range,
+    columns: selectedColumns,
+    where,
+    startRow = 0,
+    maxRows,
+    maxBytes,
+    maxTokens,
+    outputFormat = "json",
+    includeFormulas = false,
+    valueMode = "raw",
+    includeHyperlinks = false,
+    includeComments = false,
+    skipHidden = false,
+  } = args;
+
+  // With skipHidden and no sheet named, read the first sheet a user would see
+  const sheetName =
+    args.sheetName ??
+    (skipHidden && !args.namedRange && !(range && splitSheetReference(range).sheet) && existsSync(filePath)
+      ? firstVisibleSheet(loadWorkbook(filePath, args.password).workbook)
+      : undefined);
+  const sheetRows = selectSheetRows({ ...args, sheetName }, options);
+  const { cached, sheetName: selectedSheetName, worksheet, block, namedRange } = sheetRows;
+  const { workbook } = cached;
   const fileName = filePath.split(/[\\/]/).pop() || "";
-  const selectedSheetName = sheetName || workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[selectedSheetName];
-  const allData = XLSX.utils.sheet_to_json(worksheet, {
-    raw: true,
-    dateNF: "yyyy-mm-dd",
-  }) as Record<string, unknown>[];
+  const { headerRange } = sheetRows;
+  const blockMerges = block ? mergesIn(worksheet, block) : [];
+
+  let allData = sheetRows.rows;
+  let columns = sheetRows.columns;
+  const firstCol = block?.s.c ?? 0;
+  const hiddenColumns = sheetRows.columns.filter((_, i) => isColumnHidden(worksheet, firstCol + i));
+  if (skipHidden) {
+    allData = allData.filter((row) => !isRowHidden(worksheet, rowNumber(row)));
+  }
+  const skippedRows = sheetRows.rows.length - allData.length;
+
+  // Filter before projecting so conditions can test columns that are not returned
+  if (block && where && where.length > 0) {
+    allData = filterRows(allData, where, sheetRows.columns, block.s.c);
+  }
+  if (block && selectedColumns && selectedColumns.length > 0) {
+    columns = selectedColumns.map((column) => resolveColumn(column, sheetRows.columns, block.s.c));
+    allData = projectRows(allData, columns);
+  } else if (skipHidden && hiddenColumns.length > 0) {
+    // Columns asked for by name are returned even when hidden
+    columns = columns.filter((column) => !hiddenColumns.includes(column));
+    allData = projectRows(allData, columns);
+  }
+  const skippedColumns = sheetRows.columns.filter(
+    (column) => hiddenColumns.includes(column) && !columns.includes(column),
+  );
+  const hiddenReturned = columns.filter((column) => hiddenColumns.includes(column));
+  const visibility = sheetVisibility(workbook, selectedSheetName);
 
   const totalRows = allData.length;
-  const columns = totalRows > 0 ? Object.keys(allData[0] as object) : [];
   const totalColumns = columns.length;
 
-  let effectiveMaxRows = maxRows;
-  if (!effectiveMaxRows) {
-    const initialChunk = allData.slice(0, 100);
-    if (initialChunk.length > 0) {
-      effectiveMaxRows = calculateChunkSize(initialChunk, MAX_RESPONSE_SIZE);
-    } else {
-      effectiveMaxRows = 100;
-    }
+  const decorators: CellDecorator[] = [];
+  if (includeFormulas) {
+    decorators.push((r, c) => formulaAt(worksheet, r, c));
+  }
+  if (valueMode === "both") {
+    decorators.push((r, c) => displayOf(worksheet, r, c));
+  }
+  if (includeHyperlinks) {
+    decorators.push((r, c) => {
+      const hyperlink = hyperlinkAt(worksheet, r, c);
+      return hyperlink ? { hyperlink } : undefined;
+    });
+  }
+  if (includeComments) {
+    decorators.push((r, c) => {
+      const comment = commentAt(worksheet, r, c);
+      return comment ? { comment } : undefined;
+    });
   }
+  const columnIndex = new Map(sheetRows.columns.map((column, i) => [column, (block?.s.c ?? 0) + i]));
+  const decorate =
+    decorators.length > 0
+      ? (row: Record<string, unknown>) => decorateRow(row, columnIndex, decorators)
+      : (row: Record<string, unknown>) => row;
+
+  // A chunk lists the merges overlapping its rows, the first chunk also those
+  // in the header. Each is charged to the first row of the chunk that reaches
+  // it: on a later chunk's first row, the merges still open there; otherwise
+  // those starting since the previous row.
+  let nextMerge = 0;
+  const mergesReached = (r: number, first: boolean): string => {
+    const reached: string[] = [];
+    for (; nextMerge < blockMerges.length && blockMerges[nextMerge].s.r <= r; nextMerge++) {
+      const merge = blockMerges[nextMerge];
+      if (!first || startRow === 0 || merge.e.r >= r) reached.push(XLSX.utils.encode_range(merge));
+    }
+    // Merges sit three levels deep in the pretty-printed response
+    return reached.map((merge) => `      "${merge}",\n`).join("");
+  };
+
+  // Size against the decorated rows, since that is what gets serialized
+  const envelope =
+    JSON.stringify({ columns, nextChunk: { columns }, hiddenColumns: hiddenReturned, skippedColumns }) +
+    formatHeader(outputFormat, columns);
+  const serialize = rowSerializer(outputFormat, columns) ?? serializeJsonRow;
+  const { rowEnd: endRow, sizing } = planChunk(
+    allData,
+    startRow,
+    { maxRows, maxBytes, maxTokens },
+    envelope,
+    (row) => serialize(decorate(row)) + mergesReached(rowNumber(row), row === allData[startRow]),
+  );
+  const chunkData = allData.slice(startRow, endRow).map(decorate);
 
-  const endRow = Math.min(startRow + effectiveMaxRows, totalRows);
-  const chunkData = allData.slice(startRow, endRow);
+  // sheet_to_json tags each row with its 0-based sheet row, which survives skipped blank rows
+  const cellRange =
+    block && chunkData.length > 0
+      ? encodeBlock(block, rowNumber(chunkData[0]), rowNumber(chunkData[chunkData.length - 1]))
+      : undefined;
+  const merges =
+    block && chunkData.length > 0
+      ? blockMerges
+          .filter(
+            (m) =>
+              m.s.r <= rowNumber(chunkData[chunkData.length - 1]) &&
+              m.e.r >= (startRow === 0 ? block.s.r : rowNumber(chunkData[0])),
+          )
+          .map((m) => XLSX.utils.encode_range(m))
+      : [];
+  const hiddenRows = chunkData
+    .map(rowNumber)
+    .filter((r) => isRowHidden(worksheet, r) && !isRowFiltered(worksheet, r))
+    .map((r) => r + 1);
+  const filteredRows = chunkData
+    .map(rowNumber)
+    .filter((r) => isRowFiltered(worksheet, r))
+    .map((r) => r + 1);
 
   const hasMore = endRow < totalRows;
   const nextChunk = hasMore
@@ -68,11 +368,23 @@ export function readExcelFile(args: ReadExcelArgs): ExcelData {
       name: selectedSheetName,
       totalRows,
       totalColumns,
+      ...((range || namedRange) && block ? { range: XLSX.utils.encode_range(block) } : {}),
+      ...(namedRange ? { namedRange } : {}),
+      ...(headerRange ? { headerRange } : {}),
+      ...(merges.length > 0 ? { merges } : {}),
+      ...(visibility !== "visible" ? { visibility } : {}),
+      ...(hiddenReturned.length > 0 ? { hiddenColumns: hiddenReturned } : {}),
+      ...(skipHidden ? { skippedRows, skippedColumns } : {}),
       chunk: {
         rowStart: startRow,
         rowEnd: endRow,
         columns,
+        ...(cellRange ? { cellRange } : {}),
         data: chunkData,
+        ...(outputFormat !== "json" ? { outputFormat } : {}),
+        ...(hiddenRows.length > 0 ? { hiddenRows } : {}),
+        ...(filteredRows.length > 0 ? { filteredRows } : {}),
+        sizing,
       },
       hasMore,
       nextChunk,
@@ -80,22 +392,107 @@ export function readExcelFile(args: ReadExcelArgs): ExcelData {
   };
 }
 
+export interface SheetInfo {
+  name: string;
+  visibility: SheetVisibility;
+  type: SheetType;
+  /** A1 range of the cells in use; absent for sheets without cells */
+  usedRange?: string;
+  rowCount: number;
+  columnCount: number;
+  /** Text of the first row of the used range, capped at HEADER_PREVIEW_COLUMNS cells */
+  headerPreview: string[];
+  /** Number of merged regions on the sheet */
+  mergeCount: number;
+  formulaCount: number;
+  /** Cells with a note or comment thread */
+  commentCount: number;
+  /** Excel tables, pictures and charts; only counted in .xlsx packages */
+  tableCount: number;
+  imageCount: number;
+  chartCount: number;
+}
+
 export interface ListSheetsResult {
   fileName: string;
   sheets: string[];
+  sheetInfo: SheetInfo[];
+}
+
+const HEADER_PREVIEW_COLUMNS = 20;
+
+const SHEETJS_TYPES: Record<string, SheetType> = { chart: "chartsheet", macro: "macroSheet", dialog: "dialogSheet" };
+
+// SheetJS only tags .xls sheet types; in a package the part's folder tells
+function sheetType(worksheet: XLSX.WorkSheet | undefined, partPath: string | undefined): SheetType {
+  const tagged = SHEETJS_TYPES[String(worksheet?.["!type"])];
+  if (tagged) return tagged;
+  if (partPath?.includes("/chartsheets/")) return "chartsheet";
+  if (partPath?.includes("/macrosheets/")) return "macroSheet";
+  if (partPath?.includes("/dialogsheets/")) return "dialogSheet";
+  return "worksheet";
+}
+
+/**
+ * Size and contents of a sheet, from its cell map alone so that listing a
+ * workbook never materializes rows.
+ */
+function summarizeSheet(worksheet: XLSX.WorkSheet | undefined) {
+  const usedRange = worksheet?.["!ref"];
+  const range = usedRange ? XLSX.utils.decode_range(usedRange) : undefined;
+  const headerPreview: string[] = [];
+  if (worksheet && range) {
+    for (let c = range.s.c; c <= Math.min(range.e.c, range.s.c + HEADER_PREVIEW_COLUMNS - 1); c++) {
+      const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+      headerPreview.push(cell && cell.t !== "z" ? (cell.w ?? String(cell.v ?? "")) : "");
+    }
+    while (headerPreview.length > 0 && headerPreview[headerPreview.length - 1] === "") headerPreview.pop();
+  }
+
+  let formulaCount = 0;
+  let commentCount = 0;
+  for (const address of Object.keys(worksheet ?? {})) {
+    if (address.startsWith("!")) continue;
+    const cell: XLSX.CellObject = worksheet?.[address];
+    if (cell.f) formulaCount++;
+    if (cell.c && cell.c.length > 0) commentCount++;
+  }
+
+  return {
+    ...(usedRange ? { usedRange } : {}),
+    rowCount: range ? range.e.r - range.s.r + 1 : 0,
+    columnCount: range ? range.e.c - range.s.c + 1 : 0,
+    headerPreview,
+    mergeCount: (worksheet?.["!merges"] || []).length,
+    formulaCount,
+    commentCount,
+  };
 }
 
-export function listSheets(args: ListSheetsArgs): ListSheetsResult {
-  const { filePath } = args;
+export async function listSheets(args: ListSheetsArgs): Promise<ListSheetsResult> {
+  const { filePath, password } = args;
   if (!existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`);
   }
 
-  const data = readFileSync(filePath);
-  const workbook = XLSX.read(data, { type: "buffer" });
+  const { buffer, workbook } = loadWorkbook(filePath, password);
   const fileName = filePath.split(/[\\/]/).pop() || "";
+  const objects = await packageSheetObjects(buffer);
   return {
     fileName,
     sheets: workbook.SheetNames,
+    sheetInfo: workbook.SheetNames.map((name) => {
+      const worksheet: XLSX.WorkSheet | undefined = workbook.Sheets[name];
+      const parts = objects.get(name);
+      return {
+        name,
+        visibility: sheetVisibility(workbook, name),
+        type: sheetType(worksheet, parts?.path),
+        ...summarizeSheet(worksheet),
+        tableCount: parts?.tables ?? 0,
+        imageCount: parts?.images ?? 0,
+        chartCount: parts?.charts ?? 0,
+      };
+    }),
   };
 }
@@ -0,0 +1,425 @@
+import { existsSync, writeFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import type { HeaderStyle, WriteExcelArgs, WriteExcelResult, WriteSheet, WrittenSheet } from "./types.js";
+import { encodeXml } from "./xlsx-package.js";
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml";
+
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+const MAX_CELL_TEXT = 32767;
+const MAX_SHEET_NAME = 31;
+const INVALID_SHEET_NAME = /[\\/?*:[\]]/;
+
+// Number formats for ISO date strings in columns without one of their own
+const DATE_FORMAT = "yyyy-mm-dd";
+const DATE_TIME_FORMAT = "yyyy-mm-dd hh:mm:ss";
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(?:Z|[+-]\d{2}:?\d{2})?$/;
+// Custom number formats are numbered from 164; lower ids are Excel's built-in formats
+const FIRST_CUSTOM_FORMAT = 164;
+
+const MIN_AUTO_WIDTH = 8;
+const MAX_AUTO_WIDTH = 60;
+
+type Cell =
+  | { type: "n"; value: number; dateFormat?: string }
+  | { type: "s"; value: string }
+  | { type: "b"; value: boolean };
+
+interface SheetTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+/**
+ * Excel serial of an ISO 8601 date or date-time, read as written (any zone
+ * suffix is ignored, since cells have no time zone). Dates before March 1900
+ * step over the leap day Excel wrongly counts in 1900; earlier years have no
+ * serial and stay text.
+ */
+function isoDateSerial(text: string): { serial: number; hasTime: boolean } | undefined {
+  const match = ISO_DATE.exec(text);
+  if (!match) return undefined;
+  const [, year, month, day, hour = "0", minute = "0", second = "0", fraction = "0"] = match;
+  const ms = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, Math.round(Number(`0.${fraction}`) * 1000));
+  const date = new Date(ms);
+  if (date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day) return undefined;
+  let serial = ms / 86400000 + 25569;
+  if (serial < 61) serial -= 1;
+  if (serial < 1) return undefined;
+  return { serial, hasTime: ms % 86400000 !== 0 };
+}
+
+function toCell(value: unknown): Cell | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (typeof value === "number") return Number.isFinite(value) ? { type: "n", value } : undefined;
+  if (typeof value === "boolean") return { type: "b", value };
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const date = isoDateSerial(text);
+  if (date) return { type: "n", value: date.serial, dateFormat: date.hasTime ? DATE_TIME_FORMAT : DATE_FORMAT };
+  return { type: "s", value: text };
+}
+
+/**
+ * Header and data rows of a sheet. Object rows are laid out by `columns`, or
+ * by their keys in the order first seen; array rows are positional, with the
+ * first one taken as the header when `columns` is not given.
+ */
+function sheetTable(sheet: WriteSheet): SheetTable {
+  let columns = sheet.columns;
+  let rows = sheet.rows;
+  if (!columns && Array.isArray(rows[0])) {
+    columns = rows[0].map((name) => (name === null || name === undefined ? "" : String(name)));
+    rows = rows.slice(1);
+  }
+  if (!columns) {
+    const keys = new Set<string>();
+    for (const row of rows) if (!Array.isArray(row)) for (const key of Object.keys(row)) keys.add(key);
+    columns = [...keys];
+  }
+
+  const header = columns;
+  const table = rows.map((row, i) => {
+    if (!Array.isArray(row)) return header.map((column) => row[column]);
+    if (row.length > header.length) {
+      throw new Error(
+        `Row ${i + 1} of sheet "${sheet.name}" has ${row.length} values but there are only ${header.length} columns`,
+      );
+    }
+    return row;
+  });
+  if (header.length > MAX_COLUMNS) throw new Error(`Sheet "${sheet.name}" has more than ${MAX_COLUMNS} columns`);
+  if (table.length + 1 > MAX_ROWS) throw new Error(`Sheet "${sheet.name}" has more than ${MAX_ROWS - 1} data rows`);
+  return { columns: header, rows: table };
+}
+
+const tableRange = (table: SheetTable): string =>
+  XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: table.rows.length, c: Math.max(table.columns.length - 1, 0) } });
+
+function validateSheetNames(sheets: WriteSheet[]): void {
+  if (sheets.length === 0) throw new Error("At least one sheet is required");
+  const seen = new Set<string>();
+  for (const { name } of sheets) {
+    if (!name || name.length > MAX_SHEET_NAME || INVALID_SHEET_NAME.test(name) || /^'|'$/.test(name)) {
+      throw new Error(
+        `Invalid sheet name "${name}": use 1-${MAX_SHEET_NAME} characters, none of \\ / ? * : [ ], not starting or ending with '`,
+      );
+    }
+    if (seen.has(name.toLowerCase())) throw new Error(`Duplicate sheet name: ${name}`);
+    seen.add(name.toLowerCase());
+  }
+}
+
+function argbColor(color: string): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color);
+  if (!match) throw new Error(`Invalid color "${color}": use "#RRGGBB"`);
+  return `FF${match[1].toUpperCase()}`;
+}
+
+/**
+ * Collects the number formats and cell formats (xfs) the sheets use and
+ * renders them as xl/styles.xml. Format 0 is the default cell format.
+ */
+function createStyles() {
+  const numFmts = new Map<string, number>();
+  const fonts = ['<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>'];
+  const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  const xfs = new Map<string, number>([["0,0,0", 0]]);
+
+  const add = (list: string[], xml: string): number => {
+    if (!list.includes(xml)) list.push(xml);
+    return list.indexOf(xml);
+  };
+  const cellFormat = (numFmtId: number, fontId = 0, fillId = 0): number => {
+    const key = `${numFmtId},${fontId},${fillId}`;
+    const existing = xfs.get(key);
+    if (existing !== undefined) return existing;
+    xfs.set(key, xfs.size);
+    return xfs.size - 1;
+  };
+
+  return {
+    numberFormat(code: string): number {
+      if (code === "General") return 0;
+      let id = numFmts.get(code);
+      if (id === undefined) {
+        id = FIRST_CUSTOM_FORMAT + numFmts.size;
+        numFmts.set(code, id);
+      }
+      return cellFormat(id);
+    },
+
+    header(style: HeaderStyle = {}): number {
+      const { bold = true, fillColor, fontColor } = style;
+      let fontId = 0;
+      if (bold || fontColor) {
+        const color = fontColor ? `<color rgb="${argbColor(fontColor)}"/>` : "";
+        fontId = add(
+          fonts,
+          `<font>${bold ? "<b/>" : ""}<sz val="11"/>${color}<name val="Calibri"/><family val="2"/></font>`,
+        );
+      }
+      let fillId = 0;
+      if (fillColor) {
+        fillId = add(
+          fills,
+          `<fill><patternFill patternType="solid"><fgColor rgb="${argbColor(fillColor)}"/></patternFill></fill>`,
+        );
+      }
+      return cellFormat(0, fontId, fillId);
+    },
+
+    xml(): string {
+      const formats = [...numFmts].map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${encodeXml(code)}"/>`);
+      const cellXfs = [...xfs.keys()].map((key) => {
+        const [numFmtId, fontId, fillId] = key.split(",");
+        const applied = [
+          numFmtId !== "0" ? ' applyNumberFormat="1"' : "",
+          fontId !== "0" ? ' applyFont="1"' : "",
+          fillId !== "0" ? ' applyFill="1"' : "",
+        ].join("");
+        return `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"${applied}/>`;
+      });
+      return `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">${
+        formats.length > 0 ? `<numFmts count="${formats.length}">${formats.join("")}</numFmts>` : ""
+      }<fonts count="${fonts.length}">${fonts.join("")}</fonts><fills count="${fills.length}">${fills.join("")}</fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="${cellXfs.length}">${cellXfs.join("")}</cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+    },
+  };
+}
+
+type Styles = ReturnType<typeof createStyles>;
+
+/**
+ * Width in characters that shows a column's longest header or value as
+ * formatted, within sensible bounds.
+ */
+function autoWidth(column: string, cells: (Cell | undefined)[], format: string | undefined): number {
+  let longest = column.length;
+  for (const cell of cells) {
+    if (!cell) continue;
+    const code = format ?? (cell.type === "n" ? cell.dateFormat : undefined);
+    const text: string =
+      cell.type === "n" && code
+        ? XLSX.utils.format_cell({ t: "n", v: cell.value, z: code })
+        : cell.type === "b"
+          ? "FALSE"
+          : String(cell.value);
+    longest = Math.max(longest, ...text.split("\n").map((line) => line.length));
+  }
+  return Math.min(MAX_AUTO_WIDTH, Math.max(MIN_AUTO_WIDTH, longest + 2));
+}
+
+// Relationship parts numbering their targets rId1, rId2... in order
+function relationshipsXml(targets: [type: string, target: string][]): string {
+  const relationships = targets.map(
+    ([type, target], i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/${type}" Target="${target}"/>`,
+  );
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join("")}</Relationships>`;
+}
+
+function quoteSheetName(name: string): string {
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+function sheetXml(
+  sheet: WriteSheet,
+  table: SheetTable,
+  styles: Styles,
+  sharedString: (text: string) => number,
+  selected: boolean,
+): string {
+  const { columns } = table;
+  const cells = table.rows.map((row) => columns.map((_, c) => toCell(row[c])));
+  const range = tableRange(table);
+
+  const headerFormat = styles.header(sheet.headerStyle);
+  const columnFormats = columns.map((column) => {
+    const code = sheet.numberFormats?.[column];
+    return code === undefined ? undefined : { code, id: styles.numberFormat(code) };
+  });
+
+  const cellXml = (cell: Cell, ref: string, format: number): string => {
+    const style = format ? ` s="${format}"` : "";
+    if (cell.type === "b") return `<c r="${ref}"${style} t="b"><v>${cell.value ? 1 : 0}</v></c>`;
+    if (cell.type === "n") return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+    if (cell.value.length > MAX_CELL_TEXT) {
+      throw new Error(`Cell ${sheet.name}!${ref} has more than ${MAX_CELL_TEXT} characters`);
+    }
+    return `<c r="${ref}"${style} t="s"><v>${sharedString(cell.value)}</v></c>`;
+  };
+
+  const headerCells = columns
+    .map((column, c) =>
+      column ? cellXml({ type: "s", value: column }, `${XLSX.utils.encode_col(c)}1`, headerFormat) : "",
+    )
+    .join("");
+  const rowsXml = [`<row r="1">${headerCells}</row>`];
+  cells.forEach((row, r) => {
+    const rowCells = row.map((cell, c) => {
+      if (!cell) return "";
+      const format =
+        columnFormats[c]?.id ?? (cell.type === "n" && cell.dateFormat ? styles.numberFormat(cell.dateFormat) : 0);
+      return cellXml(cell, XLSX.utils.encode_cell({ r: r + 1, c }), format);
+    });
+    rowsXml.push(`<row r="${r + 2}">${rowCells.join("")}</row>`);
+  });
+
+  const widths = columns.map(
+    (column, c) =>
+      sheet.columnWidths?.[column] ??
+      autoWidth(
+        column,
+        cells.map((row) => row[c]),
+        columnFormats[c]?.code,
+      ),
+  );
+  const cols = widths.map(
+    (width, c) => `<col min="${c + 1}" max="${c + 1}" width="${Math.min(Math.max(width, 0), 255)}" customWidth="1"/>`,
+  );
+
+  const { rows: frozenRows = 0, columns: frozenColumns = 0 } = sheet.freezePanes ?? {};
+  let pane = "";
+  if (frozenRows > 0 || frozenColumns > 0) {
+    const activePane = frozenRows > 0 && frozenColumns > 0 ? "bottomRight" : frozenRows > 0 ? "bottomLeft" : "topRight";
+    const topLeftCell = XLSX.utils.encode_cell({ r: frozenRows, c: frozenColumns });
+    pane = `<pane${frozenColumns > 0 ? ` xSplit="${frozenColumns}"` : ""}${
+      frozenRows > 0 ? ` ySplit="${frozenRows}"` : ""
+    } topLeftCell="${topLeftCell}" activePane="${activePane}" state="frozen"/><selection pane="${activePane}" activeCell="${topLeftCell}" sqref="${topLeftCell}"/>`;
+  }
+
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><dimension ref="${range}"/><sheetViews><sheetView${
+    selected ? ' tabSelected="1"' : ""
+  } workbookViewId="0">${pane}</sheetView></sheetViews><sheetFormatPr defaultRowHeight="15"/>${
+    cols.length > 0 ? `<cols>${cols.join("")}</cols>` : ""
+  }<sheetData>${rowsXml.join("")}</sheetData>${
+    sheet.autoFilter && columns.length > 0 ? `<autoFilter ref="${range}"/>` : ""
+  }</worksheet>`;
+}
+
+async function writeXlsx(sheets: WriteSheet[], tables: SheetTable[]): Promise<Buffer> {
+  const zip = new JSZip();
+  const styles = createStyles();
+  const strings = new Map<string, number>();
+  let stringCount = 0;
+  const sharedString = (text: string): number => {
+    stringCount++;
+    let index = strings.get(text);
+    if (index === undefined) {
+      index = strings.size;
+      strings.set(text, index);
+    }
+    return index;
+  };
+
+  const definedNames: string[] = [];
+  sheets.forEach((sheet, i) => {
+    zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet, tables[i], styles, sharedString, i === 0));
+    if (sheet.autoFilter && tables[i].columns.length > 0) {
+      const absolute = tableRange(tables[i]).replace(/([A-Z]+)(\d+)/g, "$$$1$$$2");
+      definedNames.push(
+        `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${encodeXml(`${quoteSheetName(sheet.name)}!${absolute}`)}</definedName>`,
+      );
+    }
+  });
+
+  const overrides = [
+    `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE}.sheet.main+xml"/>`,
+    ...sheets.map(
+      (_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="${CONTENT_TYPE}.worksheet+xml"/>`,
+    ),
+    `<Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/>`,
+    `<Override PartName="/xl/sharedStrings.xml" ContentType="${CONTENT_TYPE}.sharedStrings+xml"/>`,
+  ];
+  zip.file(
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${overrides.join("")}</Types>`,
+  );
+  zip.file("_rels/.rels", relationshipsXml([["officeDocument", "xl/workbook.xml"]]));
+
+  const sheetEntries = sheets.map(
+    (sheet, i) => `<sheet name="${encodeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+  );
+  const names = definedNames.length > 0 ? `<definedNames>${definedNames.join("")}</definedNames>` : "";
+  zip.file(
+    "xl/workbook.xml",
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><bookViews><workbookView activeTab="0"/></bookViews><sheets>${sheetEntries.join("")}</sheets>${names}</workbook>`,
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    relationshipsXml([
+      ...sheets.map((_, i): [string, string] => ["worksheet", `worksheets/sheet${i + 1}.xml`]),
+      ["styles", "styles.xml"],
+      ["sharedStrings", "sharedStrings.xml"],
+    ]),
+  );
+  zip.file("xl/styles.xml", styles.xml());
+  const items = [...strings.keys()].map((text) => `<si><t xml:space="preserve">${encodeXml(text)}</t></si>`);
+  zip.file(
+    "xl/sharedStrings.xml",
+    `${XML_HEADER}<sst xmlns="${MAIN_NS}" count="${stringCount}" uniqueCount="${strings.size}">${items.join("")}</sst>`,
+  );
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+function writeCsv(table: SheetTable): Buffer {
+  const values = table.rows.map((row) =>
+    table.columns.map((_, c) => {
+      const value = row[c];
+      return value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+    }),
+  );
+  const worksheet = XLSX.utils.aoa_to_sheet([table.columns, ...values]);
+  // A byte order mark lets Excel recognise the file as UTF-8
+  return Buffer.from(`\ufeff${XLSX.utils.sheet_to_csv(worksheet)}\n`, "utf8");
+}
+
+/**
+ * Create an .xlsx workbook, or a .csv file from a single sheet, out of row
+ * data. Values are typed as written: numbers, booleans, and ISO 8601 date
+ * strings become numbers, booleans and dates; anything else is text.
+ * Formatting options (widths, header style, number formats, frozen panes,
+ * autofilter) only apply to .xlsx. An existing file is only replaced when
+ * `overwrite` is set.
+ */
+export async function writeExcelFile(args: WriteExcelArgs): Promise<WriteExcelResult> {
+  const filePath = resolve(args.filePath);
+  const extension = extname(filePath).toLowerCase();
+  if (extension !== ".xlsx" && extension !== ".csv") {
+    throw new Error(`Unsupported output format "${extension || filePath}": use .xlsx or .csv`);
+  }
+  const format = extension === ".xlsx" ? "xlsx" : "csv";
+  if (format === "csv" && args.sheets.length > 1) {
+    throw new Error("A .csv file holds a single sheet; write several sheets to an .xlsx file");
+  }
+  if (!existsSync(dirname(filePath))) throw new Error(`Directory not found: ${dirname(filePath)}`);
+  if (!args.overwrite && existsSync(filePath)) {
+    throw new Error(`File already exists: ${filePath}; set overwrite to replace it`);
+  }
+
+  validateSheetNames(args.sheets);
+  const tables = args.sheets.map(sheetTable);
+  const buffer = format === "xlsx" ? await writeXlsx(args.sheets, tables) : writeCsv(tables[0]);
+
+  try {
+    writeFileSync(filePath, buffer, { flag: args.overwrite ? "w" : "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`File already exists: ${filePath}; set overwrite to replace it`);
+    }
+    throw error;
+  }
+
+  const sheets: WrittenSheet[] = args.sheets.map((sheet, i) => ({
+    name: sheet.name,
+    columns: tables[i].columns,
+    rowCount: tables[i].rows.length,
+    range: tableRange(tables[i]),
+  }));
+  return { filePath, format, fileSize: buffer.length, sheets };
+}
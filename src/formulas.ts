@@ -0,0 +1,66 @@
+import { existsSync } from "node:fs";
+import * as XLSX from "xlsx";
+import { resolveSheetBlock } from "./cell-range.js";
+import { planChunk } from "./chunking.js";
+import type { FormulaCell, GetFormulasArgs, GetFormulasResult } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+
+/**
+ * Formula details for a cell, or undefined when it holds a plain value.
+ * Shared formulas arrive already expanded by SheetJS; cells inside an array
+ * formula report the anchor's formula together with the array range.
+ */
+export function formulaAt(
+  worksheet: XLSX.WorkSheet,
+  r: number,
+  c: number,
+): { formula: string; array?: string } | undefined {
+  const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+  if (!cell) return undefined;
+
+  if (cell.F) {
+    const anchor: XLSX.CellObject | undefined = worksheet[cell.F.split(":")[0]];
+    const text = cell.f ?? anchor?.f;
+    return text ? { formula: `=${text}`, array: cell.F } : undefined;
+  }
+  return cell.f ? { formula: `=${cell.f}` } : undefined;
+}
+
+export function getFormulas(args: GetFormulasArgs): GetFormulasResult {
+  const { filePath, password, sheetName, range, startIndex = 0, maxResults } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+
+  const { sheetName: selectedSheetName, worksheet, block } = resolveSheetBlock(workbook, sheetName, range);
+
+  const formulas: FormulaCell[] = [];
+  if (block) {
+    for (let r = block.s.r; r <= block.e.r; r++) {
+      for (let c = block.s.c; c <= block.e.c; c++) {
+        const info = formulaAt(worksheet, r, c);
+        if (!info) continue;
+        const cell: XLSX.CellObject = worksheet[XLSX.utils.encode_cell({ r, c })];
+        formulas.push({ address: XLSX.utils.encode_cell({ r, c }), ...info, value: cell.v });
+      }
+    }
+  }
+
+  const { rowEnd, sizing } = planChunk(formulas, startIndex, { maxRows: maxResults }, "");
+  const hasMore = rowEnd < formulas.length;
+
+  return {
+    fileName,
+    sheet: selectedSheetName,
+    ...(range && block ? { range: XLSX.utils.encode_range(block) } : {}),
+    totalFormulas: formulas.length,
+    startIndex,
+    formulas: formulas.slice(startIndex, rowEnd),
+    sizing,
+    hasMore,
+    ...(hasMore ? { nextStartIndex: rowEnd } : {}),
+  };
+}
@@ -0,0 +1,109 @@
+import * as XLSX from "xlsx";
+
+const HEADER_SCAN_ROWS = 20;
+const MULTI_ROW_SEPARATOR = " / ";
+
+/**
+ * Look up a cell, resolving cells inside a merged region to the region's
+ * top-left cell so group headers cover every column they span.
+ */
+function mergedCell(worksheet: XLSX.WorkSheet, r: number, c: number): XLSX.CellObject | undefined {
+  const merge = (worksheet["!merges"] || []).find((m) => m.s.r <= r && r <= m.e.r && m.s.c <= c && c <= m.e.c);
+  return worksheet[XLSX.utils.encode_cell(merge ? merge.s : { r, c })];
+}
+
+const cellText = (cell: XLSX.CellObject | undefined): string =>
+  cell && cell.v !== undefined ? XLSX.utils.format_cell(cell).trim() : "";
+
+function readRowText(worksheet: XLSX.WorkSheet, block: XLSX.Range, r: number): string[] {
+  const texts: string[] = [];
+  for (let c = block.s.c; c <= block.e.c; c++) {
+    texts.push(cellText(mergedCell(worksheet, r, c)));
+  }
+  return texts;
+}
+
+const hasHorizontalMerge = (worksheet: XLSX.WorkSheet, block: XLSX.Range, row: number): boolean =>
+  (worksheet["!merges"] || []).some(
+    (m) => m.s.r <= row && row <= m.e.r && m.e.c > m.s.c && m.s.c <= block.e.c && m.e.c >= block.s.c,
+  );
+
+/**
+ * Guess which row of the block holds the column headers: the earliest row
+ * among the first few with the most string cells, ignoring sparse rows such
+ * as title banners (merged or not). A header row containing horizontally merged group labels
+ * is taken together with the row below it.
+ */
+export function detectHeaderRows(worksheet: XLSX.WorkSheet, block: XLSX.Range): { start: number; count: number } {
+  const lastRow = Math.min(block.e.r, block.s.r + HEADER_SCAN_ROWS - 1);
+  const candidates: { row: number; filled: number; strings: number }[] = [];
+
+  for (let r = block.s.r; r <= lastRow; r++) {
+    let filled = 0;
+    let strings = 0;
+    const sources = new Set<XLSX.CellObject | undefined>();
+    for (let c = block.s.c; c <= block.e.c; c++) {
+      const cell = mergedCell(worksheet, r, c);
+      if (!cellText(cell)) continue;
+      filled++;
+      sources.add(cell);
+      if (cell?.t === "s") strings++;
+    }
+    // A row that is one merged label, such as a title banner, is a single cell
+    if (sources.size === 1 && filled > 1) {
+      filled = 1;
+      strings = Math.min(strings, 1);
+    }
+    candidates.push({ row: r, filled, strings });
+  }
+
+  const widest = Math.max(0, ...candidates.map((c) => c.filled));
+  let best = { row: block.s.r, strings: -1 };
+  for (const candidate of candidates) {
+    if (candidate.filled === 0 || candidate.filled < widest / 2) continue;
+    if (candidate.strings > best.strings) {
+      best = candidate;
+    }
+  }
+
+  const count = best.row < block.e.r && hasHorizontalMerge(worksheet, block, best.row) ? 2 : 1;
+  return { start: best.row, count };
+}
+
+/**
+ * Build column names from `count` header rows starting at `start`. Multi-row
+ * headers are joined top to bottom (e.g. "Q1 / Revenue"), and names are made
+ * unique the same way SheetJS does: blanks become "__EMPTY" and repeats get
+ * "_1", "_2" suffixes.
+ */
+export function buildHeaderNames(worksheet: XLSX.WorkSheet, block: XLSX.Range, start: number, count: number): string[] {
+  const rows: string[][] = [];
+  for (let r = start; r < start + count; r++) {
+    rows.push(readRowText(worksheet, block, r));
+  }
+
+  const seen: Record<string, number> = {};
+  const names: string[] = [];
+  for (let i = 0; i <= block.e.c - block.s.c; i++) {
+    const parts: string[] = [];
+    for (const row of rows) {
+      // Vertically merged labels would otherwise repeat, e.g. "Region / Region"
+      if (row[i] && row[i] !== parts[parts.length - 1]) parts.push(row[i]);
+    }
+    const base = parts.length > 0 ? parts.join(MULTI_ROW_SEPARATOR) : "__EMPTY";
+
+    let name = base;
+    let counter = seen[base] || 0;
+    if (!counter) {
+      seen[base] = 1;
+    } else {
+      do {
+        name = `${base}_${counter++}`;
+      } while (seen[name]);
+      seen[base] = counter;
+      seen[name] = 1;
+    }
+    names.push(name);
+  }
+  return names;
+}
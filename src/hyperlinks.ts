@@ -0,0 +1,44 @@
+import * as XLSX from "xlsx";
+import type { CellHyperlink } from "./types.js";
+
+const HYPERLINK_FORMULA = /^\s*HYPERLINK\(\s*("(?:[^"]|"")*"|\$?[A-Z]{1,3}\$?\d+)/i;
+
+function describeTarget(target: string): CellHyperlink {
+  if (target.startsWith("#")) {
+    return { type: "internal", target: target.slice(1) };
+  }
+  if (/^mailto:/i.test(target)) {
+    return { type: "email", target };
+  }
+  return { type: "external", target };
+}
+
+/**
+ * The link target of a HYPERLINK() formula, when its first argument is a
+ * string literal or a reference to a cell on the same sheet.
+ */
+function formulaTarget(worksheet: XLSX.WorkSheet, formula: string): string | undefined {
+  const match = formula.match(HYPERLINK_FORMULA);
+  if (!match) return undefined;
+  const arg = match[1];
+  if (arg.startsWith('"')) {
+    return arg.slice(1, -1).replace(/""/g, '"');
+  }
+  const referenced: XLSX.CellObject | undefined = worksheet[arg.replace(/\$/g, "").toUpperCase()];
+  return referenced?.v !== undefined ? String(referenced.v) : undefined;
+}
+
+/**
+ * Hyperlink attached to a cell, either as a cell hyperlink (external URL,
+ * mailto or a location in the workbook) or through a HYPERLINK() formula.
+ */
+export function hyperlinkAt(worksheet: XLSX.WorkSheet, r: number, c: number): CellHyperlink | undefined {
+  const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+  if (!cell) return undefined;
+
+  if (cell.l?.Target) {
+    return { ...describeTarget(cell.l.Target), ...(cell.l.Tooltip ? { tooltip: cell.l.Tooltip } : {}) };
+  }
+  const target = cell.f ? formulaTarget(worksheet, cell.f) : undefined;
+  return target ? { ...describeTarget(target), fromFormula: true } : undefined;
+}
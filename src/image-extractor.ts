@@ -1,9 +1,10 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync } from "node:fs";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import JSZip from "jszip";
-import * as XLSX from "xlsx";
 import type { ExtractedImage, GetExcelImagesArgs, ImagePosition } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
 import { extractXlsImages } from "./xls-image-extractor.js";
+import { resolveRelativePath } from "./xlsx-package.js";
 
 const MIME_TYPES: Record<string, string> = {
   ".png": "image/png",
@@ -20,30 +21,16 @@ const MIME_TYPES: Record<string, string> = {
 
 const MAX_IMAGES_SIZE = 10 * 1024 * 1024; // 10MB total base64 size limit
 
-function resolveRelativePath(baseDir: string, target: string): string {
-  if (target.startsWith("/")) return target.slice(1);
-  const parts = baseDir.split("/");
-  const targetParts = target.split("/");
-  for (const part of targetParts) {
-    if (part === "..") {
-      parts.pop();
-    } else if (part !== ".") {
-      parts.push(part);
-    }
-  }
-  return parts.join("/");
-}
-
 export async function extractImages(args: GetExcelImagesArgs): Promise<{
   images: ExtractedImage[];
   truncated: boolean;
 }> {
-  const { filePath, sheetName } = args;
+  const { filePath, password, sheetName } = args;
   if (!existsSync(filePath)) {
     throw new McpError(ErrorCode.InvalidRequest, `File not found: ${filePath}`);
   }
 
-  const buffer = readFileSync(filePath);
+  const { buffer, workbook } = loadWorkbook(filePath, password);
 
   // Detect file format by magic bytes
   if (buffer.length < 4) {
@@ -67,8 +54,6 @@ export async function extractImages(args: GetExcelImagesArgs): Promise<{
 
   const zip = await JSZip.loadAsync(buffer);
 
-  // Get sheet names from the workbook via SheetJS
-  const workbook = XLSX.read(buffer, { type: "buffer" });
   const sheetNames = workbook.SheetNames;
 
   if (sheetName && !sheetNames.includes(sheetName)) {
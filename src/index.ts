@@ -9,26 +9,368 @@ import {
   McpError,
   type TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
+import { AGGREGATE_FUNCTIONS, aggregateExcel, DATE_BUCKETS } from "./aggregate.js";
+import { getCharts } from "./charts.js";
+import { getComments } from "./comments.js";
+import { listNames } from "./defined-names.js";
+import { describeSheet } from "./describe-sheet.js";
+import { diffExcel } from "./diff.js";
 import { listSheets, readExcelFile } from "./excel-reader.js";
+import { writeExcelFile } from "./excel-writer.js";
+import { getFormulas } from "./formulas.js";
 import { extractImages } from "./image-extractor.js";
-import type { GetExcelImagesArgs, ListSheetsArgs, ReadExcelArgs } from "./types.js";
+import { OUTPUT_FORMATS, renderExcelData } from "./output-format.js";
+import { getPivotTables } from "./pivot-tables.js";
+import { WHERE_OPERATORS } from "./row-filter.js";
+import { SEARCH_FIELDS, SEARCH_MODES, searchExcel } from "./search.js";
+import { queryExcel } from "./sql-query.js";
+import { listTables, readTable } from "./tables.js";
+import type {
+  AggregateExcelArgs,
+  AggregateFunction,
+  Aggregation,
+  DateBucket,
+  DescribeSheetArgs,
+  DiffExcelArgs,
+  GetChartsArgs,
+  GetCommentsArgs,
+  GetExcelImagesArgs,
+  GetFormulasArgs,
+  GetPivotTablesArgs,
+  GetWorkbookInfoArgs,
+  GroupColumn,
+  ListNamesArgs,
+  ListSheetsArgs,
+  ListTablesArgs,
+  OutputFormat,
+  QueryExcelArgs,
+  ReadExcelArgs,
+  ReadTableArgs,
+  SearchExcelArgs,
+  SearchField,
+  SearchMode,
+  WhereCondition,
+  WhereOperator,
+  WriteExcelArgs,
+  WriteSheet,
+} from "./types.js";
+import { getWorkbookInfo } from "./workbook-info.js";
 
 const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
 
+// Row offsets and counts used for pagination
+const isOptionalCount = (v: unknown): boolean => v === undefined || (Number.isInteger(v) && (v as number) >= 0);
+
+const isValidWhereCondition = (v: unknown): v is WhereCondition =>
+  isRecord(v) && typeof v.column === "string" && WHERE_OPERATORS.includes(v.op as WhereOperator);
+
+// The workbook every tool reads, with the password of an encrypted one
+const hasValidFile = (args: Record<string, unknown>): boolean =>
+  typeof args.filePath === "string" && (args.password === undefined || typeof args.password === "string");
+
+// Sheet, block and header options shared by read_excel and the whole-sheet tools
+const hasValidSheetSelection = (args: Record<string, unknown>): boolean =>
+  (args.sheetName === undefined || typeof args.sheetName === "string") &&
+  (args.range === undefined || typeof args.range === "string") &&
+  (args.namedRange === undefined || typeof args.namedRange === "string") &&
+  (args.header === undefined || args.header === "first" || args.header === "auto" || args.header === "none") &&
+  (args.headerRow === undefined || typeof args.headerRow === "number") &&
+  (args.headerRows === undefined || typeof args.headerRows === "number") &&
+  (args.fillMerged === undefined || typeof args.fillMerged === "boolean");
+
+// Row selection, pagination and cell detail options shared by read_excel and read_table
+const hasValidRowOptions = (args: Record<string, unknown>): boolean =>
+  (args.columns === undefined ||
+    (Array.isArray(args.columns) && args.columns.every((column) => typeof column === "string"))) &&
+  (args.where === undefined || (Array.isArray(args.where) && args.where.every(isValidWhereCondition))) &&
+  isOptionalCount(args.startRow) &&
+  isOptionalCount(args.maxRows) &&
+  (args.maxBytes === undefined || typeof args.maxBytes === "number") &&
+  (args.maxTokens === undefined || typeof args.maxTokens === "number") &&
+  (args.outputFormat === undefined || OUTPUT_FORMATS.includes(args.outputFormat as OutputFormat)) &&
+  (args.includeFormulas === undefined || typeof args.includeFormulas === "boolean") &&
+  (args.valueMode === undefined ||
+    args.valueMode === "raw" ||
+    args.valueMode === "formatted" ||
+    args.valueMode === "both") &&
+  (args.includeHyperlinks === undefined || typeof args.includeHyperlinks === "boolean") &&
+  (args.includeComments === undefined || typeof args.includeComments === "boolean") &&
+  (args.skipHidden === undefined || typeof args.skipHidden === "boolean");
+
 const isValidReadExcelArgs = (args: unknown): args is ReadExcelArgs =>
+  isRecord(args) && hasValidFile(args) && hasValidSheetSelection(args) && hasValidRowOptions(args);
+
+const isValidDescribeSheetArgs = (args: unknown): args is DescribeSheetArgs =>
   isRecord(args) &&
-  typeof args.filePath === "string" &&
+  hasValidFile(args) &&
+  hasValidSheetSelection(args) &&
+  (args.columns === undefined ||
+    (Array.isArray(args.columns) && args.columns.every((column) => typeof column === "string"))) &&
+  (args.topN === undefined || typeof args.topN === "number") &&
+  (args.sampleSize === undefined || typeof args.sampleSize === "number");
+
+const isValidGroupColumn = (v: unknown): v is string | GroupColumn =>
+  typeof v === "string" ||
+  (isRecord(v) &&
+    typeof v.column === "string" &&
+    (v.bucket === undefined || DATE_BUCKETS.includes(v.bucket as DateBucket)));
+
+const isValidAggregation = (v: unknown): v is Aggregation =>
+  isRecord(v) &&
+  AGGREGATE_FUNCTIONS.includes(v.fn as AggregateFunction) &&
+  (v.column === undefined || typeof v.column === "string") &&
+  (v.percentile === undefined || typeof v.percentile === "number") &&
+  (v.as === undefined || typeof v.as === "string");
+
+const isValidAggregateExcelArgs = (args: unknown): args is AggregateExcelArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  hasValidSheetSelection(args) &&
+  Array.isArray(args.aggregations) &&
+  args.aggregations.every(isValidAggregation) &&
+  (args.groupBy === undefined || (Array.isArray(args.groupBy) && args.groupBy.every(isValidGroupColumn))) &&
+  (args.where === undefined || (Array.isArray(args.where) && args.where.every(isValidWhereCondition))) &&
+  (args.pivot === undefined || isValidGroupColumn(args.pivot)) &&
+  (args.orderBy === undefined ||
+    (Array.isArray(args.orderBy) &&
+      args.orderBy.every(
+        (o) =>
+          isRecord(o) &&
+          typeof o.column === "string" &&
+          (o.direction === undefined || o.direction === "asc" || o.direction === "desc"),
+      ))) &&
+  isOptionalCount(args.startRow) &&
+  isOptionalCount(args.maxRows) &&
+  (args.maxBytes === undefined || typeof args.maxBytes === "number") &&
+  (args.maxTokens === undefined || typeof args.maxTokens === "number");
+
+const isValidQueryExcelArgs = (args: unknown): args is QueryExcelArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  typeof args.sql === "string" &&
+  (args.workbooks === undefined ||
+    (isRecord(args.workbooks) && Object.values(args.workbooks).every((path) => typeof path === "string"))) &&
+  isOptionalCount(args.startRow) &&
+  isOptionalCount(args.maxRows) &&
+  (args.maxBytes === undefined || typeof args.maxBytes === "number") &&
+  (args.maxTokens === undefined || typeof args.maxTokens === "number");
+
+const isValidSearchExcelArgs = (args: unknown): args is SearchExcelArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  typeof args.query === "string" &&
+  (args.mode === undefined || SEARCH_MODES.includes(args.mode as SearchMode)) &&
+  (args.sheetNames === undefined ||
+    (Array.isArray(args.sheetNames) && args.sheetNames.every((sheet) => typeof sheet === "string"))) &&
+  (args.searchIn === undefined ||
+    (Array.isArray(args.searchIn) && args.searchIn.every((field) => SEARCH_FIELDS.includes(field as SearchField)))) &&
+  (args.caseSensitive === undefined || typeof args.caseSensitive === "boolean") &&
+  (args.wholeCell === undefined || typeof args.wholeCell === "boolean") &&
+  (args.includeRow === undefined || typeof args.includeRow === "boolean") &&
+  isOptionalCount(args.startIndex) &&
+  isOptionalCount(args.maxResults);
+
+const isValidDiffExcelArgs = (args: unknown): args is DiffExcelArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  (args.otherFilePath === undefined || typeof args.otherFilePath === "string") &&
+  (args.otherPassword === undefined || typeof args.otherPassword === "string") &&
   (args.sheetName === undefined || typeof args.sheetName === "string") &&
-  (args.startRow === undefined || typeof args.startRow === "number") &&
-  (args.maxRows === undefined || typeof args.maxRows === "number");
+  (args.otherSheetName === undefined || typeof args.otherSheetName === "string") &&
+  (args.keyColumns === undefined ||
+    (Array.isArray(args.keyColumns) && args.keyColumns.every((column) => typeof column === "string"))) &&
+  (args.compareFormulas === undefined || typeof args.compareFormulas === "boolean") &&
+  isOptionalCount(args.startIndex) &&
+  isOptionalCount(args.maxResults);
 
-const isValidListSheetsArgs = (args: unknown): args is ListSheetsArgs =>
-  isRecord(args) && typeof args.filePath === "string";
+const isValidGetChartsArgs = (args: unknown): args is GetChartsArgs =>
+  isRecord(args) && hasValidFile(args) && (args.sheetName === undefined || typeof args.sheetName === "string");
 
-const isValidGetExcelImagesArgs = (args: unknown): args is GetExcelImagesArgs =>
+const isValidGetPivotTablesArgs = (args: unknown): args is GetPivotTablesArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  (args.sheetName === undefined || typeof args.sheetName === "string") &&
+  (args.includeRecords === undefined || typeof args.includeRecords === "boolean") &&
+  isOptionalCount(args.recordStartIndex) &&
+  isOptionalCount(args.maxRecords);
+
+const isValidReadTableArgs = (args: unknown): args is ReadTableArgs =>
+  isRecord(args) && hasValidFile(args) && typeof args.tableName === "string" && hasValidRowOptions(args);
+
+const isValidListTablesArgs = (args: unknown): args is ListTablesArgs =>
+  isRecord(args) && hasValidFile(args) && (args.sheetName === undefined || typeof args.sheetName === "string");
+
+const isValidGetFormulasArgs = (args: unknown): args is GetFormulasArgs =>
+  isRecord(args) &&
+  hasValidFile(args) &&
+  (args.sheetName === undefined || typeof args.sheetName === "string") &&
+  (args.range === undefined || typeof args.range === "string") &&
+  isOptionalCount(args.startIndex) &&
+  isOptionalCount(args.maxResults);
+
+const isValidGetCommentsArgs = (args: unknown): args is GetCommentsArgs =>
+  isRecord(args) && hasValidFile(args) && (args.sheetName === undefined || typeof args.sheetName === "string");
+
+const isValidGetWorkbookInfoArgs = (args: unknown): args is GetWorkbookInfoArgs => isRecord(args) && hasValidFile(args);
+
+const isValidListSheetsArgs = (args: unknown): args is ListSheetsArgs => isRecord(args) && hasValidFile(args);
+
+const isValidListNamesArgs = (args: unknown): args is ListNamesArgs => isRecord(args) && hasValidFile(args);
+
+const isRecordOf = (v: unknown, type: "string" | "number"): boolean =>
+  isRecord(v) && Object.values(v).every((value) => typeof value === type);
+
+const isValidWriteSheet = (v: unknown): v is WriteSheet =>
+  isRecord(v) &&
+  typeof v.name === "string" &&
+  Array.isArray(v.rows) &&
+  v.rows.every(isRecord) &&
+  (v.columns === undefined || (Array.isArray(v.columns) && v.columns.every((column) => typeof column === "string"))) &&
+  (v.columnWidths === undefined || isRecordOf(v.columnWidths, "number")) &&
+  (v.numberFormats === undefined || isRecordOf(v.numberFormats, "string")) &&
+  (v.headerStyle === undefined ||
+    (isRecord(v.headerStyle) &&
+      (v.headerStyle.bold === undefined || typeof v.headerStyle.bold === "boolean") &&
+      (v.headerStyle.fillColor === undefined || typeof v.headerStyle.fillColor === "string") &&
+      (v.headerStyle.fontColor === undefined || typeof v.headerStyle.fontColor === "string"))) &&
+  (v.freezePanes === undefined ||
+    (isRecord(v.freezePanes) &&
+      (v.freezePanes.rows === undefined || Number.isInteger(v.freezePanes.rows)) &&
+      (v.freezePanes.columns === undefined || Number.isInteger(v.freezePanes.columns)))) &&
+  (v.autoFilter === undefined || typeof v.autoFilter === "boolean");
+
+const isValidWriteExcelArgs = (args: unknown): args is WriteExcelArgs =>
   isRecord(args) &&
   typeof args.filePath === "string" &&
-  (args.sheetName === undefined || typeof args.sheetName === "string");
+  Array.isArray(args.sheets) &&
+  args.sheets.every(isValidWriteSheet) &&
+  (args.overwrite === undefined || typeof args.overwrite === "boolean");
+
+const isValidGetExcelImagesArgs = (args: unknown): args is GetExcelImagesArgs =>
+  isRecord(args) && hasValidFile(args) && (args.sheetName === undefined || typeof args.sheetName === "string");
+
+// Schema of the password every tool takes for encrypted workbooks
+const PASSWORD_PROPERTY = {
+  type: "string",
+  description:
+    "Password of an encrypted (password to open) workbook (optional). Without it, encrypted files fail with a PasswordRequired error; a wrong one gives WrongPassword.",
+};
+
+// Schema of the options that pick a sheet block and how its header is read
+const SHEET_SELECTION_PROPERTIES = {
+  sheetName: {
+    type: "string",
+    description: "Name of the sheet to read (optional, defaults to first sheet)",
+  },
+  range: {
+    type: "string",
+    description:
+      'A1 range to read, e.g. "C5:H40", "Sheet1!C5:H40" or whole columns "B:D" (optional). Headers are taken from within the range, and rows are only read from it.',
+  },
+  namedRange: {
+    type: "string",
+    description:
+      'Defined name to read instead of range, e.g. "Inputs_Region" (optional). The name is resolved to its sheet and range; a name scoped to sheetName wins over a workbook-level one. See list_names.',
+  },
+  header: {
+    type: "string",
+    enum: ["first", "auto", "none"],
+    description:
+      'How to find column names (optional, default "first"): "first" uses the first row, "auto" detects the header row below title banners and blank rows, "none" returns every row keyed by column letter (A, B, C...)',
+  },
+  headerRow: {
+    type: "number",
+    description: "1-based sheet row that holds the column names (optional, overrides header detection)",
+  },
+  headerRows: {
+    type: "number",
+    description:
+      'Number of stacked header rows to join into one name, e.g. "Q1 / Revenue" (optional, default 1; "auto" uses 2 when the header row has merged group labels)',
+  },
+  fillMerged: {
+    type: "boolean",
+    description:
+      "Copy each merged region's value into every cell it covers, so e.g. a category label merged over 10 rows appears on each of them (optional, default false)",
+  },
+};
+
+// Schema of the row selection, pagination and cell detail options shared by the tools that return rows
+const ROW_OPTION_PROPERTIES = {
+  columns: {
+    type: "array",
+    items: { type: "string" },
+    description: 'Only return these columns, given by header name or column letter, e.g. ["Name", "D"] (optional)',
+  },
+  where: {
+    type: "array",
+    description:
+      "Only return rows matching all of these conditions (optional). Filtering happens before pagination, so totalRows and hasMore describe the matching rows.",
+    items: {
+      type: "object",
+      properties: {
+        column: { type: "string", description: "Column name or letter" },
+        op: {
+          type: "string",
+          enum: WHERE_OPERATORS,
+          description:
+            "Comparison: =, !=, <, <=, >, >= compare numbers numerically and dates by time; contains is case-insensitive; regex tests a JavaScript regular expression; isEmpty/isNotEmpty ignore value",
+        },
+        value: { description: "Value to compare against" },
+      },
+      required: ["column", "op"],
+    },
+  },
+  startRow: {
+    type: "number",
+    description: "Starting row index for pagination (optional, 0-based)",
+  },
+  maxRows: {
+    type: "number",
+    description: "Maximum number of rows to read (optional, useful for large files)",
+  },
+  maxBytes: {
+    type: "number",
+    description:
+      "Byte budget for the response (optional, defaults to 100KB when maxTokens is not given). Rows are added until the next one would exceed it.",
+  },
+  maxTokens: {
+    type: "number",
+    description:
+      "Approximate token budget for the response (optional). Use this to fit a chunk into the remaining context window.",
+  },
+  outputFormat: {
+    type: "string",
+    enum: OUTPUT_FORMATS,
+    description:
+      'How rows are returned (optional, default "json"): "json" row objects, "markdown" table, "csv"/"tsv" text, or "columnar" compact JSON {columns, rows: [[...]]}. The non-JSON formats repeat column names once instead of per row, so more rows fit in a chunk.',
+  },
+  includeFormulas: {
+    type: "boolean",
+    description:
+      'Return formula cells as {"value": ..., "formula": "=SUM(B2:B9)"} objects, with "array" set to the range of array formulas (optional, default false)',
+  },
+  valueMode: {
+    type: "string",
+    enum: ["raw", "formatted", "both"],
+    description:
+      'Cell values to return (optional, default "raw"): "raw" underlying values (0.125), "formatted" the text Excel displays ("12.5%", "$1,234.50"), "both" non-text cells as {"value", "text", "format"} objects with the number format string',
+  },
+  includeHyperlinks: {
+    type: "boolean",
+    description:
+      'Return linked cells as {"value": ..., "hyperlink": {"type", "target", "tooltip"}} objects, where type is "external", "email" or "internal" (a "Sheet!A1" location); HYPERLINK() formulas are included (optional, default false)',
+  },
+  includeComments: {
+    type: "boolean",
+    description:
+      'Return commented cells as {"value": ..., "comment": {"author", "text", "threaded", "replies"}} objects, covering legacy notes and threaded comments (optional, default false). Use get_comments for timestamps.',
+  },
+  skipHidden: {
+    type: "boolean",
+    description:
+      "Leave hidden rows and columns, and rows the autofilter hides, out of the data and counts (optional, default false). Without a sheetName, reads the first visible sheet. When off, hidden rows are listed in chunk.hiddenRows/filteredRows and hidden columns in hiddenColumns.",
+  },
+};
 
 class ExcelReaderServer {
   private server: Server;
@@ -70,26 +412,85 @@ class ExcelReaderServer {
                 type: "string",
                 description: "Absolute path to the Excel file (.xlsx, .xls, or .csv)",
               },
+              password: PASSWORD_PROPERTY,
+              ...SHEET_SELECTION_PROPERTIES,
+              ...ROW_OPTION_PROPERTIES,
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "list_sheets",
+          description:
+            "List all sheet names in an Excel file (.xlsx, .xls), with per-sheet details: visibility (visible, hidden or veryHidden; hidden sheets often hold scratch or lookup data), sheet type, used range, row and column counts, a preview of the first row, and counts of merged regions, formulas, comments, Excel tables, images and charts. Use this to size up a workbook and pick sheets before reading specific data with read_excel.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls)",
+              },
+              password: PASSWORD_PROPERTY,
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "get_excel_images",
+          description:
+            "Extract embedded images from an Excel file (.xlsx or .xls). Returns image metadata (position: sheet, row, column) and base64-encoded image data. Use this when the user asks about images or visual content in a spreadsheet; native Excel charts are not images, use get_charts for those.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Path to the Excel file (.xlsx or .xls)",
+              },
+              password: PASSWORD_PROPERTY,
+              sheetName: {
+                type: "string",
+                description: "Only return images from this sheet (optional, returns all sheets if omitted)",
+              },
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "get_formulas",
+          description:
+            "List every formula cell in a sheet or range of an Excel file, with the formula text (shared formulas expanded, array formulas marked with their range) and the cached value. Use this to audit how values in a spreadsheet are calculated.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls)",
+              },
+              password: PASSWORD_PROPERTY,
               sheetName: {
                 type: "string",
-                description: "Name of the sheet to read (optional, defaults to first sheet)",
+                description: "Name of the sheet (optional, defaults to first sheet)",
+              },
+              range: {
+                type: "string",
+                description: 'A1 range to scan, e.g. "B2:F50" or "Sheet1!B:F" (optional, defaults to the whole sheet)',
               },
-              startRow: {
+              startIndex: {
                 type: "number",
-                description: "Starting row index for pagination (optional, 0-based)",
+                description: "Index of the first formula to return, for pagination (optional, 0-based)",
               },
-              maxRows: {
+              maxResults: {
                 type: "number",
-                description: "Maximum number of rows to read (optional, useful for large files)",
+                description: "Maximum number of formulas to return (optional)",
               },
             },
             required: ["filePath"],
           },
         },
         {
-          name: "list_sheets",
+          name: "get_comments",
           description:
-            "List all sheet names in an Excel file (.xlsx, .xls). Use this to discover available sheets before reading specific data with read_excel.",
+            "List the cell comments in an Excel file (.xlsx, .xls), per sheet: the cell address, author, text and, for threaded comments, the timestamp, resolved state and reply chain. Legacy notes are included. Use this when reviewers' remarks or annotations in a spreadsheet matter.",
           inputSchema: {
             type: "object",
             properties: {
@@ -97,145 +498,923 @@ class ExcelReaderServer {
                 type: "string",
                 description: "Absolute path to the Excel file (.xlsx, .xls)",
               },
+              password: PASSWORD_PROPERTY,
+              sheetName: {
+                type: "string",
+                description: "Only return comments from this sheet (optional, returns all sheets if omitted)",
+              },
             },
             required: ["filePath"],
           },
         },
         {
-          name: "get_excel_images",
+          name: "list_names",
           description:
-            "Extract embedded images from an Excel file (.xlsx or .xls). Returns image metadata (position: sheet, row, column) and base64-encoded image data. Use this when the user asks about images, charts, or visual content in a spreadsheet.",
+            "List the defined names (named ranges) in an Excel file (.xlsx, .xls): workbook- and sheet-scoped names with their reference formula, hidden flag, and the sheet and range they resolve to. Dynamic names (OFFSET, INDIRECT...) are listed with their formula only. Pass a name to read_excel's namedRange to read its data.",
           inputSchema: {
             type: "object",
             properties: {
               filePath: {
                 type: "string",
-                description: "Path to the Excel file (.xlsx or .xls)",
+                description: "Absolute path to the Excel file (.xlsx, .xls)",
+              },
+              password: PASSWORD_PROPERTY,
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "list_tables",
+          description:
+            "List the Excel tables (structured tables / ListObjects) in an .xlsx file: name, sheet, range, column names and whether a header and totals row are present. Tables hold a workbook's cleanest data; read one with read_table.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx)",
               },
+              password: PASSWORD_PROPERTY,
               sheetName: {
                 type: "string",
-                description: "Only return images from this sheet (optional, returns all sheets if omitted)",
+                description: "Only return tables on this sheet (optional, returns all sheets if omitted)",
               },
             },
             required: ["filePath"],
           },
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name } = request.params;
-
-      if (name === "read_excel") {
-        if (!isValidReadExcelArgs(request.params.arguments)) {
-          throw new McpError(ErrorCode.InvalidParams, "Invalid read_excel arguments");
-        }
-
-        try {
-          const data = readExcelFile(request.params.arguments);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(data, null, 2),
+        {
+          name: "read_table",
+          description:
+            "Read the rows of an Excel table by name, excluding anything around it on the sheet and its totals row. Supports the same column selection, filtering, pagination and output options as read_excel, and returns the same response shape.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx)",
               },
-            ],
-          };
-        } catch (error) {
-          if (error instanceof McpError) {
-            throw error;
-          }
-          throw new McpError(
-            ErrorCode.InternalError,
-            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      } else if (name === "list_sheets") {
-        if (!isValidListSheetsArgs(request.params.arguments)) {
-          throw new McpError(ErrorCode.InvalidParams, "Invalid list_sheets arguments");
-        }
-
-        try {
-          const result = listSheets(request.params.arguments);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(result, null, 2),
+              password: PASSWORD_PROPERTY,
+              tableName: {
+                type: "string",
+                description: "Name of the table, as listed by list_tables (case-insensitive)",
               },
-            ],
-          };
-        } catch (error) {
-          if (error instanceof McpError) {
-            throw error;
-          }
-          throw new McpError(
-            ErrorCode.InternalError,
-            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      } else if (name === "get_excel_images") {
-        if (!isValidGetExcelImagesArgs(request.params.arguments)) {
-          throw new McpError(ErrorCode.InvalidParams, "Invalid get_excel_images arguments");
-        }
-
-        try {
-          const { images, truncated } = await extractImages(request.params.arguments);
-          const fileName = request.params.arguments.filePath.split(/[\\/]/).pop() || "";
-
-          const warnings: string[] = [];
-          if (truncated) {
-            warnings.push("Image data was truncated because total size exceeded 10MB limit. Some images were omitted.");
-          }
-
-          // Check for EMF/WMF images
-          const unsupportedFormats = images.filter(
-            (img) => img.mimeType === "image/x-emf" || img.mimeType === "image/x-wmf",
-          );
-          if (unsupportedFormats.length > 0) {
-            warnings.push(
-              `${unsupportedFormats.length} image(s) are in EMF/WMF format, which most clients cannot display: ${unsupportedFormats.map((i) => i.name).join(", ")}`,
-            );
-          }
-
-          const metadata = {
-            fileName,
-            imageCount: images.length,
-            images: images.map(({ name, mimeType, positions }) => ({
-              name,
-              mimeType,
-              positions,
-            })),
-            ...(warnings.length > 0 ? { warnings } : {}),
-          };
-
-          const content: (TextContent | ImageContent)[] = [
-            {
-              type: "text",
-              text: JSON.stringify(metadata, null, 2),
+              ...ROW_OPTION_PROPERTIES,
             },
-          ];
-
-          // Add image content blocks for displayable images
-          for (const img of images) {
-            if (img.mimeType === "image/x-emf" || img.mimeType === "image/x-wmf") {
-              continue; // Skip non-displayable formats
-            }
-            content.push({
-              type: "image",
-              data: img.data,
-              mimeType: img.mimeType,
-            });
-          }
-
-          return { content };
-        } catch (error) {
-          if (error instanceof McpError) {
-            throw error;
-          }
-          throw new McpError(
-            ErrorCode.InternalError,
-            `Error extracting images: ${error instanceof Error ? error.message : String(error)}`,
+            required: ["filePath", "tableName"],
+          },
+        },
+        {
+          name: "describe_sheet",
+          description:
+            "Profile the columns of a sheet without returning its rows: per column the inferred type (number, integer, date, boolean, text, mixed or empty), blank and distinct counts, min/max/mean of numbers, the date range, the most frequent values and a few samples. Use this to understand a large sheet before reading or filtering it with read_excel.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls, or .csv)",
+              },
+              password: PASSWORD_PROPERTY,
+              ...SHEET_SELECTION_PROPERTIES,
+              columns: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only profile these columns, given by header name or column letter (optional)",
+              },
+              topN: {
+                type: "number",
+                description: "Number of most frequent values to report per column (optional, default 5)",
+              },
+              sampleSize: {
+                type: "number",
+                description: "Number of sample values to report per column (optional, default 3)",
+              },
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "aggregate_excel",
+          description:
+            "Group and aggregate a whole sheet server-side, e.g. total revenue per region per quarter, without reading its rows into context. Supports group-by columns (with day/week/month/quarter/year bucketing for dates), sum, count, countDistinct, avg, min, max, median and percentile aggregations, where filters, an optional pivot column, and sorting. Results are paginated like read_excel chunks.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls, or .csv)",
+              },
+              password: PASSWORD_PROPERTY,
+              ...SHEET_SELECTION_PROPERTIES,
+              groupBy: {
+                type: "array",
+                items: {
+                  anyOf: [
+                    { type: "string" },
+                    {
+                      type: "object",
+                      properties: {
+                        column: { type: "string", description: "Column name or letter" },
+                        bucket: {
+                          type: "string",
+                          enum: DATE_BUCKETS,
+                          description:
+                            'Group dates by period: "2024-03-05", "2024-W10", "2024-03", "2024-Q1" or "2024"',
+                        },
+                      },
+                      required: ["column"],
+                    },
+                  ],
+                },
+                description:
+                  'Columns to group by, as names/letters or {"column", "bucket"} objects for dates (optional; omit to aggregate all rows into one)',
+              },
+              aggregations: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    fn: { type: "string", enum: AGGREGATE_FUNCTIONS },
+                    column: {
+                      type: "string",
+                      description: "Column name or letter (optional for count, which then counts rows)",
+                    },
+                    percentile: { type: "number", description: 'Percentile from 0 to 100, for fn "percentile"' },
+                    as: {
+                      type: "string",
+                      description: 'Result column name (optional, defaults to e.g. "sum(Revenue)")',
+                    },
+                  },
+                  required: ["fn"],
+                },
+                description:
+                  'Values to compute per group, e.g. [{"fn": "sum", "column": "Revenue"}, {"fn": "count"}]. sum/avg/median/percentile use numeric cells only; blanks are ignored.',
+              },
+              where: ROW_OPTION_PROPERTIES.where,
+              pivot: {
+                anyOf: [
+                  { type: "string" },
+                  {
+                    type: "object",
+                    properties: {
+                      column: { type: "string" },
+                      bucket: { type: "string", enum: DATE_BUCKETS },
+                    },
+                    required: ["column"],
+                  },
+                ],
+                description:
+                  'Column whose values become result columns, e.g. "Quarter" gives one column per quarter (optional). With several aggregations, columns are named "<value> / <aggregation>".',
+              },
+              orderBy: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    column: { type: "string", description: "Result column name" },
+                    direction: { type: "string", enum: ["asc", "desc"] },
+                  },
+                  required: ["column"],
+                },
+                description:
+                  'Sort by result columns, e.g. [{"column": "sum(Revenue)", "direction": "desc"}] (optional, defaults to the group columns ascending)',
+              },
+              startRow: ROW_OPTION_PROPERTIES.startRow,
+              maxRows: ROW_OPTION_PROPERTIES.maxRows,
+              maxBytes: ROW_OPTION_PROPERTIES.maxBytes,
+              maxTokens: ROW_OPTION_PROPERTIES.maxTokens,
+            },
+            required: ["filePath", "aggregations"],
+          },
+        },
+        {
+          name: "query_excel",
+          description:
+            'Run a SQL SELECT over a workbook, in-process. Every sheet is a table named after the sheet (its first row holds the column names), and every Excel table is a table under its own name; column types are inferred from the cells and reported with the result. Supports SELECT [DISTINCT], JOIN/LEFT JOIN with ON or USING, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET, CASE, CAST, IN, BETWEEN, LIKE, IS NULL, aggregates (COUNT, SUM, AVG, MIN, MAX, MEDIAN, GROUP_CONCAT) and functions such as UPPER, LOWER, TRIM, SUBSTR, REPLACE, COALESCE, ROUND, ABS, DATE, YEAR, MONTH and QUARTER. Quote names with spaces as "Sales Data". Results are paginated like read_excel chunks.',
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls, or .csv) whose tables the query names",
+              },
+              password: PASSWORD_PROPERTY,
+              sql: {
+                type: "string",
+                description:
+                  "SELECT statement, e.g. SELECT region, SUM(amount) AS total FROM Sales WHERE year = 2025 GROUP BY region ORDER BY total DESC",
+              },
+              workbooks: {
+                type: "object",
+                additionalProperties: { type: "string" },
+                description:
+                  'Other workbooks to query, as alias → absolute path (optional). Name their tables as alias.table, e.g. {"ref": "/data/regions.xlsx"} with JOIN ref.Regions USING (code).',
+              },
+              startRow: ROW_OPTION_PROPERTIES.startRow,
+              maxRows: ROW_OPTION_PROPERTIES.maxRows,
+              maxBytes: ROW_OPTION_PROPERTIES.maxBytes,
+              maxTokens: ROW_OPTION_PROPERTIES.maxTokens,
+            },
+            required: ["filePath", "sql"],
+          },
+        },
+        {
+          name: "search_excel",
+          description:
+            "Find where a value lives in an Excel file without reading it chunk by chunk: searches all (or selected) sheets for text, a number or a regular expression in cell values, formatted text, formulas and comments. Each match has the sheet, A1 address, value and the row it sits in, keyed by the sheet's headers. Results are paginated.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx, .xls, or .csv)",
+              },
+              password: PASSWORD_PROPERTY,
+              query: {
+                type: "string",
+                description: "Text, number or regular expression to search for",
+              },
+              mode: {
+                type: "string",
+                enum: SEARCH_MODES,
+                description:
+                  '"text" (default) matches text anywhere in the cell; "number" compares cell values numerically; "regex" tests a JavaScript regular expression',
+              },
+              sheetNames: {
+                type: "array",
+                items: { type: "string" },
+                description: "Sheets to search (optional, defaults to all sheets)",
+              },
+              searchIn: {
+                type: "array",
+                items: { type: "string", enum: SEARCH_FIELDS },
+                description: "What to search: value, formatted, formula and/or comment (optional, defaults to all)",
+              },
+              caseSensitive: {
+                type: "boolean",
+                description: "Match letter case exactly (optional, default false)",
+              },
+              wholeCell: {
+                type: "boolean",
+                description:
+                  "Require the query to match the whole text rather than part of it (optional, default false)",
+              },
+              includeRow: {
+                type: "boolean",
+                description: "Include each match's row keyed by the sheet's headers (optional, default true)",
+              },
+              startIndex: {
+                type: "number",
+                description: "Index of the first match to return, for pagination (optional, 0-based)",
+              },
+              maxResults: {
+                type: "number",
+                description: "Maximum number of matches to return (optional)",
+              },
+            },
+            required: ["filePath", "query"],
+          },
+        },
+        {
+          name: "diff_excel",
+          description:
+            "Compare two versions of a workbook (or two sheets) and report what changed: added and removed sheets, added and removed columns, added, removed and changed rows, and cell-level value and formula changes with their addresses. Rows are matched by position, or by key columns such as an ID. A per-sheet summary comes first; the detailed changes are paginated.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the original Excel file (.xlsx, .xls, or .csv)",
+              },
+              password: PASSWORD_PROPERTY,
+              otherFilePath: {
+                type: "string",
+                description:
+                  "Absolute path to the changed Excel file (optional; omit to compare two sheets of filePath)",
+              },
+              otherPassword: {
+                type: "string",
+                description: "Password of an encrypted otherFilePath (optional, defaults to password)",
+              },
+              sheetName: {
+                type: "string",
+                description: "Compare only this sheet (optional, defaults to every sheet both files share)",
+              },
+              otherSheetName: {
+                type: "string",
+                description: "Sheet of the changed file to compare sheetName with (optional, defaults to sheetName)",
+              },
+              keyColumns: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  'Header names (or letters) identifying a row, e.g. ["ID"], so moved rows still match (optional, defaults to matching by row number)',
+              },
+              compareFormulas: {
+                type: "boolean",
+                description: "Report formula changes as well as value changes (optional, default true)",
+              },
+              startIndex: {
+                type: "number",
+                description: "Index of the first change to return, for pagination (optional, 0-based)",
+              },
+              maxResults: {
+                type: "number",
+                description: "Maximum number of changes to return (optional)",
+              },
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "get_pivot_tables",
+          description:
+            "List the pivot tables in an Excel file (.xlsx): each pivot's sheet and location, its source range, Excel table or defined name, the row, column and report filter (page) fields, the data fields with their aggregation function, and label, value and manual filters. Optionally include the pivot cache records (the source rows as of the last refresh) so the pivot can be recomputed, e.g. with aggregate_excel or query_excel on the source.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx)",
+              },
+              password: PASSWORD_PROPERTY,
+              sheetName: {
+                type: "string",
+                description: "Only return pivot tables on this sheet (optional, returns all sheets if omitted)",
+              },
+              includeRecords: {
+                type: "boolean",
+                description:
+                  "Include the pivot cache records as objects keyed by field name (optional, default false). Capped by maxRecords and the response size limit; hasMoreRecords tells when some were left out, and nextRecordStartIndex where they resume.",
+              },
+              recordStartIndex: {
+                type: "number",
+                description:
+                  "Index of the first cache record to return per pivot table, for pagination (optional, 0-based)",
+              },
+              maxRecords: {
+                type: "number",
+                description: "Maximum number of cache records to return per pivot table (optional)",
+              },
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "get_charts",
+          description:
+            "List the native charts in an Excel file (.xlsx): each chart's sheet, anchor range, chart type, title, axis titles, and series with their name, category and value references and the values cached in the chart. Use this to get the numbers behind a chart; get_excel_images only returns embedded pictures.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file (.xlsx)",
+              },
+              password: PASSWORD_PROPERTY,
+              sheetName: {
+                type: "string",
+                description: "Only return charts on this sheet (optional, returns all sheets if omitted)",
+              },
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "get_workbook_info",
+          description:
+            "Get workbook-level information about an Excel file (.xlsx, .xlsm, .xls and other formats): document properties (title, author, last modified by, created/modified dates, company, application version), custom properties, the date system (1900 or 1904), the calculation mode, and file format details (type, container, BIFF version, macros, size), and protection (locked structure or windows, protected sheets, encryption type). Use this to answer questions about who made a workbook and when, or to check the date system before interpreting date serials.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path to the Excel file",
+              },
+              password: PASSWORD_PROPERTY,
+            },
+            required: ["filePath"],
+          },
+        },
+        {
+          name: "write_excel",
+          description:
+            "Create a new .xlsx workbook (or a .csv file) from structured data, e.g. to hand over the results of an analysis as a spreadsheet. Each sheet takes row objects or arrays, with optional column order, column widths, header styling, number/date formats per column, frozen panes and an autofilter. Numbers, booleans and ISO 8601 date strings are written as typed cells. Refuses to replace an existing file unless overwrite is true.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Absolute path of the file to create, ending in .xlsx or .csv (.csv takes a single sheet)",
+              },
+              sheets: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string", description: "Sheet name (up to 31 characters, none of \\ / ? * : [ ])" },
+                    rows: {
+                      type: "array",
+                      items: { anyOf: [{ type: "object" }, { type: "array" }] },
+                      description:
+                        'Row objects keyed by column name, e.g. [{"Region": "North", "Revenue": 1200}], or arrays of values whose first array is the header unless columns is given',
+                    },
+                    columns: {
+                      type: "array",
+                      items: { type: "string" },
+                      description: "Column order for object rows (others are left out), or header names for array rows",
+                    },
+                    columnWidths: {
+                      type: "object",
+                      additionalProperties: { type: "number" },
+                      description:
+                        'Widths in characters by column name, e.g. {"Notes": 40} (default: fit the contents)',
+                    },
+                    numberFormats: {
+                      type: "object",
+                      additionalProperties: { type: "string" },
+                      description:
+                        'Excel number formats by column name, e.g. {"Revenue": "#,##0.00", "Share": "0.0%", "Date": "dd/mm/yyyy"}. ISO date strings default to yyyy-mm-dd.',
+                    },
+                    headerStyle: {
+                      type: "object",
+                      properties: {
+                        bold: { type: "boolean", description: "Bold header text (default: true)" },
+                        fillColor: { type: "string", description: 'Background color, e.g. "#DDEBF7"' },
+                        fontColor: { type: "string", description: 'Text color, e.g. "#1F4E78"' },
+                      },
+                    },
+                    freezePanes: {
+                      type: "object",
+                      properties: {
+                        rows: { type: "number", description: "Rows to keep in view at the top, e.g. 1 for the header" },
+                        columns: { type: "number", description: "Columns to keep in view on the left" },
+                      },
+                    },
+                    autoFilter: {
+                      type: "boolean",
+                      description: "Add filter buttons to the header row (default: false)",
+                    },
+                  },
+                  required: ["name", "rows"],
+                },
+                description: "Sheets to write, in tab order",
+              },
+              overwrite: {
+                type: "boolean",
+                description: "Replace filePath if it already exists (default: false)",
+              },
+            },
+            required: ["filePath", "sheets"],
+          },
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name } = request.params;
+
+      if (name === "read_excel") {
+        if (!isValidReadExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid read_excel arguments");
+        }
+
+        try {
+          const data = readExcelFile(request.params.arguments);
+          return {
+            content: renderExcelData(data, request.params.arguments.outputFormat).map(
+              (text): TextContent => ({ type: "text", text }),
+            ),
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "list_sheets") {
+        if (!isValidListSheetsArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid list_sheets arguments");
+        }
+
+        try {
+          const result = await listSheets(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_excel_images") {
+        if (!isValidGetExcelImagesArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_excel_images arguments");
+        }
+
+        try {
+          const { images, truncated } = await extractImages(request.params.arguments);
+          const fileName = request.params.arguments.filePath.split(/[\\/]/).pop() || "";
+
+          const warnings: string[] = [];
+          if (truncated) {
+            warnings.push("Image data was truncated because total size exceeded 10MB limit. Some images were omitted.");
+          }
+
+          // Check for EMF/WMF images
+          const unsupportedFormats = images.filter(
+            (img) => img.mimeType === "image/x-emf" || img.mimeType === "image/x-wmf",
+          );
+          if (unsupportedFormats.length > 0) {
+            warnings.push(
+              `${unsupportedFormats.length} image(s) are in EMF/WMF format, which most clients cannot display: ${unsupportedFormats.map((i) => i.name).join(", ")}`,
+            );
+          }
+
+          const metadata = {
+            fileName,
+            imageCount: images.length,
+            images: images.map(({ name, mimeType, positions }) => ({
+              name,
+              mimeType,
+              positions,
+            })),
+            ...(warnings.length > 0 ? { warnings } : {}),
+          };
+
+          const content: (TextContent | ImageContent)[] = [
+            {
+              type: "text",
+              text: JSON.stringify(metadata, null, 2),
+            },
+          ];
+
+          // Add image content blocks for displayable images
+          for (const img of images) {
+            if (img.mimeType === "image/x-emf" || img.mimeType === "image/x-wmf") {
+              continue; // Skip non-displayable formats
+            }
+            content.push({
+              type: "image",
+              data: img.data,
+              mimeType: img.mimeType,
+            });
+          }
+
+          return { content };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error extracting images: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_formulas") {
+        if (!isValidGetFormulasArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_formulas arguments");
+        }
+
+        try {
+          const result = getFormulas(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_comments") {
+        if (!isValidGetCommentsArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_comments arguments");
+        }
+
+        try {
+          const result = await getComments(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "list_names") {
+        if (!isValidListNamesArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid list_names arguments");
+        }
+
+        try {
+          const result = listNames(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "list_tables") {
+        if (!isValidListTablesArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid list_tables arguments");
+        }
+
+        try {
+          const result = await listTables(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "read_table") {
+        if (!isValidReadTableArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid read_table arguments");
+        }
+
+        try {
+          const data = await readTable(request.params.arguments);
+          return {
+            content: renderExcelData(data, request.params.arguments.outputFormat).map(
+              (text): TextContent => ({ type: "text", text }),
+            ),
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "describe_sheet") {
+        if (!isValidDescribeSheetArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid describe_sheet arguments");
+        }
+
+        try {
+          const result = describeSheet(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "aggregate_excel") {
+        if (!isValidAggregateExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid aggregate_excel arguments");
+        }
+
+        try {
+          const result = aggregateExcel(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "query_excel") {
+        if (!isValidQueryExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid query_excel arguments");
+        }
+
+        try {
+          const result = await queryExcel(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "search_excel") {
+        if (!isValidSearchExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid search_excel arguments");
+        }
+
+        try {
+          const result = searchExcel(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "diff_excel") {
+        if (!isValidDiffExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid diff_excel arguments");
+        }
+
+        try {
+          const result = diffExcel(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_pivot_tables") {
+        if (!isValidGetPivotTablesArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_pivot_tables arguments");
+        }
+
+        try {
+          const result = await getPivotTables(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_charts") {
+        if (!isValidGetChartsArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_charts arguments");
+        }
+
+        try {
+          const result = await getCharts(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "get_workbook_info") {
+        if (!isValidGetWorkbookInfoArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid get_workbook_info arguments");
+        }
+
+        try {
+          const result = await getWorkbookInfo(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error reading Excel file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (name === "write_excel") {
+        if (!isValidWriteExcelArgs(request.params.arguments)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid write_excel arguments");
+        }
+
+        try {
+          const result = await writeExcelFile(request.params.arguments);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error writing Excel file: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
       } else {
@@ -0,0 +1,33 @@
+import * as XLSX from "xlsx";
+
+/**
+ * Merged regions that overlap the block, in order of their top row.
+ */
+export function mergesIn(worksheet: XLSX.WorkSheet, block: XLSX.Range): XLSX.Range[] {
+  return (worksheet["!merges"] || [])
+    .filter((m) => m.s.r <= block.e.r && m.e.r >= block.s.r && m.s.c <= block.e.c && m.e.c >= block.s.c)
+    .sort((a, b) => a.s.r - b.s.r);
+}
+
+/**
+ * Return a copy of the worksheet in which every cell covered by a merged
+ * region holds the region's top-left value. The original sheet is untouched,
+ * since it is shared through the workbook cache.
+ */
+export function fillMergedCells(worksheet: XLSX.WorkSheet): XLSX.WorkSheet {
+  const merges = worksheet["!merges"] || [];
+  if (merges.length === 0) return worksheet;
+
+  const filled: XLSX.WorkSheet = { ...worksheet };
+  for (const merge of merges) {
+    const source: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell(merge.s)];
+    if (!source) continue;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r === merge.s.r && c === merge.s.c) continue;
+        filled[XLSX.utils.encode_cell({ r, c })] = source;
+      }
+    }
+  }
+  return filled;
+}
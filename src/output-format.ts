@@ -0,0 +1,86 @@
+import type { ExcelData, OutputFormat } from "./types.js";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "markdown", "csv", "tsv", "columnar"];
+
+const cellToString = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const escapeCsv = (text: string): string => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+const escapeTsv = (text: string): string => text.replace(/[\t\r\n]+/g, " ");
+
+const escapeMarkdown = (text: string): string => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+function formatLine(format: OutputFormat, cells: string[]): string {
+  switch (format) {
+    case "markdown":
+      return `| ${cells.map(escapeMarkdown).join(" | ")} |\n`;
+    case "csv":
+      return `${cells.map(escapeCsv).join(",")}\n`;
+    case "tsv":
+      return `${cells.map(escapeTsv).join("\t")}\n`;
+    default:
+      return `${JSON.stringify(cells)},`;
+  }
+}
+
+/**
+ * The header line(s) of a table format; empty for the JSON formats, whose
+ * column names are part of the envelope.
+ */
+export function formatHeader(format: OutputFormat, columns: string[]): string {
+  if (format === "json" || format === "columnar") return "";
+  const header = formatLine(format, columns);
+  return format === "markdown" ? `${header}| ${columns.map(() => "---").join(" | ")} |\n` : header;
+}
+
+/**
+ * Build a serializer producing the text a row contributes to a response in
+ * the given format, for chunk sizing and rendering. Returns undefined for
+ * "json", which is sized by the default pretty-printed serializer.
+ */
+export function rowSerializer(
+  format: OutputFormat,
+  columns: string[],
+): ((row: Record<string, unknown>) => string) | undefined {
+  if (format === "json") return undefined;
+  if (format === "columnar") {
+    return (row) => `${JSON.stringify(columns.map((column) => row[column] ?? null))},`;
+  }
+  return (row) =>
+    formatLine(
+      format,
+      columns.map((column) => cellToString(row[column])),
+    );
+}
+
+/**
+ * Render a read_excel result as text blocks. JSON is pretty-printed as before;
+ * "columnar" is compact JSON with `chunk.data` as `{columns, rows}`; the table
+ * formats return the metadata (without `chunk.data`) followed by the table.
+ */
+export function renderExcelData(data: ExcelData, format: OutputFormat = "json"): string[] {
+  if (format === "json") {
+    return [JSON.stringify(data, null, 2)];
+  }
+
+  const { chunk } = data.currentSheet;
+  if (format === "columnar") {
+    const rows = chunk.data.map((row) => chunk.columns.map((column) => row[column] ?? null));
+    return [
+      JSON.stringify({
+        ...data,
+        currentSheet: { ...data.currentSheet, chunk: { ...chunk, data: { columns: chunk.columns, rows } } },
+      }),
+    ];
+  }
+
+  const { data: rows, ...metadata } = chunk;
+  const serialize = rowSerializer(format, chunk.columns) as (row: Record<string, unknown>) => string;
+  const table = formatHeader(format, chunk.columns) + rows.map(serialize).join("");
+  return [JSON.stringify({ ...data, currentSheet: { ...data.currentSheet, chunk: metadata } }, null, 2), table];
+}
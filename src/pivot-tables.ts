@@ -0,0 +1,232 @@
+import { existsSync } from "node:fs";
+import JSZip from "jszip";
+import { planChunk } from "./chunking.js";
+import type {
+  GetPivotTablesArgs,
+  GetPivotTablesResult,
+  PivotDataField,
+  PivotFilter,
+  PivotPageField,
+  PivotSource,
+  PivotTableInfo,
+} from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+import {
+  isZipPackage,
+  listSheetParts,
+  readPart,
+  readRelationships,
+  xmlAttributes,
+  xmlElements,
+} from "./xlsx-package.js";
+
+// Index Excel uses in rowFields/colFields for the pseudo-field holding the data fields
+const VALUES_FIELD = -2;
+
+interface PivotCache {
+  source: PivotSource;
+  fields: string[];
+  /** Shared items per field, which pivot items and cache records refer to by index */
+  sharedItems: unknown[][];
+  recordCount?: number;
+  recordsPath?: string;
+}
+
+const flag = (value: string | undefined): boolean => value === "1" || value === "true";
+
+/**
+ * Value of a cache item element: s(tring), n(umber), b(oolean), d(ate, kept
+ * as its ISO text), e(rror) or m(issing).
+ */
+function itemValue(tag: string, attributes: Record<string, string>): unknown {
+  const { v } = attributes;
+  switch (tag) {
+    case "n":
+      return Number(v);
+    case "b":
+      return flag(v);
+    case "m":
+      return null;
+    default:
+      return v ?? null;
+  }
+}
+
+function cacheItems(xml: string): { tag: string; attributes: Record<string, string> }[] {
+  return [...xml.matchAll(/<(?:\w+:)?(x|s|n|b|d|e|m)\b([^>]*?)\/?>/g)].map((match) => ({
+    tag: match[1],
+    attributes: xmlAttributes(match[2]),
+  }));
+}
+
+async function readPivotCache(zip: JSZip, path: string): Promise<PivotCache> {
+  const xml = (await readPart(zip, path)) ?? "";
+  const cacheSource = xmlElements(xml, "cacheSource")[0];
+  const worksheetSource = xmlElements(cacheSource?.body ?? "", "worksheetSource")[0]?.attributes ?? {};
+  const source: PivotSource = {
+    type: cacheSource?.attributes.type ?? "worksheet",
+    ...(worksheetSource.sheet ? { sheet: worksheetSource.sheet } : {}),
+    ...(worksheetSource.ref ? { range: worksheetSource.ref } : {}),
+    ...(worksheetSource.name ? { name: worksheetSource.name } : {}),
+  };
+
+  const cacheFields = xmlElements(xml, "cacheField");
+  const { recordCount } = xmlElements(xml, "pivotCacheDefinition")[0]?.attributes ?? {};
+  const rels = await readRelationships(zip, path);
+  const recordsRel = rels.find((rel) => !rel.external && rel.type === "pivotCacheRecords");
+  return {
+    source,
+    fields: cacheFields.map((field) => field.attributes.name ?? ""),
+    sharedItems: cacheFields.map((field) => {
+      const shared = xmlElements(field.body, "sharedItems")[0]?.body ?? "";
+      return cacheItems(shared).map((item) => itemValue(item.tag, item.attributes));
+    }),
+    ...(recordCount !== undefined ? { recordCount: Number(recordCount) } : {}),
+    ...(recordsRel ? { recordsPath: recordsRel.target } : {}),
+  };
+}
+
+/**
+ * Cache records as objects keyed by field name. A record holds one item per
+ * cache field, either inline or as an x index into the field's shared items.
+ */
+function parseRecords(xml: string, cache: PivotCache): Record<string, unknown>[] {
+  return xmlElements(xml, "r").map((record) => {
+    const values = cacheItems(record.body).map((item, index) =>
+      item.tag === "x"
+        ? (cache.sharedItems[index]?.[Number(item.attributes.v ?? 0)] ?? null)
+        : itemValue(item.tag, item.attributes),
+    );
+    return Object.fromEntries(cache.fields.map((field, index) => [field, values[index] ?? null]));
+  });
+}
+
+function parsePivotTable(xml: string, sheet: string, cache: PivotCache): PivotTableInfo {
+  const definition = xmlElements(xml, "pivotTableDefinition")[0]?.attributes ?? {};
+  const valuesCaption = definition.dataCaption || "Values";
+  const fieldName = (index: number): string =>
+    index === VALUES_FIELD ? valuesCaption : (cache.fields[index] ?? `Field${index + 1}`);
+
+  // Each pivot field's items point into the cache field's shared items
+  const pivotFields = xmlElements(xmlElements(xml, "pivotFields")[0]?.body ?? "", "pivotField").map((field) =>
+    xmlElements(xmlElements(field.body, "items")[0]?.body ?? "", "item").map((item) => item.attributes),
+  );
+  const itemAt = (fieldIndex: number, itemIndex: number): unknown => {
+    const item = pivotFields[fieldIndex]?.[itemIndex];
+    return item?.x === undefined ? undefined : cache.sharedItems[fieldIndex]?.[Number(item.x)];
+  };
+  const axisFields = (element: string): string[] =>
+    xmlElements(xmlElements(xml, element)[0]?.body ?? "", "field").map((field) =>
+      fieldName(Number(field.attributes.x)),
+    );
+
+  const pageFields = xmlElements(xmlElements(xml, "pageFields")[0]?.body ?? "", "pageField").map(
+    ({ attributes }): PivotPageField => {
+      const fld = Number(attributes.fld);
+      const selected = attributes.item === undefined ? undefined : itemAt(fld, Number(attributes.item));
+      return { field: fieldName(fld), ...(selected !== undefined ? { selectedItem: selected } : {}) };
+    },
+  );
+
+  const dataFields = xmlElements(xmlElements(xml, "dataFields")[0]?.body ?? "", "dataField").map(
+    ({ attributes }): PivotDataField => {
+      const field = fieldName(Number(attributes.fld));
+      const fn = attributes.subtotal ?? "sum";
+      return {
+        name: attributes.name || field,
+        field,
+        function: fn,
+        ...(attributes.showDataAs && attributes.showDataAs !== "normal" ? { showDataAs: attributes.showDataAs } : {}),
+      };
+    },
+  );
+
+  const filters: PivotFilter[] = [];
+  pivotFields.forEach((items, fieldIndex) => {
+    const hiddenItems = items
+      .map((item, itemIndex) => (flag(item.h) && item.t === undefined ? itemAt(fieldIndex, itemIndex) : undefined))
+      .filter((value) => value !== undefined);
+    if (hiddenItems.length > 0) filters.push({ field: fieldName(fieldIndex), type: "manual", hiddenItems });
+  });
+  for (const filter of xmlElements(xmlElements(xml, "filters")[0]?.body ?? "", "filter")) {
+    const { fld, type = "unknown", stringValue1, stringValue2, iMeasureFld } = filter.attributes;
+    // Value and top 10 filters keep their operand in the autoFilter rather than stringValue1
+    const operand =
+      stringValue1 ??
+      xmlElements(filter.body, "customFilter")[0]?.attributes.val ??
+      xmlElements(filter.body, "top10")[0]?.attributes.val;
+    const measure = iMeasureFld === undefined ? undefined : dataFields[Number(iMeasureFld)]?.name;
+    filters.push({
+      field: fieldName(Number(fld)),
+      type,
+      ...(operand !== undefined ? { value: operand } : {}),
+      ...(stringValue2 !== undefined ? { value2: stringValue2 } : {}),
+      ...(measure ? { measure } : {}),
+    });
+  }
+
+  return {
+    name: definition.name ?? "",
+    sheet,
+    location: xmlElements(xml, "location")[0]?.attributes.ref ?? "",
+    source: cache.source,
+    rowFields: axisFields("rowFields"),
+    columnFields: axisFields("colFields"),
+    pageFields,
+    dataFields,
+    filters,
+    cacheFields: cache.fields,
+    ...(cache.recordCount !== undefined ? { recordCount: cache.recordCount } : {}),
+  };
+}
+
+/**
+ * Pivot tables of an .xlsx package with their layout read from the pivot
+ * table parts and their source and fields from the pivot cache. With
+ * includeRecords, each pivot also carries a page of the cache records, which
+ * are the source rows as of the last refresh. Other formats have no pivot tables.
+ */
+export async function getPivotTables(args: GetPivotTablesArgs): Promise<GetPivotTablesResult> {
+  const { filePath, password, sheetName, includeRecords = false, recordStartIndex = 0, maxRecords } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { buffer, workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  if (sheetName && !workbook.SheetNames.includes(sheetName)) {
+    throw new Error(`Sheet not found: ${sheetName}`);
+  }
+
+  const pivotTables: PivotTableInfo[] = [];
+  if (isZipPackage(buffer)) {
+    const zip = await JSZip.loadAsync(buffer);
+    const caches = new Map<string, PivotCache>();
+    for (const part of await listSheetParts(zip)) {
+      if (sheetName && part.name !== sheetName) continue;
+      for (const rel of part.rels) {
+        if (rel.external || rel.type !== "pivotTable") continue;
+        const cacheRel = (await readRelationships(zip, rel.target)).find(
+          (r) => !r.external && r.type === "pivotCacheDefinition",
+        );
+        let cache: PivotCache = { source: { type: "worksheet" }, fields: [], sharedItems: [] };
+        if (cacheRel) {
+          cache = caches.get(cacheRel.target) ?? (await readPivotCache(zip, cacheRel.target));
+          caches.set(cacheRel.target, cache);
+        }
+        const pivot = parsePivotTable((await readPart(zip, rel.target)) ?? "", part.name, cache);
+
+        if (includeRecords && cache.recordsPath) {
+          const records = parseRecords((await readPart(zip, cache.recordsPath)) ?? "", cache);
+          const { rowEnd } = planChunk(records, recordStartIndex, { maxRows: maxRecords }, JSON.stringify(pivot));
+          pivot.records = records.slice(recordStartIndex, rowEnd);
+          pivot.hasMoreRecords = rowEnd < records.length;
+          if (pivot.hasMoreRecords) pivot.nextRecordStartIndex = rowEnd;
+        }
+        pivotTables.push(pivot);
+      }
+    }
+  }
+
+  return { fileName, totalPivotTables: pivotTables.length, pivotTables };
+}
@@ -0,0 +1,121 @@
+import * as XLSX from "xlsx";
+import type { WhereCondition, WhereOperator } from "./types.js";
+
+export const WHERE_OPERATORS: WhereOperator[] = [
+  "=",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "contains",
+  "regex",
+  "isEmpty",
+  "isNotEmpty",
+];
+
+/**
+ * Resolve a column given by name or by letter (e.g. "C") to its column name.
+ * Names win over letters, so a header literally called "A" is still found by name.
+ * `firstCol` is the 0-based sheet column of the first entry in `columns`.
+ */
+export function resolveColumn(column: string, columns: string[], firstCol: number): string {
+  if (columns.includes(column)) return column;
+  if (/^[A-Za-z]{1,3}$/.test(column)) {
+    const index = XLSX.utils.decode_col(column.toUpperCase()) - firstCol;
+    if (index >= 0 && index < columns.length) return columns[index];
+  }
+  throw new Error(`Column not found: ${column}. Available columns: ${columns.join(", ")}`);
+}
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return Number.NaN;
+};
+
+/**
+ * Compare a cell value with a condition value: numerically when both sides
+ * are numbers, by timestamp for dates, otherwise as strings.
+ */
+export function compare(cellValue: unknown, conditionValue: unknown): number {
+  if (cellValue instanceof Date) {
+    const other = conditionValue instanceof Date ? conditionValue : new Date(String(conditionValue));
+    return cellValue.getTime() - other.getTime();
+  }
+  const a = toNumber(cellValue);
+  const b = toNumber(conditionValue);
+  if (!Number.isNaN(a) && !Number.isNaN(b)) {
+    return a - b;
+  }
+  return String(cellValue ?? "").localeCompare(String(conditionValue ?? ""));
+}
+
+function buildPredicate(op: WhereOperator, value: unknown): (cellValue: unknown) => boolean {
+  switch (op) {
+    case "isEmpty":
+      return isEmptyValue;
+    case "isNotEmpty":
+      return (v) => !isEmptyValue(v);
+    case "contains": {
+      const needle = String(value ?? "").toLowerCase();
+      return (v) => !isEmptyValue(v) && String(v).toLowerCase().includes(needle);
+    }
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(String(value ?? ""));
+      } catch (error) {
+        throw new Error(`Invalid regex "${value}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return (v) => !isEmptyValue(v) && pattern.test(String(v));
+    }
+    case "=":
+      return (v) => !isEmptyValue(v) && compare(v, value) === 0;
+    case "!=":
+      return (v) => isEmptyValue(v) || compare(v, value) !== 0;
+    case "<":
+      return (v) => !isEmptyValue(v) && compare(v, value) < 0;
+    case "<=":
+      return (v) => !isEmptyValue(v) && compare(v, value) <= 0;
+    case ">":
+      return (v) => !isEmptyValue(v) && compare(v, value) > 0;
+    case ">=":
+      return (v) => !isEmptyValue(v) && compare(v, value) >= 0;
+  }
+}
+
+/**
+ * Keep the rows matching every condition. Columns are resolved up front so an
+ * unknown column fails even when there are no rows to test.
+ */
+export function filterRows(
+  rows: Record<string, unknown>[],
+  conditions: WhereCondition[],
+  columns: string[],
+  firstCol: number,
+): Record<string, unknown>[] {
+  const tests = conditions.map((condition) => ({
+    column: resolveColumn(condition.column, columns, firstCol),
+    predicate: buildPredicate(condition.op, condition.value),
+  }));
+  return rows.filter((row) => tests.every(({ column, predicate }) => predicate(row[column])));
+}
+
+/**
+ * Reduce each row to the selected columns, in the order they were requested.
+ * The sheet row tag set by sheet_to_json is carried over.
+ */
+export function projectRows(rows: Record<string, unknown>[], selected: string[]): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const projected: Record<string, unknown> = {};
+    Object.defineProperty(projected, "__rowNum__", { value: (row as { __rowNum__?: number }).__rowNum__ });
+    for (const column of selected) {
+      if (column in row) projected[column] = row[column];
+    }
+    return projected;
+  });
+}
@@ -0,0 +1,158 @@
+import { existsSync } from "node:fs";
+import * as XLSX from "xlsx";
+import { resolveSheetBlock } from "./cell-range.js";
+import { planChunk } from "./chunking.js";
+import { commentAt } from "./comments.js";
+import { rowNumber, selectSheetRows } from "./excel-reader.js";
+import { formulaAt } from "./formulas.js";
+import type { SearchExcelArgs, SearchExcelResult, SearchField, SearchMatch, SearchMode } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+
+export const SEARCH_MODES: SearchMode[] = ["text", "number", "regex"];
+
+export const SEARCH_FIELDS: SearchField[] = ["value", "formatted", "formula", "comment"];
+
+const valueText = (value: unknown): string => (value instanceof Date ? value.toISOString() : String(value));
+
+/**
+ * Build the test a piece of cell text must pass: a substring or whole-text
+ * comparison for text queries, a regular expression test for regex queries.
+ */
+function textMatcher(query: string, mode: SearchMode, caseSensitive: boolean, wholeCell: boolean) {
+  if (mode === "regex") {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(wholeCell ? `^(?:${query})$` : query, caseSensitive ? "" : "i");
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return (text: string) => regex.test(wholeCell ? text.trim() : text);
+  }
+
+  const needle = caseSensitive ? query : query.toLowerCase();
+  return (text: string) => {
+    const haystack = caseSensitive ? text : text.toLowerCase();
+    return wholeCell ? haystack.trim() === needle : haystack.includes(needle);
+  };
+}
+
+/**
+ * Find cells whose value, displayed text, formula or comment matches a query,
+ * across all or selected sheets. Number queries compare cell values
+ * numerically and look at nothing else. Each match carries its row keyed by
+ * the sheet's headers, read through the same path as read_excel.
+ */
+export function searchExcel(args: SearchExcelArgs): SearchExcelResult {
+  const {
+    filePath,
+    password,
+    query,
+    mode = "text",
+    sheetNames,
+    searchIn = SEARCH_FIELDS,
+    caseSensitive = false,
+    wholeCell = false,
+    includeRow = true,
+    startIndex = 0,
+    maxResults,
+  } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  for (const sheet of sheetNames ?? []) {
+    if (!workbook.SheetNames.includes(sheet)) {
+      throw new Error(`Sheet not found: ${sheet}`);
+    }
+  }
+  const sheets =
+    sheetNames && sheetNames.length > 0
+      ? workbook.SheetNames.filter((sheet) => sheetNames.includes(sheet))
+      : workbook.SheetNames;
+
+  const target = mode === "number" ? Number(query.trim()) : undefined;
+  if (target !== undefined && (query.trim() === "" || Number.isNaN(target))) {
+    throw new Error(`Not a number: "${query}"`);
+  }
+  const matchesText = textMatcher(query, mode, caseSensitive, wholeCell);
+  const fields = new Set(mode === "number" ? (["value"] as SearchField[]) : searchIn);
+
+  const matches: SearchMatch[] = [];
+  for (const sheet of sheets) {
+    const { worksheet, block } = resolveSheetBlock(workbook, sheet);
+    if (!block) continue;
+
+    // Rows are only read for sheets that have a match
+    let rows: Map<number, Record<string, unknown>> | undefined;
+    const rowAt = (r: number): Record<string, unknown> | undefined => {
+      rows ??= new Map(
+        selectSheetRows({ filePath, password, sheetName: sheet }).rows.map((row) => [rowNumber(row), row]),
+      );
+      return rows.get(r);
+    };
+
+    for (let r = block.s.r; r <= block.e.r; r++) {
+      for (let c = block.s.c; c <= block.e.c; c++) {
+        const address = XLSX.utils.encode_cell({ r, c });
+        const cell: XLSX.CellObject | undefined = worksheet[address];
+        if (!cell) continue;
+
+        const value = cell.t === "z" ? undefined : cell.v;
+        const formatted = value !== undefined && cell.t !== "s" ? XLSX.utils.format_cell(cell) : undefined;
+        const formula = fields.has("formula") ? formulaAt(worksheet, r, c) : undefined;
+        const comment = fields.has("comment") ? commentAt(worksheet, r, c) : undefined;
+
+        const matchedIn: SearchField[] = [];
+        if (fields.has("value") && value !== undefined) {
+          const hit =
+            target !== undefined
+              ? typeof value !== "boolean" &&
+                !(value instanceof Date) &&
+                String(value).trim() !== "" &&
+                Number(value) === target
+              : matchesText(valueText(value));
+          if (hit) matchedIn.push("value");
+        }
+        if (fields.has("formatted") && formatted !== undefined && matchesText(formatted)) {
+          matchedIn.push("formatted");
+        }
+        if (formula && matchesText(formula.formula)) {
+          matchedIn.push("formula");
+        }
+        if (comment && [comment, ...(comment.replies ?? [])].some((entry) => matchesText(entry.text))) {
+          matchedIn.push("comment");
+        }
+        if (matchedIn.length === 0) continue;
+
+        const row = includeRow ? rowAt(r) : undefined;
+        matches.push({
+          sheet,
+          address,
+          matchedIn,
+          value: value ?? null,
+          ...(formatted !== undefined && formatted !== valueText(value) ? { formatted } : {}),
+          ...(formula ? { formula: formula.formula } : {}),
+          ...(comment && matchedIn.includes("comment") ? { comment: comment.text } : {}),
+          ...(row ? { row } : {}),
+        });
+      }
+    }
+  }
+
+  const { rowEnd, sizing } = planChunk(matches, startIndex, { maxRows: maxResults }, "");
+  const hasMore = rowEnd < matches.length;
+
+  return {
+    fileName,
+    query,
+    sheetsSearched: sheets,
+    totalMatches: matches.length,
+    startIndex,
+    matches: matches.slice(startIndex, rowEnd),
+    sizing,
+    hasMore,
+    ...(hasMore ? { nextStartIndex: rowEnd } : {}),
+  };
+}
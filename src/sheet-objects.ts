@@ -0,0 +1,35 @@
+import JSZip from "jszip";
+import { isZipPackage, listSheetParts, readPart, xmlElements } from "./xlsx-package.js";
+
+export interface SheetObjects {
+  /** Package path of the sheet part, e.g. "xl/chartsheets/sheet1.xml" */
+  path: string;
+  tables: number;
+  images: number;
+  charts: number;
+}
+
+/**
+ * Excel tables, pictures and charts per sheet of an .xlsx package, by sheet
+ * name. Only the sheets' relationships and drawing parts are read, not the
+ * media or chart parts themselves. Other formats give an empty map.
+ */
+export async function packageSheetObjects(buffer: Buffer): Promise<Map<string, SheetObjects>> {
+  const objects = new Map<string, SheetObjects>();
+  if (!isZipPackage(buffer)) return objects;
+
+  const zip = await JSZip.loadAsync(buffer);
+  for (const part of await listSheetParts(zip)) {
+    const counts: SheetObjects = { path: part.path, tables: 0, images: 0, charts: 0 };
+    for (const rel of part.rels) {
+      if (rel.external) continue;
+      if (rel.type === "table") counts.tables++;
+      if (rel.type !== "drawing") continue;
+      const drawingXml = (await readPart(zip, rel.target)) ?? "";
+      counts.images += xmlElements(drawingXml, "pic").length;
+      counts.charts += xmlElements(drawingXml, "chart").length;
+    }
+    objects.set(part.name, counts);
+  }
+  return objects;
+}
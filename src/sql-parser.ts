@@ -0,0 +1,547 @@
+/**
+ * Tokenizer and recursive-descent parser for the SELECT dialect query_excel
+ * accepts: joins, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET, DISTINCT,
+ * CASE, CAST, IN, BETWEEN, LIKE, IS NULL and function calls.
+ */
+
+type TokenType = "number" | "string" | "identifier" | "quoted" | "operator" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** Offset of the token in the query text */
+  pos: number;
+  end: number;
+}
+
+export type Expr =
+  | { kind: "literal"; value: unknown }
+  | { kind: "column"; table?: string; name: string }
+  | { kind: "star"; table?: string }
+  | { kind: "unary"; op: "-" | "NOT"; operand: Expr }
+  | { kind: "binary"; op: string; left: Expr; right: Expr }
+  | { kind: "isNull"; operand: Expr; negated: boolean }
+  | { kind: "in"; operand: Expr; list: Expr[]; negated: boolean }
+  | { kind: "between"; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: "like"; operand: Expr; pattern: Expr; negated: boolean }
+  | { kind: "call"; name: string; args: Expr[]; distinct: boolean }
+  | { kind: "case"; operand?: Expr; whens: { when: Expr; result: Expr }[]; otherwise?: Expr }
+  | { kind: "cast"; operand: Expr; type: string };
+
+export interface TableRef {
+  /** Workbook alias, for tables written as alias.table */
+  workbook?: string;
+  name: string;
+  alias?: string;
+}
+
+export interface Join {
+  type: "inner" | "left" | "cross";
+  table: TableRef;
+  on?: Expr;
+  using?: string[];
+}
+
+export interface SelectItem {
+  expr: Expr;
+  alias?: string;
+  /** Source text of the expression, used as the column name when there is no alias */
+  text: string;
+}
+
+export interface SelectStatement {
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableRef;
+  joins: Join[];
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+  orderBy: { expr: Expr; desc: boolean }[];
+  limit?: number;
+  offset?: number;
+}
+
+// Words that end an expression or clause, so they cannot be read as implicit aliases
+const RESERVED = new Set([
+  "SELECT",
+  "DISTINCT",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "BY",
+  "HAVING",
+  "ORDER",
+  "LIMIT",
+  "OFFSET",
+  "JOIN",
+  "INNER",
+  "LEFT",
+  "RIGHT",
+  "FULL",
+  "OUTER",
+  "CROSS",
+  "ON",
+  "USING",
+  "AS",
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "IS",
+  "NULL",
+  "BETWEEN",
+  "LIKE",
+  "CASE",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "END",
+  "ASC",
+  "DESC",
+  "UNION",
+]);
+
+const OPERATORS = ["<=", ">=", "<>", "!=", "||", "=", "<", ">", "+", "-", "*", "/", "%", "(", ")", ",", ".", ";"];
+
+function syntaxError(sql: string, pos: number, message: string): Error {
+  const near = sql.slice(pos, pos + 20).split("\n")[0];
+  return new Error(`SQL syntax error at position ${pos + 1}${near ? ` near "${near}"` : ""}: ${message}`);
+}
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const rest = sql.slice(i);
+    const space = rest.match(/^(\s+|--[^\n]*|\/\*[\s\S]*?\*\/)/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], pos: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === "'" || quote === '"' || quote === "`" || quote === "[") {
+      const close = quote === "[" ? "]" : quote;
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= sql.length) throw syntaxError(sql, i, "unterminated quoted text");
+        if (sql[j] === close) {
+          // A doubled closing quote stands for the quote itself
+          if (close !== "]" && sql[j + 1] === close) {
+            value += close;
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += sql[j++];
+      }
+      tokens.push({ type: quote === "'" ? "string" : "quoted", value, pos: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    const word = rest.match(/^[\p{L}_][\p{L}\p{N}_$]*/u);
+    if (word) {
+      tokens.push({ type: "identifier", value: word[0], pos: i, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) throw syntaxError(sql, i, `unexpected character "${rest[0]}"`);
+    tokens.push({ type: "operator", value: operator, pos: i, end: i + operator.length });
+    i += operator.length;
+  }
+  tokens.push({ type: "eof", value: "", pos: sql.length, end: sql.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly sql: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private error(message: string): Error {
+    return syntaxError(this.sql, this.current.pos, message);
+  }
+
+  private isKeyword(...words: string[]): boolean {
+    return this.current.type === "identifier" && words.includes(this.current.value.toUpperCase());
+  }
+
+  private acceptKeyword(...words: string[]): boolean {
+    if (!this.isKeyword(...words)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(word: string): void {
+    if (!this.acceptKeyword(word)) throw this.error(`expected ${word}`);
+  }
+
+  private isOperator(op: string): boolean {
+    return this.current.type === "operator" && this.current.value === op;
+  }
+
+  private acceptOperator(op: string): boolean {
+    if (!this.isOperator(op)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectOperator(op: string): void {
+    if (!this.acceptOperator(op)) throw this.error(`expected "${op}"`);
+  }
+
+  /** An identifier: a bare word that is not a keyword, or any quoted name */
+  private identifier(what: string): string {
+    const token = this.current;
+    if (token.type === "quoted" || (token.type === "identifier" && !RESERVED.has(token.value.toUpperCase()))) {
+      this.index++;
+      return token.value;
+    }
+    throw this.error(`expected ${what}`);
+  }
+
+  private isIdentifier(): boolean {
+    const token = this.current;
+    return token.type === "quoted" || (token.type === "identifier" && !RESERVED.has(token.value.toUpperCase()));
+  }
+
+  private integer(what: string): number {
+    const token = this.current;
+    if (token.type !== "number" || !/^\d+$/.test(token.value)) throw this.error(`expected ${what}`);
+    this.index++;
+    return Number(token.value);
+  }
+
+  parseStatement(): SelectStatement {
+    this.expectKeyword("SELECT");
+    const distinct = this.acceptKeyword("DISTINCT");
+    if (!distinct) this.acceptKeyword("ALL");
+
+    const columns: SelectItem[] = [];
+    do {
+      columns.push(this.parseSelectItem());
+    } while (this.acceptOperator(","));
+
+    this.expectKeyword("FROM");
+    const from = this.parseTableRef();
+    const joins: Join[] = [];
+    for (;;) {
+      if (this.acceptOperator(",")) {
+        joins.push({ type: "cross", table: this.parseTableRef() });
+        continue;
+      }
+      if (this.isKeyword("RIGHT", "FULL")) {
+        throw this.error(
+          `${this.current.value.toUpperCase()} JOIN is not supported; swap the tables and use LEFT JOIN`,
+        );
+      }
+      let type: Join["type"] | undefined;
+      if (this.acceptKeyword("JOIN")) type = "inner";
+      else if (this.acceptKeyword("INNER")) type = "inner";
+      else if (this.acceptKeyword("LEFT")) {
+        this.acceptKeyword("OUTER");
+        type = "left";
+      } else if (this.acceptKeyword("CROSS")) type = "cross";
+      if (!type) break;
+      if (this.tokens[this.index - 1].value.toUpperCase() !== "JOIN") this.expectKeyword("JOIN");
+
+      const table = this.parseTableRef();
+      if (type === "cross") {
+        joins.push({ type, table });
+      } else if (this.acceptKeyword("ON")) {
+        joins.push({ type, table, on: this.parseExpr() });
+      } else if (this.acceptKeyword("USING")) {
+        this.expectOperator("(");
+        const using: string[] = [];
+        do {
+          using.push(this.identifier("column name"));
+        } while (this.acceptOperator(","));
+        this.expectOperator(")");
+        joins.push({ type, table, using });
+      } else {
+        throw this.error("expected ON or USING");
+      }
+    }
+
+    const where = this.acceptKeyword("WHERE") ? this.parseExpr() : undefined;
+
+    const groupBy: Expr[] = [];
+    if (this.acceptKeyword("GROUP")) {
+      this.expectKeyword("BY");
+      do {
+        groupBy.push(this.parseExpr());
+      } while (this.acceptOperator(","));
+    }
+    const having = this.acceptKeyword("HAVING") ? this.parseExpr() : undefined;
+
+    const orderBy: { expr: Expr; desc: boolean }[] = [];
+    if (this.acceptKeyword("ORDER")) {
+      this.expectKeyword("BY");
+      do {
+        const expr = this.parseExpr();
+        const desc = this.acceptKeyword("DESC");
+        if (!desc) this.acceptKeyword("ASC");
+        orderBy.push({ expr, desc });
+      } while (this.acceptOperator(","));
+    }
+
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.acceptKeyword("LIMIT")) {
+      limit = this.integer("a row count after LIMIT");
+      if (this.acceptOperator(",")) {
+        // MySQL style LIMIT offset, count
+        offset = limit;
+        limit = this.integer("a row count");
+      } else if (this.acceptKeyword("OFFSET")) {
+        offset = this.integer("a row count after OFFSET");
+      }
+    }
+
+    this.acceptOperator(";");
+    if (this.current.type !== "eof") {
+      throw this.error(this.isKeyword("UNION") ? "UNION is not supported" : "unexpected text after the query");
+    }
+    return { distinct, columns, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private parseSelectItem(): SelectItem {
+    const start = this.current.pos;
+    if (this.acceptOperator("*")) {
+      return { expr: { kind: "star" }, text: "*" };
+    }
+    // table.* needs a lookahead, since table.column is an ordinary expression
+    const next = this.tokens[this.index + 1];
+    const afterNext = this.tokens[this.index + 2];
+    if (this.isIdentifier() && next.value === "." && afterNext.value === "*" && afterNext.type === "operator") {
+      const table = this.identifier("table name");
+      this.index += 2;
+      return { expr: { kind: "star", table }, text: `${table}.*` };
+    }
+
+    const expr = this.parseExpr();
+    const text = this.sql.slice(start, this.tokens[this.index - 1].end).trim();
+    if (this.acceptKeyword("AS")) {
+      return { expr, alias: this.identifier("column alias"), text };
+    }
+    if (this.isIdentifier()) {
+      return { expr, alias: this.identifier("column alias"), text };
+    }
+    return { expr, text };
+  }
+
+  private parseTableRef(): TableRef {
+    let name = this.identifier("table name");
+    let workbook: string | undefined;
+    if (this.acceptOperator(".")) {
+      workbook = name;
+      name = this.identifier("table name");
+    }
+    let alias: string | undefined;
+    if (this.acceptKeyword("AS") || this.isIdentifier()) {
+      alias = this.identifier("table alias");
+    }
+    return { ...(workbook ? { workbook } : {}), name, ...(alias ? { alias } : {}) };
+  }
+
+  parseExpr(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("OR")) {
+      left = { kind: "binary", op: "OR", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword("AND")) {
+      left = { kind: "binary", op: "AND", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword("NOT")) {
+      return { kind: "unary", op: "NOT", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseAdditive();
+
+    if (this.acceptKeyword("IS")) {
+      const negated = this.acceptKeyword("NOT");
+      this.expectKeyword("NULL");
+      return { kind: "isNull", operand: left, negated };
+    }
+
+    const negated = this.acceptKeyword("NOT");
+    if (this.acceptKeyword("IN")) {
+      this.expectOperator("(");
+      const list: Expr[] = [];
+      do {
+        list.push(this.parseExpr());
+      } while (this.acceptOperator(","));
+      this.expectOperator(")");
+      return { kind: "in", operand: left, list, negated };
+    }
+    if (this.acceptKeyword("BETWEEN")) {
+      const low = this.parseAdditive();
+      this.expectKeyword("AND");
+      return { kind: "between", operand: left, low, high: this.parseAdditive(), negated };
+    }
+    if (this.acceptKeyword("LIKE")) {
+      return { kind: "like", operand: left, pattern: this.parseAdditive(), negated };
+    }
+    if (negated) throw this.error("expected IN, BETWEEN or LIKE after NOT");
+
+    for (const op of ["=", "<>", "!=", "<=", ">=", "<", ">"]) {
+      if (this.acceptOperator(op)) {
+        return { kind: "binary", op: op === "!=" ? "<>" : op, left, right: this.parseAdditive() };
+      }
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = ["+", "-", "||"].find((o) => this.isOperator(o));
+      if (!op) return left;
+      this.index++;
+      left = { kind: "binary", op, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = ["*", "/", "%"].find((o) => this.isOperator(o));
+      if (!op) return left;
+      this.index++;
+      left = { kind: "binary", op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Expr {
+    if (this.acceptOperator("-")) return { kind: "unary", op: "-", operand: this.parseUnary() };
+    if (this.acceptOperator("+")) return this.parseUnary();
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.current;
+
+    if (token.type === "number") {
+      this.index++;
+      return { kind: "literal", value: Number(token.value) };
+    }
+    if (token.type === "string") {
+      this.index++;
+      return { kind: "literal", value: token.value };
+    }
+    if (this.acceptOperator("(")) {
+      const expr = this.parseExpr();
+      this.expectOperator(")");
+      return expr;
+    }
+    if (this.acceptKeyword("NULL")) return { kind: "literal", value: null };
+    if (this.acceptKeyword("TRUE")) return { kind: "literal", value: true };
+    if (this.acceptKeyword("FALSE")) return { kind: "literal", value: false };
+    if (this.acceptKeyword("CASE")) return this.parseCase();
+
+    if (
+      token.type === "identifier" &&
+      token.value.toUpperCase() === "CAST" &&
+      this.tokens[this.index + 1].value === "("
+    ) {
+      this.index += 2;
+      const operand = this.parseExpr();
+      this.expectKeyword("AS");
+      const type = this.identifier("a type name").toUpperCase();
+      this.expectOperator(")");
+      return { kind: "cast", operand, type };
+    }
+
+    // LEFT and RIGHT are join keywords, but also string functions
+    const word = token.value.toUpperCase();
+    if (
+      token.type === "identifier" &&
+      (!RESERVED.has(word) || word === "LEFT" || word === "RIGHT") &&
+      this.tokens[this.index + 1].value === "("
+    ) {
+      this.index += 2;
+      return this.parseCall(word);
+    }
+
+    if (this.isIdentifier()) {
+      const name = this.identifier("column name");
+      if (this.acceptOperator(".")) {
+        return { kind: "column", table: name, name: this.identifier("column name") };
+      }
+      return { kind: "column", name };
+    }
+
+    if (this.isKeyword("SELECT")) throw this.error("subqueries are not supported");
+    throw this.error(token.type === "eof" ? "unexpected end of query" : "expected an expression");
+  }
+
+  private parseCall(name: string): Expr {
+    if (this.acceptOperator("*")) {
+      this.expectOperator(")");
+      return { kind: "call", name, args: [{ kind: "star" }], distinct: false };
+    }
+    const distinct = this.acceptKeyword("DISTINCT");
+    const args: Expr[] = [];
+    if (!this.isOperator(")")) {
+      do {
+        args.push(this.parseExpr());
+      } while (this.acceptOperator(","));
+    }
+    this.expectOperator(")");
+    return { kind: "call", name, args, distinct };
+  }
+
+  private parseCase(): Expr {
+    const operand = this.isKeyword("WHEN") ? undefined : this.parseExpr();
+    const whens: { when: Expr; result: Expr }[] = [];
+    while (this.acceptKeyword("WHEN")) {
+      const when = this.parseExpr();
+      this.expectKeyword("THEN");
+      whens.push({ when, result: this.parseExpr() });
+    }
+    if (whens.length === 0) throw this.error("expected WHEN");
+    const otherwise = this.acceptKeyword("ELSE") ? this.parseExpr() : undefined;
+    this.expectKeyword("END");
+    return { kind: "case", ...(operand ? { operand } : {}), whens, ...(otherwise ? { otherwise } : {}) };
+  }
+}
+
+export function parseSelect(sql: string): SelectStatement {
+  return new Parser(sql, tokenize(sql)).parseStatement();
+}
@@ -0,0 +1,878 @@
+import { existsSync } from "node:fs";
+import { bucketDate, compareResultValues, percentile } from "./aggregate.js";
+import { planChunk } from "./chunking.js";
+import { distinctKey, inferColumnType } from "./describe-sheet.js";
+import { selectSheetRows } from "./excel-reader.js";
+import { compare, isEmptyValue } from "./row-filter.js";
+import { type Expr, type Join, parseSelect, type TableRef } from "./sql-parser.js";
+import { tableReadRange, workbookTables } from "./tables.js";
+import type { QueryExcelArgs, QueryExcelResult, QueryTableInfo } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+
+type Row = Record<string, unknown>;
+
+/** One source row per table in the FROM clause; null where a LEFT JOIN found no match */
+type JoinedRow = (Row | null)[];
+
+interface Source {
+  /** The name columns are qualified with: the table's alias, or its name */
+  qualifier: string;
+  columns: string[];
+  rows: Row[];
+  /** Lower-cased columns merged into an earlier table by JOIN ... USING */
+  using: Set<string>;
+  info: QueryTableInfo;
+}
+
+interface Context {
+  row: JoinedRow;
+  /** The rows of the current group, when aggregating */
+  group?: JoinedRow[];
+  /** The select list's values, once projected */
+  outputs?: unknown[];
+}
+
+type Evaluator = (ctx: Context) => unknown;
+
+interface Scope {
+  sources: Source[];
+  /** Whether aggregate functions may appear here */
+  aggregates: boolean;
+  /** Select-list names a bare column may fall back to (HAVING and ORDER BY) */
+  aliases?: string[];
+}
+
+const AGGREGATES = new Set(["COUNT", "SUM", "AVG", "MIN", "MAX", "MEDIAN", "GROUP_CONCAT"]);
+
+// Blank cells, including whitespace-only text, are SQL NULL
+const nullable = (value: unknown): unknown => (isEmptyValue(value) ? null : value);
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+  }
+  return null;
+}
+
+const toText = (value: unknown): string => (value instanceof Date ? value.toISOString() : String(value));
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** SQL truth value: true, false or null (unknown) */
+function truth(value: unknown): boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean") return value;
+  if (value instanceof Date) return true;
+  const n = toNumber(value);
+  return n !== null && n !== 0;
+}
+
+const likeCache = new Map<string, RegExp>();
+
+// LIKE matches case-insensitively, with % for any run of characters and _ for one
+function likePattern(pattern: string): RegExp {
+  let regex = likeCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("")
+      .map((ch) => (ch === "%" ? "[\\s\\S]*" : ch === "_" ? "[\\s\\S]" : ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+      .join("");
+    regex = new RegExp(`^${source}$`, "i");
+    likeCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+interface SqlFunction {
+  minArgs: number;
+  maxArgs: number;
+  /** Return null when any argument is null, without calling fn */
+  strict: boolean;
+  fn: (args: unknown[]) => unknown;
+}
+
+const numeric =
+  (fn: (...n: number[]) => number): SqlFunction["fn"] =>
+  (args) => {
+    const numbers = args.map(toNumber);
+    if (numbers.some((n) => n === null)) return null;
+    const result = fn(...(numbers as number[]));
+    return Number.isFinite(result) ? result : null;
+  };
+
+const datePart =
+  (fn: (date: Date) => unknown): SqlFunction["fn"] =>
+  ([value]) => {
+    const date = toDate(value);
+    return date ? fn(date) : null;
+  };
+
+const substring = (text: string, start: number, length?: number): string => {
+  const from = Math.max(start - 1, 0);
+  return length === undefined ? text.slice(from) : text.slice(from, from + Math.max(length, 0));
+};
+
+const defineFunction = (minArgs: number, maxArgs: number, impl: SqlFunction["fn"], strict = true): SqlFunction => ({
+  minArgs,
+  maxArgs,
+  strict,
+  fn: impl,
+});
+
+const FUNCTIONS: Record<string, SqlFunction> = {
+  UPPER: defineFunction(1, 1, ([s]) => toText(s).toUpperCase()),
+  LOWER: defineFunction(1, 1, ([s]) => toText(s).toLowerCase()),
+  TRIM: defineFunction(1, 1, ([s]) => toText(s).trim()),
+  LTRIM: defineFunction(1, 1, ([s]) => toText(s).trimStart()),
+  RTRIM: defineFunction(1, 1, ([s]) => toText(s).trimEnd()),
+  LENGTH: defineFunction(1, 1, ([s]) => toText(s).length),
+  LEN: defineFunction(1, 1, ([s]) => toText(s).length),
+  SUBSTR: defineFunction(2, 3, ([s, start, length]) =>
+    substring(toText(s), toNumber(start) ?? 1, length === undefined ? undefined : (toNumber(length) ?? 0)),
+  ),
+  LEFT: defineFunction(2, 2, ([s, n]) => toText(s).slice(0, Math.max(toNumber(n) ?? 0, 0))),
+  RIGHT: defineFunction(2, 2, ([s, n]) => {
+    const count = Math.max(toNumber(n) ?? 0, 0);
+    return count === 0 ? "" : toText(s).slice(-count);
+  }),
+  REPLACE: defineFunction(3, 3, ([s, from, to]) => toText(s).split(toText(from)).join(toText(to))),
+  INSTR: defineFunction(2, 2, ([s, search]) => toText(s).indexOf(toText(search)) + 1),
+  CONCAT: defineFunction(
+    1,
+    Number.POSITIVE_INFINITY,
+    (args) => args.map((a) => (a === null ? "" : toText(a))).join(""),
+    false,
+  ),
+  COALESCE: defineFunction(1, Number.POSITIVE_INFINITY, (args) => args.find((a) => a !== null) ?? null, false),
+  IFNULL: defineFunction(2, 2, ([a, b]) => a ?? b, false),
+  NULLIF: defineFunction(2, 2, ([a, b]) => (a !== null && b !== null && compare(a, b) === 0 ? null : a), false),
+  IIF: defineFunction(3, 3, ([condition, a, b]) => (truth(condition) ? a : b), false),
+  ABS: defineFunction(1, 1, numeric(Math.abs)),
+  ROUND: defineFunction(
+    1,
+    2,
+    numeric((x, digits = 0) => {
+      const factor = 10 ** Math.trunc(digits);
+      return Math.round(x * factor) / factor;
+    }),
+  ),
+  FLOOR: defineFunction(1, 1, numeric(Math.floor)),
+  CEIL: defineFunction(1, 1, numeric(Math.ceil)),
+  CEILING: defineFunction(1, 1, numeric(Math.ceil)),
+  SQRT: defineFunction(1, 1, numeric(Math.sqrt)),
+  POWER: defineFunction(2, 2, numeric(Math.pow)),
+  MOD: defineFunction(
+    2,
+    2,
+    numeric((a, b) => a % b),
+  ),
+  DATE: defineFunction(
+    1,
+    1,
+    datePart((d) => bucketDate(d, "day")),
+  ),
+  YEAR: defineFunction(
+    1,
+    1,
+    datePart((d) => d.getFullYear()),
+  ),
+  MONTH: defineFunction(
+    1,
+    1,
+    datePart((d) => d.getMonth() + 1),
+  ),
+  DAY: defineFunction(
+    1,
+    1,
+    datePart((d) => d.getDate()),
+  ),
+  QUARTER: defineFunction(
+    1,
+    1,
+    datePart((d) => Math.floor(d.getMonth() / 3) + 1),
+  ),
+};
+FUNCTIONS.SUBSTRING = FUNCTIONS.SUBSTR;
+FUNCTIONS.MID = FUNCTIONS.SUBSTR;
+
+const CASTS: Record<string, (value: unknown) => unknown> = {
+  INTEGER: (value) => {
+    const n = toNumber(value);
+    return n === null ? null : Math.trunc(n);
+  },
+  REAL: toNumber,
+  TEXT: toText,
+  DATE: toDate,
+  BOOLEAN: truth,
+};
+CASTS.INT = CASTS.INTEGER;
+CASTS.BIGINT = CASTS.INTEGER;
+for (const type of ["FLOAT", "DOUBLE", "NUMBER", "NUMERIC", "DECIMAL"]) CASTS[type] = CASTS.REAL;
+for (const type of ["STRING", "VARCHAR", "CHAR"]) CASTS[type] = CASTS.TEXT;
+CASTS.BOOL = CASTS.BOOLEAN;
+
+/** The subexpressions an expression is built from */
+function children(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "unary":
+    case "isNull":
+    case "cast":
+      return [expr.operand];
+    case "binary":
+      return [expr.left, expr.right];
+    case "in":
+      return [expr.operand, ...expr.list];
+    case "between":
+      return [expr.operand, expr.low, expr.high];
+    case "like":
+      return [expr.operand, expr.pattern];
+    case "call":
+      return expr.args;
+    case "case":
+      return [
+        ...(expr.operand ? [expr.operand] : []),
+        ...expr.whens.flatMap(({ when, result }) => [when, result]),
+        ...(expr.otherwise ? [expr.otherwise] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+const containsAggregate = (expr: Expr): boolean =>
+  (expr.kind === "call" && AGGREGATES.has(expr.name)) || children(expr).some(containsAggregate);
+
+// AND-ed conditions, split apart
+const conjuncts = (expr: Expr): Expr[] =>
+  expr.kind === "binary" && expr.op === "AND" ? [...conjuncts(expr.left), ...conjuncts(expr.right)] : [expr];
+
+// Exact spelling first, then case-insensitively, as SQL identifiers are
+function findColumn(columns: string[], name: string): string | undefined {
+  return columns.find((c) => c === name) ?? columns.find((c) => c.toLowerCase() === name.toLowerCase());
+}
+
+function resolveReference(
+  sources: Source[],
+  table: string | undefined,
+  name: string,
+): { index: number; column: string } | undefined {
+  if (table) {
+    const index = sources.findIndex((s) => s.qualifier.toLowerCase() === table.toLowerCase());
+    if (index < 0) {
+      throw new Error(`Unknown table in ${table}.${name}. Tables: ${sources.map((s) => s.qualifier).join(", ")}`);
+    }
+    const column = findColumn(sources[index].columns, name);
+    return column === undefined ? undefined : { index, column };
+  }
+
+  // A USING column belongs to the table it was merged into
+  for (const exact of [true, false]) {
+    const matches = sources.flatMap((source, index) => {
+      const column = exact
+        ? source.columns.find((c) => c === name)
+        : source.columns.find((c) => c.toLowerCase() === name.toLowerCase());
+      return column === undefined || source.using.has(column.toLowerCase()) ? [] : [{ index, column }];
+    });
+    if (matches.length > 1) {
+      throw new Error(
+        `Column ${name} is ambiguous; qualify it with one of: ${matches.map((m) => sources[m.index].qualifier).join(", ")}`,
+      );
+    }
+    if (matches.length === 1) return matches[0];
+  }
+  return undefined;
+}
+
+function columnNotFound(sources: Source[], table: string | undefined, name: string): Error {
+  const available = sources.flatMap((s) => s.columns.map((c) => (sources.length > 1 ? `${s.qualifier}.${c}` : c)));
+  return new Error(`Column not found: ${table ? `${table}.` : ""}${name}. Available columns: ${available.join(", ")}`);
+}
+
+function compileCompare(op: string, left: Evaluator, right: Evaluator): Evaluator {
+  const test: (order: number) => boolean =
+    op === "="
+      ? (o) => o === 0
+      : op === "<>"
+        ? (o) => o !== 0
+        : op === "<"
+          ? (o) => o < 0
+          : op === "<="
+            ? (o) => o <= 0
+            : op === ">"
+              ? (o) => o > 0
+              : (o) => o >= 0;
+  return (ctx) => {
+    const a = left(ctx);
+    const b = right(ctx);
+    return a === null || b === null ? null : test(compare(a, b));
+  };
+}
+
+function compileArithmetic(op: string, left: Evaluator, right: Evaluator): Evaluator {
+  return (ctx) => {
+    const a = toNumber(left(ctx));
+    const b = toNumber(right(ctx));
+    if (a === null || b === null) return null;
+    switch (op) {
+      case "+":
+        return a + b;
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      // Division by zero yields NULL, as in SQLite
+      case "/":
+        return b === 0 ? null : a / b;
+      default:
+        return b === 0 ? null : a % b;
+    }
+  };
+}
+
+function compileAggregate(expr: Extract<Expr, { kind: "call" }>, scope: Scope): Evaluator {
+  const { name, args, distinct } = expr;
+  if (!scope.aggregates) {
+    throw new Error(`${name}() cannot be used in WHERE, ON or GROUP BY, or inside another aggregate`);
+  }
+  if (name === "COUNT" && args.length === 1 && args[0].kind === "star") {
+    return (ctx) => ctx.group?.length ?? 0;
+  }
+  if (args.length !== 1 && !(name === "GROUP_CONCAT" && args.length === 2)) {
+    throw new Error(`${name}() takes ${name === "GROUP_CONCAT" ? "one or two arguments" : "one argument"}`);
+  }
+
+  const inner: Scope = { sources: scope.sources, aggregates: false };
+  const argument = compile(args[0], inner);
+  const separator = args[1] ? compile(args[1], inner) : () => ",";
+
+  return (ctx) => {
+    const group = ctx.group ?? [];
+    let values = group.map((row) => argument({ row })).filter((value) => value !== null);
+    if (distinct) {
+      const seen = new Set<string>();
+      values = values.filter((value) => {
+        const key = distinctKey(value);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    const numbers = values.map(toNumber).filter((n): n is number => n !== null);
+
+    switch (name) {
+      case "COUNT":
+        return values.length;
+      case "SUM":
+        return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) : null;
+      case "AVG":
+        return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+      case "MEDIAN":
+        return percentile(
+          numbers.sort((a, b) => a - b),
+          50,
+        );
+      case "MIN":
+      case "MAX": {
+        const sign = name === "MIN" ? 1 : -1;
+        return values.length > 0 ? values.reduce((best, v) => (sign * compare(v, best) < 0 ? v : best)) : null;
+      }
+      default:
+        return values.length > 0 ? values.map(toText).join(toText(separator(ctx) ?? "")) : null;
+    }
+  };
+}
+
+function compile(expr: Expr, scope: Scope): Evaluator {
+  switch (expr.kind) {
+    case "literal": {
+      const { value } = expr;
+      return () => value;
+    }
+    case "column": {
+      const ref = resolveReference(scope.sources, expr.table, expr.name);
+      if (ref) {
+        const { index, column } = ref;
+        return (ctx) => nullable(ctx.row[index]?.[column]);
+      }
+      const alias =
+        !expr.table && scope.aliases ? scope.aliases.findIndex((a) => a.toLowerCase() === expr.name.toLowerCase()) : -1;
+      if (alias >= 0) return (ctx) => ctx.outputs?.[alias] ?? null;
+      throw columnNotFound(scope.sources, expr.table, expr.name);
+    }
+    case "star":
+      throw new Error("* can only be used in the select list or in COUNT(*)");
+    case "unary": {
+      const operand = compile(expr.operand, scope);
+      if (expr.op === "NOT") {
+        return (ctx) => {
+          const value = truth(operand(ctx));
+          return value === null ? null : !value;
+        };
+      }
+      return (ctx) => {
+        const n = toNumber(operand(ctx));
+        return n === null ? null : -n;
+      };
+    }
+    case "binary": {
+      const left = compile(expr.left, scope);
+      const right = compile(expr.right, scope);
+      switch (expr.op) {
+        case "AND":
+          return (ctx) => {
+            const a = truth(left(ctx));
+            if (a === false) return false;
+            const b = truth(right(ctx));
+            if (b === false) return false;
+            return a === null || b === null ? null : true;
+          };
+        case "OR":
+          return (ctx) => {
+            const a = truth(left(ctx));
+            if (a === true) return true;
+            const b = truth(right(ctx));
+            if (b === true) return true;
+            return a === null || b === null ? null : false;
+          };
+        case "||":
+          return (ctx) => {
+            const a = left(ctx);
+            const b = right(ctx);
+            return a === null || b === null ? null : toText(a) + toText(b);
+          };
+        case "+":
+        case "-":
+        case "*":
+        case "/":
+        case "%":
+          return compileArithmetic(expr.op, left, right);
+        default:
+          return compileCompare(expr.op, left, right);
+      }
+    }
+    case "isNull": {
+      const operand = compile(expr.operand, scope);
+      const { negated } = expr;
+      return (ctx) => (operand(ctx) === null) !== negated;
+    }
+    case "in": {
+      const operand = compile(expr.operand, scope);
+      const list = expr.list.map((item) => compile(item, scope));
+      const { negated } = expr;
+      return (ctx) => {
+        const value = operand(ctx);
+        if (value === null) return null;
+        let unknown = false;
+        for (const item of list) {
+          const candidate = item(ctx);
+          if (candidate === null) unknown = true;
+          else if (compare(value, candidate) === 0) return !negated;
+        }
+        return unknown ? null : negated;
+      };
+    }
+    case "between": {
+      const operand = compile(expr.operand, scope);
+      const low = compile(expr.low, scope);
+      const high = compile(expr.high, scope);
+      const { negated } = expr;
+      return (ctx) => {
+        const value = operand(ctx);
+        const from = low(ctx);
+        const to = high(ctx);
+        if (value === null || from === null || to === null) return null;
+        return (compare(value, from) >= 0 && compare(value, to) <= 0) !== negated;
+      };
+    }
+    case "like": {
+      const operand = compile(expr.operand, scope);
+      const pattern = compile(expr.pattern, scope);
+      const { negated } = expr;
+      return (ctx) => {
+        const value = operand(ctx);
+        const like = pattern(ctx);
+        if (value === null || like === null) return null;
+        return likePattern(toText(like)).test(toText(value)) !== negated;
+      };
+    }
+    case "cast": {
+      const operand = compile(expr.operand, scope);
+      const convert = CASTS[expr.type];
+      if (!convert) throw new Error(`Unknown type in CAST: ${expr.type}`);
+      return (ctx) => {
+        const value = operand(ctx);
+        return value === null ? null : convert(value);
+      };
+    }
+    case "case": {
+      const operand = expr.operand ? compile(expr.operand, scope) : undefined;
+      const whens = expr.whens.map(({ when, result }) => ({
+        when: compile(when, scope),
+        result: compile(result, scope),
+      }));
+      const otherwise = expr.otherwise ? compile(expr.otherwise, scope) : () => null;
+      return (ctx) => {
+        const subject = operand?.(ctx);
+        for (const { when, result } of whens) {
+          const value = when(ctx);
+          const matched = operand
+            ? subject !== null && value !== null && compare(subject, value) === 0
+            : truth(value) === true;
+          if (matched) return result(ctx);
+        }
+        return otherwise(ctx);
+      };
+    }
+    case "call": {
+      if (AGGREGATES.has(expr.name)) return compileAggregate(expr, scope);
+      const definition = FUNCTIONS[expr.name];
+      if (!definition) throw new Error(`Unknown function: ${expr.name}`);
+      if (expr.args.length < definition.minArgs || expr.args.length > definition.maxArgs) {
+        throw new Error(`Wrong number of arguments to ${expr.name}()`);
+      }
+      const args = expr.args.map((arg) => compile(arg, scope));
+      return (ctx) => {
+        const values = args.map((arg) => arg(ctx));
+        if (definition.strict && values.some((value) => value === null)) return null;
+        return nullable(definition.fn(values));
+      };
+    }
+  }
+}
+
+// Join keys compare numbers numerically, so 7 in one sheet meets "7" in another
+function joinKey(values: unknown[]): string | undefined {
+  if (values.some((value) => value === null)) return undefined;
+  return JSON.stringify(
+    values.map((value) => {
+      if (value instanceof Date) return `d:${value.getTime()}`;
+      const n = toNumber(value);
+      return n !== null && typeof value !== "boolean" ? `n:${n}` : `s:${String(value)}`;
+    }),
+  );
+}
+
+/**
+ * Join the rows built so far with the last of `sources`. Equality conditions
+ * between the new table and earlier ones (and USING columns) are matched
+ * through a hash of the new table's rows; anything else falls back to
+ * testing every pair.
+ */
+function joinRows(left: JoinedRow[], join: Join, sources: Source[]): JoinedRow[] {
+  const rightIndex = sources.length - 1;
+  const right = sources[rightIndex];
+  const keys: { left: Evaluator; right: Evaluator }[] = [];
+  let condition: Evaluator | undefined;
+
+  if (join.using) {
+    for (const name of join.using) {
+      const leftRef = resolveReference(sources.slice(0, rightIndex), undefined, name);
+      const rightColumn = findColumn(right.columns, name);
+      if (!leftRef || rightColumn === undefined) {
+        throw new Error(`USING column ${name} must exist on both sides of the join`);
+      }
+      right.using.add(rightColumn.toLowerCase());
+      keys.push({
+        left: (ctx) => nullable(ctx.row[leftRef.index]?.[leftRef.column]),
+        right: (ctx) => nullable(ctx.row[rightIndex]?.[rightColumn]),
+      });
+    }
+  } else if (join.on) {
+    const scope: Scope = { sources, aggregates: false };
+    condition = compile(join.on, scope);
+    for (const conjunct of conjuncts(join.on)) {
+      if (conjunct.kind !== "binary" || conjunct.op !== "=") continue;
+      const [a, b] = [conjunct.left, conjunct.right].map((side) =>
+        side.kind === "column" ? resolveReference(sources, side.table, side.name) : undefined,
+      );
+      if (!a || !b || (a.index === rightIndex) === (b.index === rightIndex)) continue;
+      const [l, r] = a.index === rightIndex ? [conjunct.right, conjunct.left] : [conjunct.left, conjunct.right];
+      keys.push({ left: compile(l, scope), right: compile(r, scope) });
+    }
+  }
+
+  const joined: JoinedRow[] = [];
+  const emit = (leftRow: JoinedRow, candidates: Row[]) => {
+    let matched = false;
+    for (const row of candidates) {
+      const combined = [...leftRow, row];
+      if (!condition || truth(condition({ row: combined })) === true) {
+        joined.push(combined);
+        matched = true;
+      }
+    }
+    if (!matched && join.type === "left") joined.push([...leftRow, null]);
+  };
+
+  if (keys.length === 0) {
+    for (const leftRow of left) emit(leftRow, right.rows);
+    return joined;
+  }
+
+  const buckets = new Map<string, Row[]>();
+  const probe: JoinedRow = sources.map(() => null);
+  for (const row of right.rows) {
+    probe[rightIndex] = row;
+    const key = joinKey(keys.map((k) => k.right({ row: probe })));
+    if (key === undefined) continue;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(row);
+    else buckets.set(key, [row]);
+  }
+  for (const leftRow of left) {
+    const key = joinKey(keys.map((k) => k.left({ row: leftRow })));
+    emit(leftRow, key === undefined ? [] : (buckets.get(key) ?? []));
+  }
+  return joined;
+}
+
+/**
+ * Load the rows a FROM or JOIN table refers to: a sheet of the workbook, or
+ * failing that an Excel table. `alias.name` picks the workbook registered
+ * under that alias; only the main workbook can be password protected.
+ */
+async function loadSource(
+  ref: TableRef,
+  filePath: string,
+  workbooks: Record<string, string>,
+  filePassword?: string,
+): Promise<Source> {
+  let path = filePath;
+  let password = filePassword;
+  if (ref.workbook) {
+    const wanted = ref.workbook.toLowerCase();
+    const alias = Object.keys(workbooks).find((a) => a.toLowerCase() === wanted);
+    if (!alias) {
+      throw new Error(
+        `Unknown workbook: ${ref.workbook}. Workbook aliases: ${Object.keys(workbooks).join(", ") || "(none)"}`,
+      );
+    }
+    path = workbooks[alias];
+    password = undefined;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  const { buffer, workbook } = loadWorkbook(path, password);
+  const sheet = findColumn(workbook.SheetNames, ref.name);
+  let tableName: string | undefined;
+  let selection: ReturnType<typeof selectSheetRows>;
+  if (sheet !== undefined) {
+    selection = selectSheetRows({ filePath: path, password, sheetName: sheet });
+  } else {
+    const tables = await workbookTables(buffer);
+    const table = tables.find((t) => t.name.toLowerCase() === ref.name.toLowerCase());
+    if (!table) {
+      throw new Error(
+        `Table not found: ${ref.name}. Sheets: ${workbook.SheetNames.join(", ")}; Excel tables: ${tables.map((t) => t.name).join(", ") || "(none)"}`,
+      );
+    }
+    tableName = table.name;
+    selection = selectSheetRows(
+      {
+        filePath: path,
+        password,
+        sheetName: table.sheet,
+        range: tableReadRange(table),
+        header: table.hasHeaderRow ? "first" : "none",
+      },
+      { columnNames: table.hasHeaderRow ? undefined : table.columns },
+    );
+  }
+
+  const { columns, rows } = selection;
+  return {
+    qualifier: ref.alias ?? ref.name,
+    columns,
+    rows,
+    using: new Set(),
+    info: {
+      name: ref.workbook ? `${ref.workbook}.${ref.name}` : ref.name,
+      ...(ref.alias ? { alias: ref.alias } : {}),
+      file: path.split(/[\\/]/).pop() || "",
+      sheet: selection.sheetName,
+      ...(tableName ? { table: tableName } : {}),
+      rows: rows.length,
+      columns: columns.map((name) => ({ name, type: inferColumnType(rows.map((row) => row[name])) })),
+    },
+  };
+}
+
+/**
+ * Run a SELECT statement over a workbook's sheets and Excel tables. Each
+ * sheet is a table whose columns are its header row; other workbooks can be
+ * joined in through `workbooks` aliases. The result rows are paginated like
+ * read_excel's chunks, re-running the query for each chunk.
+ */
+export async function queryExcel(args: QueryExcelArgs): Promise<QueryExcelResult> {
+  const { filePath, password, sql, workbooks = {}, startRow = 0, maxRows, maxBytes, maxTokens } = args;
+  const statement = parseSelect(sql);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+
+  const sources: Source[] = [];
+  for (const ref of [statement.from, ...statement.joins.map((join) => join.table)]) {
+    const source = await loadSource(ref, filePath, workbooks, password);
+    if (sources.some((s) => s.qualifier.toLowerCase() === source.qualifier.toLowerCase())) {
+      throw new Error(`Table ${source.qualifier} is used more than once; give each use an alias`);
+    }
+    sources.push(source);
+  }
+
+  let joined: JoinedRow[] = sources[0].rows.map((row) => [row]);
+  statement.joins.forEach((join, i) => {
+    joined = joinRows(joined, join, sources.slice(0, i + 2));
+  });
+
+  const base: Scope = { sources, aggregates: false };
+  if (statement.where) {
+    const where = compile(statement.where, base);
+    joined = joined.filter((row) => truth(where({ row })) === true);
+  }
+
+  // Expand * and table.* into one column per source column; USING columns appear once
+  const items = statement.columns.flatMap((item) => {
+    const { expr } = item;
+    if (expr.kind !== "star") {
+      return [{ expr, name: item.alias ?? (expr.kind === "column" ? expr.name : item.text) }];
+    }
+    const expanded = expr.table
+      ? sources.filter((s) => s.qualifier.toLowerCase() === expr.table?.toLowerCase())
+      : sources;
+    if (expanded.length === 0) throw new Error(`Unknown table in ${expr.table}.*`);
+    return expanded.flatMap((source) =>
+      source.columns
+        .filter((column) => expr.table || !source.using.has(column.toLowerCase()))
+        .map((column) => ({ expr: { kind: "column", table: source.qualifier, name: column } as Expr, name: column })),
+    );
+  });
+
+  const resultColumns: string[] = [];
+  for (const { name } of items) {
+    let unique = name;
+    for (let n = 1; resultColumns.includes(unique); n++) unique = `${name}_${n}`;
+    resultColumns.push(unique);
+  }
+
+  // GROUP BY 2 and GROUP BY alias refer to the select list
+  const selectItem = (expr: Expr): Expr => {
+    if (expr.kind === "literal" && typeof expr.value === "number") {
+      const item = items[expr.value - 1];
+      if (!item) throw new Error(`Position ${expr.value} is not in the select list`);
+      return item.expr;
+    }
+    if (expr.kind === "column" && !expr.table && !resolveReference(sources, undefined, expr.name)) {
+      const item = items.find(({ name }) => name.toLowerCase() === expr.name.toLowerCase());
+      if (item) return item.expr;
+    }
+    return expr;
+  };
+
+  const aggregated =
+    statement.groupBy.length > 0 ||
+    statement.having !== undefined ||
+    items.some(({ expr }) => containsAggregate(expr)) ||
+    statement.orderBy.some(({ expr }) => containsAggregate(expr));
+
+  let contexts: Context[];
+  if (aggregated) {
+    const keys = statement.groupBy.map((expr) => compile(selectItem(expr), base));
+    const groups = new Map<string, JoinedRow[]>();
+    for (const row of joined) {
+      const id = JSON.stringify(keys.map((key) => distinctKey(key({ row }))));
+      const group = groups.get(id);
+      if (group) group.push(row);
+      else groups.set(id, [row]);
+    }
+    // An ungrouped aggregate over no rows still returns one row (COUNT(*) = 0)
+    if (keys.length === 0 && groups.size === 0) groups.set("[]", []);
+    const blank: JoinedRow = sources.map(() => null);
+    contexts = [...groups.values()].map((group) => ({ row: group[0] ?? blank, group }));
+  } else {
+    contexts = joined.map((row) => ({ row }));
+  }
+
+  const projection = items.map(({ expr }) => compile(expr, { sources, aggregates: aggregated }));
+  for (const ctx of contexts) {
+    ctx.outputs = projection.map((evaluate) => evaluate(ctx));
+  }
+
+  if (statement.having) {
+    const having = compile(statement.having, { sources, aggregates: true, aliases: resultColumns });
+    contexts = contexts.filter((ctx) => truth(having(ctx)) === true);
+  }
+
+  if (statement.distinct) {
+    const seen = new Set<string>();
+    contexts = contexts.filter((ctx) => {
+      const id = JSON.stringify((ctx.outputs ?? []).map(distinctKey));
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }
+
+  if (statement.orderBy.length > 0) {
+    // ORDER BY names a select-list column or position first, then any expression
+    const sortKeys = statement.orderBy.map(({ expr, desc }) => {
+      let evaluate: Evaluator;
+      const position =
+        expr.kind === "literal" && typeof expr.value === "number"
+          ? expr.value - 1
+          : expr.kind === "column" && !expr.table
+            ? resultColumns.findIndex((name) => name.toLowerCase() === expr.name.toLowerCase())
+            : -1;
+      if (position >= 0) {
+        if (position >= resultColumns.length) throw new Error(`Position ${position + 1} is not in the select list`);
+        evaluate = (ctx) => ctx.outputs?.[position] ?? null;
+      } else {
+        evaluate = compile(expr, { sources, aggregates: aggregated, aliases: resultColumns });
+      }
+      return { evaluate, desc };
+    });
+
+    const keyed = contexts.map((ctx) => ({ ctx, keys: sortKeys.map(({ evaluate }) => evaluate(ctx)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < sortKeys.length; i++) {
+        const order = compareResultValues(a.keys[i], b.keys[i]);
+        if (order === 0) continue;
+        const blank = isEmptyValue(a.keys[i]) || isEmptyValue(b.keys[i]);
+        return sortKeys[i].desc && !blank ? -order : order;
+      }
+      return 0;
+    });
+    contexts = keyed.map(({ ctx }) => ctx);
+  }
+
+  const offset = statement.offset ?? 0;
+  contexts = contexts.slice(offset, statement.limit === undefined ? undefined : offset + statement.limit);
+
+  const data = contexts.map((ctx) => Object.fromEntries(resultColumns.map((name, i) => [name, ctx.outputs?.[i]])));
+
+  const envelope = JSON.stringify({ columns: resultColumns, nextChunk: { columns: resultColumns } });
+  const { rowEnd, sizing } = planChunk(data, startRow, { maxRows, maxBytes, maxTokens }, envelope);
+  const hasMore = rowEnd < data.length;
+
+  return {
+    fileName,
+    tables: sources.map((source) => source.info),
+    totalRows: data.length,
+    chunk: {
+      rowStart: startRow,
+      rowEnd,
+      columns: resultColumns,
+      data: data.slice(startRow, rowEnd),
+      sizing,
+    },
+    hasMore,
+    ...(hasMore ? { nextChunk: { rowStart: rowEnd, columns: resultColumns } } : {}),
+  };
+}
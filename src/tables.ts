@@ -0,0 +1,116 @@
+import { existsSync } from "node:fs";
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import { readExcelFile } from "./excel-reader.js";
+import type { ExcelData, ExcelTableInfo, ListTablesArgs, ListTablesResult, ReadTableArgs } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+import { isZipPackage, listSheetParts, readPart, xmlAttributes } from "./xlsx-package.js";
+
+// Characters XML cannot carry are written as _xHHHH_ in table column names
+const decodeEscapes = (text: string): string =>
+  text.replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+function parseTable(xml: string, sheet: string): ExcelTableInfo | undefined {
+  const tag = xml.match(/<(?:\w+:)?table\b[^>]*>/)?.[0];
+  if (!tag) return undefined;
+  const { name, displayName, ref, headerRowCount = "1", totalsRowCount = "0" } = xmlAttributes(tag);
+  if (!ref) return undefined;
+
+  const range = XLSX.utils.decode_range(ref);
+  const headerRows = Number(headerRowCount) || 0;
+  const totalsRows = Number(totalsRowCount) || 0;
+  const data = { s: { r: range.s.r + headerRows, c: range.s.c }, e: { r: range.e.r - totalsRows, c: range.e.c } };
+
+  return {
+    name: displayName || name,
+    sheet,
+    range: XLSX.utils.encode_range(range),
+    ...(data.s.r <= data.e.r ? { dataRange: XLSX.utils.encode_range(data) } : {}),
+    columns: [...xml.matchAll(/<(?:\w+:)?tableColumn\b[^>]*>/g)].map((m) =>
+      decodeEscapes(xmlAttributes(m[0]).name ?? ""),
+    ),
+    hasHeaderRow: headerRows > 0,
+    hasTotalsRow: totalsRows > 0,
+  };
+}
+
+/**
+ * The Excel tables (ListObjects) defined in an .xlsx package, in sheet order.
+ * Other formats have none.
+ */
+export async function workbookTables(buffer: Buffer): Promise<ExcelTableInfo[]> {
+  if (!isZipPackage(buffer)) return [];
+  const zip = await JSZip.loadAsync(buffer);
+
+  const tables: ExcelTableInfo[] = [];
+  for (const part of await listSheetParts(zip)) {
+    for (const rel of part.rels) {
+      if (rel.external || rel.type !== "table") continue;
+      const table = parseTable((await readPart(zip, rel.target)) ?? "", part.name);
+      if (table) tables.push(table);
+    }
+  }
+  return tables;
+}
+
+/**
+ * The range to read a table from: its header row and data rows, without the
+ * totals row.
+ */
+export function tableReadRange(table: ExcelTableInfo): string {
+  const range = XLSX.utils.decode_range(table.range);
+  if (table.hasTotalsRow) {
+    range.e.r = table.dataRange ? XLSX.utils.decode_range(table.dataRange).e.r : range.s.r;
+  }
+  return XLSX.utils.encode_range(range);
+}
+
+export async function listTables(args: ListTablesArgs): Promise<ListTablesResult> {
+  const { filePath, password, sheetName } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { buffer, workbook } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  if (sheetName && !workbook.SheetNames.includes(sheetName)) {
+    throw new Error(`Sheet not found: ${sheetName}`);
+  }
+
+  const tables = (await workbookTables(buffer)).filter((table) => !sheetName || table.sheet === sheetName);
+  return { fileName, totalTables: tables.length, tables };
+}
+
+/**
+ * Read the data rows of an Excel table. The table's header row supplies the
+ * column names (its column definitions when it has none) and its totals row
+ * is left out; everything else (filtering, projection, pagination, output
+ * formats) works as in read_excel.
+ */
+export async function readTable(args: ReadTableArgs): Promise<ExcelData> {
+  const { filePath, tableName, ...options } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const tables = await workbookTables(loadWorkbook(filePath, options.password).buffer);
+  const table = tables.find((t) => t.name.toLowerCase() === tableName.toLowerCase());
+  if (!table) {
+    throw new Error(
+      `Table not found: ${tableName}. Available tables: ${tables.map((t) => t.name).join(", ") || "(none)"}`,
+    );
+  }
+
+  const data = readExcelFile(
+    {
+      ...options,
+      filePath,
+      sheetName: table.sheet,
+      range: tableReadRange(table),
+      header: table.hasHeaderRow ? "first" : "none",
+    },
+    { columnNames: table.hasHeaderRow ? undefined : table.columns },
+  );
+  const { name, ...sheetData } = data.currentSheet;
+  return { ...data, currentSheet: { name, table: table.name, ...sheetData } };
+}
@@ -1,14 +1,68 @@
+/** How read_excel renders rows: pretty JSON objects, a table, or column-oriented JSON */
+export type OutputFormat = "json" | "markdown" | "csv" | "tsv" | "columnar";
+
+/**
+ * Which cell values read_excel returns: the underlying values, the text Excel
+ * displays, or both (non-text cells become `{ value, text, format }`)
+ */
+export type ValueMode = "raw" | "formatted" | "both";
+
+/** Whether a sheet shows in Excel's tabs; veryHidden sheets can only be unhidden from VBA */
+export type SheetVisibility = "visible" | "hidden" | "veryHidden";
+
+/** Kind of sheet: a grid of cells, a chart on its own tab, an Excel 4.0 macro sheet or a legacy dialog */
+export type SheetType = "worksheet" | "chartsheet" | "macroSheet" | "dialogSheet";
+
+/** Why a chunk ended: all rows returned, or a row/byte/token limit was reached */
+export type ChunkEndReason = "end" | "maxRows" | "maxBytes" | "maxTokens";
+
+/** The limits a chunk was sized against and what it used */
+export interface ChunkSizing {
+  maxRows?: number;
+  maxBytes?: number;
+  maxTokens?: number;
+  bytes: number;
+  tokens: number;
+  endReason: ChunkEndReason;
+}
+
 export interface ExcelChunk {
   rowStart: number;
   rowEnd: number;
   columns: string[];
+  /** A1 block of the data cells in this chunk, e.g. "C6:H20" */
+  cellRange?: string;
   data: Record<string, unknown>[];
+  /** Present when rows are rendered in a format other than "json" */
+  outputFormat?: OutputFormat;
+  /** 1-based sheet rows in this chunk that are hidden by hand */
+  hiddenRows?: number[];
+  /** 1-based sheet rows in this chunk that the autofilter hides */
+  filteredRows?: number[];
+  sizing: ChunkSizing;
 }
 
 export interface ExcelSheetData {
   name: string;
   totalRows: number;
   totalColumns: number;
+  /** Resolved A1 block that was read (header row included), present when a range was requested */
+  range?: string;
+  /** Defined name the range was resolved from */
+  namedRange?: string;
+  /** Excel table the rows were read from */
+  table?: string;
+  /** A1 block of the header row(s) the column names were taken from */
+  headerRange?: string;
+  /** Merged regions overlapping the chunk's rows (the first chunk also the header's), as A1 ranges */
+  merges?: string[];
+  /** Present when the sheet is not visible */
+  visibility?: SheetVisibility;
+  /** Returned columns that are hidden in the sheet */
+  hiddenColumns?: string[];
+  /** With skipHidden: hidden and filtered-out rows, and hidden columns, left out of the data and counts */
+  skippedRows?: number;
+  skippedColumns?: string[];
   chunk: ExcelChunk;
   hasMore: boolean;
   nextChunk?: {
@@ -23,15 +77,658 @@ export interface ExcelData {
   currentSheet: ExcelSheetData;
 }
 
+/**
+ * How column names are found: "first" uses the first row of the block,
+ * "auto" detects the header row, "none" keys values by column letter.
+ */
+export type HeaderMode = "first" | "auto" | "none";
+
+export type WhereOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains" | "regex" | "isEmpty" | "isNotEmpty";
+
+export interface WhereCondition {
+  /** Column name or letter */
+  column: string;
+  op: WhereOperator;
+  value?: unknown;
+}
+
 export interface ReadExcelArgs {
   filePath: string;
+  /** Password to open an encrypted workbook */
+  password?: string;
   sheetName?: string;
+  /** A1 range such as "C5:H40", "Sheet1!C5:H40" or "B:D"; headers are looked up within it */
+  range?: string;
+  header?: HeaderMode;
+  /** 1-based sheet row holding the headers; takes precedence over header detection */
+  headerRow?: number;
+  /** Number of stacked header rows to join into one name, e.g. "Q1 / Revenue" */
+  headerRows?: number;
+  /** Columns to return, by name or letter, in the order given */
+  columns?: string[];
+  /** Conditions a row must all satisfy; applied before pagination */
+  where?: WhereCondition[];
   startRow?: number;
   maxRows?: number;
+  /** Byte budget for the response (defaults to 100KB when no token budget is given) */
+  maxBytes?: number;
+  /** Approximate token budget for the response */
+  maxTokens?: number;
+  outputFormat?: OutputFormat;
+  /** Return formula cells as `{ value, formula }` objects */
+  includeFormulas?: boolean;
+  valueMode?: ValueMode;
+  /** Copy each merged region's value into every cell it covers */
+  fillMerged?: boolean;
+  /** Return linked cells as `{ value, hyperlink }` objects */
+  includeHyperlinks?: boolean;
+  /** Return commented cells as `{ value, comment }` objects */
+  includeComments?: boolean;
+  /** Defined name to read instead of `range`, e.g. "Inputs_Region" */
+  namedRange?: string;
+  /** Leave out hidden rows and columns and rows the autofilter hides; defaults to the first visible sheet */
+  skipHidden?: boolean;
+}
+
+/** The arguments that pick a sheet block and how its rows are read */
+export type SheetSelectionArgs = Pick<
+  ReadExcelArgs,
+  | "filePath"
+  | "password"
+  | "sheetName"
+  | "range"
+  | "namedRange"
+  | "header"
+  | "headerRow"
+  | "headerRows"
+  | "valueMode"
+  | "fillMerged"
+>;
+
+export interface CellHyperlink {
+  type: "external" | "email" | "internal";
+  /** URL, mailto: address, or workbook location such as "Sheet2!A1" */
+  target: string;
+  tooltip?: string;
+  /** Set when the link comes from a HYPERLINK() formula */
+  fromFormula?: boolean;
+}
+
+export interface FormulaCell {
+  address: string;
+  /** Formula text with its leading "=" */
+  formula: string;
+  /** Range of the enclosing array formula */
+  array?: string;
+  /** Cached result of the last calculation */
+  value: unknown;
+}
+
+export interface GetFormulasArgs {
+  filePath: string;
+  password?: string;
+  sheetName?: string;
+  range?: string;
+  startIndex?: number;
+  maxResults?: number;
+}
+
+export interface GetFormulasResult {
+  fileName: string;
+  sheet: string;
+  range?: string;
+  totalFormulas: number;
+  startIndex: number;
+  formulas: FormulaCell[];
+  sizing: ChunkSizing;
+  hasMore: boolean;
+  nextStartIndex?: number;
+}
+
+export interface CommentReply {
+  author?: string;
+  text: string;
+  /** ISO 8601 time the comment was posted; only threaded comments record one */
+  timestamp?: string;
+}
+
+export interface CellComment extends CommentReply {
+  address: string;
+  /** Threaded comment (with a reply chain) rather than a legacy note */
+  threaded: boolean;
+  /** Set when a threaded comment has been marked resolved */
+  resolved?: boolean;
+  replies?: CommentReply[];
+}
+
+export interface SheetComments {
+  sheet: string;
+  comments: CellComment[];
+}
+
+export interface GetCommentsArgs {
+  filePath: string;
+  password?: string;
+  sheetName?: string;
+}
+
+export interface GetCommentsResult {
+  fileName: string;
+  totalComments: number;
+  sheets: SheetComments[];
+}
+
+export interface DefinedNameInfo {
+  name: string;
+  scope: "workbook" | "sheet";
+  /** Sheet a sheet-scoped name belongs to */
+  scopeSheet?: string;
+  /** Reference formula, e.g. "=Inputs!$B$2" or "=OFFSET(Data!$A$1,0,0,COUNTA(Data!$A:$A),1)" */
+  formula: string;
+  hidden: boolean;
+  comment?: string;
+  /** Target sheet, when the formula is a single range on one sheet */
+  sheet?: string;
+  /** Target range without "$" markers, e.g. "B2" or "A1:C10" */
+  range?: string;
+}
+
+export interface ListNamesArgs {
+  filePath: string;
+  password?: string;
+}
+
+export interface ListNamesResult {
+  fileName: string;
+  totalNames: number;
+  names: DefinedNameInfo[];
+}
+
+export interface ExcelTableInfo {
+  name: string;
+  sheet: string;
+  /** Whole table, header and totals rows included, e.g. "B3:E8" */
+  range: string;
+  /** Data rows only; absent when the table has none */
+  dataRange?: string;
+  columns: string[];
+  hasHeaderRow: boolean;
+  hasTotalsRow: boolean;
+}
+
+export interface ListTablesArgs {
+  filePath: string;
+  password?: string;
+  sheetName?: string;
+}
+
+export interface ListTablesResult {
+  fileName: string;
+  totalTables: number;
+  tables: ExcelTableInfo[];
+}
+
+export interface ReadTableArgs
+  extends Omit<
+    ReadExcelArgs,
+    "sheetName" | "range" | "namedRange" | "header" | "headerRow" | "headerRows" | "fillMerged"
+  > {
+  /** Table name, matched case-insensitively */
+  tableName: string;
+}
+
+export type ColumnType = "number" | "integer" | "date" | "boolean" | "text" | "mixed" | "empty";
+
+export interface ColumnProfile {
+  name: string;
+  /** Sheet column letter */
+  column: string;
+  type: ColumnType;
+  /** Non-blank values */
+  count: number;
+  /** Rows where the cell is missing, empty or whitespace */
+  nullCount: number;
+  distinctCount: number;
+  /** Numeric statistics, over the column's number values */
+  min?: number;
+  max?: number;
+  mean?: number;
+  /** Earliest and latest date values, as ISO strings */
+  dateRange?: { min: string; max: string };
+  /** Most frequent values, most frequent first */
+  topValues: { value: unknown; count: number }[];
+  /** First distinct values in sheet order */
+  samples: unknown[];
+}
+
+export interface DescribeSheetArgs extends SheetSelectionArgs {
+  /** Only profile these columns, by header name or letter */
+  columns?: string[];
+  /** Number of frequent values to report per column (default 5) */
+  topN?: number;
+  /** Number of sample values per column (default 3) */
+  sampleSize?: number;
+}
+
+export interface DescribeSheetResult {
+  fileName: string;
+  sheet: string;
+  range?: string;
+  namedRange?: string;
+  headerRange?: string;
+  totalRows: number;
+  totalColumns: number;
+  columns: ColumnProfile[];
+}
+
+export type DateBucket = "day" | "week" | "month" | "quarter" | "year";
+
+export interface GroupColumn {
+  /** Column name or letter */
+  column: string;
+  /** Group date values by period, e.g. "2024-Q1" for quarter */
+  bucket?: DateBucket;
+}
+
+export type AggregateFunction = "sum" | "count" | "countDistinct" | "avg" | "min" | "max" | "median" | "percentile";
+
+export interface Aggregation {
+  fn: AggregateFunction;
+  /** Column name or letter; optional for count, which then counts rows */
+  column?: string;
+  /** Percentile to compute for "percentile", from 0 to 100 */
+  percentile?: number;
+  /** Result column name (defaults to e.g. "sum(Revenue)") */
+  as?: string;
+}
+
+export interface AggregateExcelArgs extends SheetSelectionArgs {
+  groupBy?: (string | GroupColumn)[];
+  aggregations: Aggregation[];
+  /** Conditions a source row must all satisfy to be aggregated */
+  where?: WhereCondition[];
+  /** Spread the aggregations across one result column per value of this column */
+  pivot?: string | GroupColumn;
+  /** Sort the result by these result columns (defaults to the group columns, ascending) */
+  orderBy?: { column: string; direction?: "asc" | "desc" }[];
+  startRow?: number;
+  maxRows?: number;
+  maxBytes?: number;
+  maxTokens?: number;
+}
+
+export interface AggregateExcelResult {
+  fileName: string;
+  sheet: string;
+  range?: string;
+  namedRange?: string;
+  /** Source rows that passed the filters */
+  matchedRows: number;
+  /** Result rows (one per group) */
+  totalRows: number;
+  /** Pivot column values, in result column order */
+  pivotValues?: string[];
+  chunk: ExcelChunk;
+  hasMore: boolean;
+  nextChunk?: {
+    rowStart: number;
+    columns: string[];
+  };
+}
+
+export interface QueryExcelArgs {
+  /** Workbook whose sheets and Excel tables the query names directly */
+  filePath: string;
+  /** Password of filePath; workbooks named by alias cannot be encrypted */
+  password?: string;
+  /** SELECT statement to run */
+  sql: string;
+  /** Further workbooks by alias; their tables are named as alias.table */
+  workbooks?: Record<string, string>;
+  startRow?: number;
+  maxRows?: number;
+  maxBytes?: number;
+  maxTokens?: number;
+}
+
+export interface QueryTableInfo {
+  /** The table as the query named it */
+  name: string;
+  alias?: string;
+  file: string;
+  sheet: string;
+  /** The Excel table the rows came from, when the name matched one rather than a sheet */
+  table?: string;
+  rows: number;
+  columns: { name: string; type: ColumnType }[];
+}
+
+export interface QueryExcelResult {
+  fileName: string;
+  /** Schema of each table the query read */
+  tables: QueryTableInfo[];
+  /** Result rows, after LIMIT and OFFSET */
+  totalRows: number;
+  chunk: ExcelChunk;
+  hasMore: boolean;
+  nextChunk?: {
+    rowStart: number;
+    columns: string[];
+  };
+}
+
+export type SearchMode = "text" | "number" | "regex";
+
+export type SearchField = "value" | "formatted" | "formula" | "comment";
+
+export interface SearchExcelArgs {
+  filePath: string;
+  password?: string;
+  /** Text, number or regular expression to look for */
+  query: string;
+  mode?: SearchMode;
+  /** Sheets to search (defaults to all) */
+  sheetNames?: string[];
+  /** What to match against (defaults to all of them) */
+  searchIn?: SearchField[];
+  caseSensitive?: boolean;
+  /** Match the whole text rather than any part of it */
+  wholeCell?: boolean;
+  /** Attach each match's row, keyed by the sheet's headers (default true) */
+  includeRow?: boolean;
+  startIndex?: number;
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  sheet: string;
+  address: string;
+  /** Which of the cell's value, formatted text, formula and comment matched */
+  matchedIn: SearchField[];
+  value: unknown;
+  /** Displayed text, when it differs from the value */
+  formatted?: string;
+  formula?: string;
+  comment?: string;
+  /** The cell's row keyed by the sheet's headers; absent for header cells */
+  row?: Record<string, unknown>;
+}
+
+export interface SearchExcelResult {
+  fileName: string;
+  query: string;
+  sheetsSearched: string[];
+  totalMatches: number;
+  startIndex: number;
+  matches: SearchMatch[];
+  sizing: ChunkSizing;
+  hasMore: boolean;
+  nextStartIndex?: number;
+}
+
+export interface DiffExcelArgs {
+  /** The original workbook */
+  filePath: string;
+  password?: string;
+  /** The changed workbook (defaults to filePath, to compare two of its sheets) */
+  otherFilePath?: string;
+  /** Password of otherFilePath (defaults to password) */
+  otherPassword?: string;
+  /** Compare only this sheet of the original workbook */
+  sheetName?: string;
+  /** The sheet to compare it with (defaults to sheetName) */
+  otherSheetName?: string;
+  /** Match rows by these columns instead of by position */
+  keyColumns?: string[];
+  /** Report formula changes as well as value changes (default true) */
+  compareFormulas?: boolean;
+  startIndex?: number;
+  maxResults?: number;
+}
+
+export interface SheetDiffSummary {
+  sheet: string;
+  /** The sheet compared with, when its name differs */
+  otherSheet?: string;
+  matchedBy: "position" | "key";
+  columnsAdded: string[];
+  columnsRemoved: string[];
+  rowsAdded: number;
+  rowsRemoved: number;
+  /** Matched rows with at least one changed cell */
+  rowsChanged: number;
+  cellsChanged: number;
+  formulasChanged: number;
+}
+
+export interface DiffChange {
+  type: "rowAdded" | "rowRemoved" | "cellChanged";
+  sheet: string;
+  /** 1-based row in the original sheet */
+  oldRow?: number;
+  /** 1-based row in the changed sheet */
+  newRow?: number;
+  /** Key column values of the row, when matching by key */
+  key?: Record<string, unknown>;
+  /** The whole row, for added and removed rows */
+  values?: Record<string, unknown>;
+  column?: string;
+  /** Address of the changed cell in the changed sheet */
+  address?: string;
+  /** Address of the cell in the original sheet, when it moved */
+  oldAddress?: string;
+  before?: unknown;
+  after?: unknown;
+  formulaBefore?: string;
+  formulaAfter?: string;
+}
+
+export interface DiffExcelResult {
+  fileName: string;
+  otherFileName: string;
+  identical: boolean;
+  sheetsAdded: string[];
+  sheetsRemoved: string[];
+  sheets: SheetDiffSummary[];
+  totalChanges: number;
+  startIndex: number;
+  changes: DiffChange[];
+  sizing: ChunkSizing;
+  hasMore: boolean;
+  nextStartIndex?: number;
+}
+
+export interface PivotSource {
+  /** Cache source type: "worksheet", "external", "consolidation" or "scenario" */
+  type: string;
+  sheet?: string;
+  range?: string;
+  /** Excel table or defined name the pivot reads instead of a range */
+  name?: string;
+}
+
+export interface PivotPageField {
+  field: string;
+  /** Item the report filter shows; absent when it shows all items */
+  selectedItem?: unknown;
+}
+
+export interface PivotDataField {
+  name: string;
+  field: string;
+  /** Aggregation: sum, count, average, max, min, product, countNums, stdDev, stdDevp, var or varp */
+  function: string;
+  /** "Show values as" calculation, e.g. percentOfTotal; absent for plain values */
+  showDataAs?: string;
+}
+
+export interface PivotFilter {
+  field: string;
+  /** "manual" for items unticked in the field's list, otherwise the label, value or date filter type */
+  type: string;
+  hiddenItems?: unknown[];
+  value?: string;
+  value2?: string;
+  /** Data field a value filter tests */
+  measure?: string;
+}
+
+export interface PivotTableInfo {
+  name: string;
+  sheet: string;
+  /** Range the pivot occupies, e.g. "A3:C8" */
+  location: string;
+  source: PivotSource;
+  /** Fields in layout order; "Values" stands for the data fields when they sit on an axis */
+  rowFields: string[];
+  columnFields: string[];
+  pageFields: PivotPageField[];
+  dataFields: PivotDataField[];
+  filters: PivotFilter[];
+  /** Names of the fields in the pivot cache, in cache order */
+  cacheFields: string[];
+  recordCount?: number;
+  /** Cache records keyed by field name, with includeRecords */
+  records?: Record<string, unknown>[];
+  hasMoreRecords?: boolean;
+  /** recordStartIndex to pass for the records after these */
+  nextRecordStartIndex?: number;
+}
+
+export interface GetPivotTablesArgs {
+  filePath: string;
+  password?: string;
+  sheetName?: string;
+  includeRecords?: boolean;
+  /** Index of the first cache record to return per pivot table (0-based) */
+  recordStartIndex?: number;
+  /** Most records to return per pivot table */
+  maxRecords?: number;
+}
+
+export interface GetPivotTablesResult {
+  fileName: string;
+  totalPivotTables: number;
+  pivotTables: PivotTableInfo[];
+}
+
+export interface ChartAxis {
+  /** "category", "value", "date" or "series" */
+  kind: string;
+  /** Side of the plot area: "b", "l", "t" or "r" */
+  position?: string;
+  title?: string;
+}
+
+export interface ChartSeries {
+  name?: string;
+  /** Cell the name comes from, e.g. "Sales!$B$1" */
+  nameRef?: string;
+  /** Category (x) references and cached values; scatter and bubble charts use x values */
+  categoriesRef?: string;
+  categories?: unknown[];
+  valuesRef?: string;
+  values?: unknown[];
+  /** Bubble charts only */
+  sizesRef?: string;
+  sizes?: unknown[];
+  /** Chart type of this series, in combo charts only */
+  type?: string;
+}
+
+export interface ChartInfo {
+  sheet: string;
+  /** Drawing object name, e.g. "Chart 1" */
+  name?: string;
+  /** Cells the chart covers, e.g. "E2:L18"; absent for absolutely positioned charts */
+  anchor?: string;
+  /** e.g. "column", "bar", "line", "pie", "scatter", "area3D", or "combo" when several types share the plot */
+  type: string;
+  title?: string;
+  axes: ChartAxis[];
+  series: ChartSeries[];
+}
+
+export interface GetChartsArgs {
+  filePath: string;
+  password?: string;
+  sheetName?: string;
+}
+
+export interface GetChartsResult {
+  fileName: string;
+  totalCharts: number;
+  charts: ChartInfo[];
+}
+
+/** Document properties shared by .xlsx (docProps parts) and .xls (OLE property sets) */
+export interface WorkbookProperties {
+  title?: string;
+  subject?: string;
+  author?: string;
+  lastModifiedBy?: string;
+  /** ISO 8601 timestamps */
+  created?: string;
+  modified?: string;
+  lastPrinted?: string;
+  keywords?: string;
+  description?: string;
+  category?: string;
+  company?: string;
+  manager?: string;
+  /** Application that last saved the file and its version, e.g. "Microsoft Excel" and "16.0300" */
+  application?: string;
+  appVersion?: string;
+  revision?: string;
+}
+
+export interface WorkbookFormat {
+  /** e.g. "xlsx", "xlsm", "xlsb", "xls", "ods", "csv" */
+  type: string;
+  /** "zip" for Open XML and OpenDocument packages, "cfb" for .xls compound files, "none" for text formats */
+  container: "zip" | "cfb" | "none";
+  /** BIFF version of .xls workbooks: 8 for Excel 97-2003, 5 for Excel 5.0/95 */
+  biffVersion?: number;
+  hasMacros: boolean;
+  fileSize: number;
+}
+
+/** How a workbook is encrypted: ECMA-376 Agile or Standard for Open XML, RC4, RC4 CryptoAPI or XOR for .xls */
+export type EncryptionType = "agile" | "standard" | "rc4" | "rc4CryptoApi" | "xor";
+
+export interface WorkbookProtection {
+  /** Encryption of a file that needs a password to open */
+  encryption?: EncryptionType;
+  /** Sheets cannot be added, moved, renamed, hidden or deleted */
+  structure: boolean;
+  /** Workbook window size and position are locked */
+  windows: boolean;
+  /** Sheets whose locked cells cannot be edited */
+  protectedSheets: string[];
+}
+
+export interface GetWorkbookInfoArgs {
+  filePath: string;
+  password?: string;
+}
+
+export interface GetWorkbookInfoResult {
+  fileName: string;
+  format: WorkbookFormat;
+  properties: WorkbookProperties;
+  /** User-defined properties from File > Properties > Custom */
+  customProperties: Record<string, unknown>;
+  /** 1904 for workbooks using the Mac date system, where serial 0 is 1904-01-01 */
+  dateSystem: 1900 | 1904;
+  /** "auto", "manual" or "autoNoTable" (automatic except data tables) */
+  calcMode: string;
+  protection: WorkbookProtection;
+  sheetCount: number;
 }
 
 export interface ListSheetsArgs {
   filePath: string;
+  password?: string;
 }
 
 export interface ImagePosition {
@@ -51,5 +748,62 @@ export interface ExtractedImage {
 
 export interface GetExcelImagesArgs {
   filePath: string;
+  password?: string;
   sheetName?: string;
 }
+
+export interface HeaderStyle {
+  /** Bold header text (default: true) */
+  bold?: boolean;
+  /** Background color as "#RRGGBB" */
+  fillColor?: string;
+  /** Text color as "#RRGGBB" */
+  fontColor?: string;
+}
+
+export interface FreezePanes {
+  /** Rows kept in view at the top, usually 1 for the header */
+  rows?: number;
+  /** Columns kept in view on the left */
+  columns?: number;
+}
+
+export interface WriteSheet {
+  name: string;
+  /** Row objects keyed by column name, or arrays of values (the first array is the header unless columns is given) */
+  rows: (Record<string, unknown> | unknown[])[];
+  /** Column order for object rows, or header names for array rows */
+  columns?: string[];
+  /** Widths in characters by column name; other columns are sized to their contents */
+  columnWidths?: Record<string, number>;
+  /** Excel number formats by column name, e.g. "#,##0.00" or "yyyy-mm-dd" */
+  numberFormats?: Record<string, string>;
+  headerStyle?: HeaderStyle;
+  freezePanes?: FreezePanes;
+  /** Add filter buttons to the header row */
+  autoFilter?: boolean;
+}
+
+export interface WriteExcelArgs {
+  /** Path of the .xlsx or .csv file to create */
+  filePath: string;
+  sheets: WriteSheet[];
+  /** Replace the file if it already exists */
+  overwrite?: boolean;
+}
+
+export interface WrittenSheet {
+  name: string;
+  columns: string[];
+  /** Data rows written below the header */
+  rowCount: number;
+  /** A1 block holding the header and data */
+  range: string;
+}
+
+export interface WriteExcelResult {
+  filePath: string;
+  format: "xlsx" | "csv";
+  fileSize: number;
+  sheets: WrittenSheet[];
+}
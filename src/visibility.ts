@@ -0,0 +1,36 @@
+import * as XLSX from "xlsx";
+import type { SheetVisibility } from "./types.js";
+
+const SHEET_STATES: SheetVisibility[] = ["visible", "hidden", "veryHidden"];
+
+/**
+ * Visibility of a sheet as stored in the workbook: "hidden" sheets can be
+ * unhidden from Excel's menu, "veryHidden" ones only from VBA.
+ */
+export function sheetVisibility(workbook: XLSX.WorkBook, sheetName: string): SheetVisibility {
+  const index = workbook.SheetNames.indexOf(sheetName);
+  return SHEET_STATES[workbook.Workbook?.Sheets?.[index]?.Hidden ?? 0] ?? "visible";
+}
+
+/**
+ * The sheet Excel users see first when no sheet is named: the first visible one.
+ */
+export const firstVisibleSheet = (workbook: XLSX.WorkBook): string | undefined =>
+  workbook.SheetNames.find((name) => sheetVisibility(workbook, name) === "visible");
+
+export const isRowHidden = (worksheet: XLSX.WorkSheet, r: number): boolean => Boolean(worksheet["!rows"]?.[r]?.hidden);
+
+export const isColumnHidden = (worksheet: XLSX.WorkSheet, c: number): boolean =>
+  Boolean(worksheet["!cols"]?.[c]?.hidden);
+
+/**
+ * Whether a hidden row was hidden by the sheet's autofilter rather than by
+ * hand. Excel stores both the same way, so rows hidden below the autofilter's
+ * header row count as filtered out.
+ */
+export function isRowFiltered(worksheet: XLSX.WorkSheet, r: number): boolean {
+  const ref = worksheet["!autofilter"]?.ref;
+  if (!ref || !isRowHidden(worksheet, r)) return false;
+  const range = XLSX.utils.decode_range(ref);
+  return r > range.s.r && r <= range.e.r;
+}
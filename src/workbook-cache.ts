@@ -0,0 +1,148 @@
+import { readFileSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import * as XLSX from "xlsx";
+import { decryptWorkbook } from "./encryption.js";
+import type { EncryptionType } from "./types.js";
+
+const DEFAULT_CACHE_MB = 512;
+// Parsed workbooks take several times the file size in memory
+const WORKBOOK_SIZE_FACTOR = 8;
+// Rough per-cell cost of a materialized row object
+const ROW_CELL_SIZE = 64;
+
+export interface CachedWorkbook {
+  filePath: string;
+  /** The workbook's bytes, decrypted when the file is password protected */
+  buffer: Buffer;
+  workbook: XLSX.WorkBook;
+  encryption?: EncryptionType;
+  /** Materialized sheet rows, keyed by the caller (sheet, block and header options) */
+  rows: Map<string, unknown>;
+}
+
+interface CacheEntry {
+  size: number;
+  mtimeMs: number;
+  /** Password the entry was decrypted with, which later calls must match */
+  password?: string;
+  bytes: number;
+  value: CachedWorkbook;
+}
+
+const readCacheLimit = (): number => {
+  const mb = Number(process.env.EXCEL_READER_CACHE_MB ?? DEFAULT_CACHE_MB);
+  return Number.isFinite(mb) && mb >= 0 ? mb * 1024 * 1024 : DEFAULT_CACHE_MB * 1024 * 1024;
+};
+
+// Insertion order doubles as recency order: entries are re-inserted on every hit
+const entries: Map<string, CacheEntry> = new Map();
+let maxBytes = readCacheLimit();
+let totalBytes = 0;
+
+function evict(path: string): void {
+  const entry = entries.get(path);
+  if (!entry) return;
+  entries.delete(path);
+  totalBytes -= entry.bytes;
+}
+
+function trim(): void {
+  for (const path of entries.keys()) {
+    if (totalBytes <= maxBytes) break;
+    evict(path);
+  }
+}
+
+/**
+ * Load and parse a workbook, reusing the parsed copy from earlier calls while
+ * the file's size and modification time are unchanged. Parsing uses the
+ * options shared by every tool, so one cached copy serves all of them.
+ * Encrypted workbooks are decrypted with `password` first, and their cached
+ * copy is only reused for calls passing the same password.
+ */
+export function loadWorkbook(filePath: string, password?: string): CachedWorkbook {
+  const path = resolve(filePath);
+  const stats = statSync(path);
+
+  const cached = entries.get(path);
+  if (
+    cached &&
+    cached.size === stats.size &&
+    cached.mtimeMs === stats.mtimeMs &&
+    (!cached.value.encryption || cached.password === password)
+  ) {
+    entries.delete(path);
+    entries.set(path, cached);
+    return cached.value;
+  }
+  evict(path);
+
+  const fileName = path.split(/[\\/]/).pop() || "";
+  const { buffer, encryption } = decryptWorkbook(readFileSync(path), password, fileName);
+  const workbook = XLSX.read(buffer, {
+    type: "buffer",
+    cellDates: true,
+    cellFormula: true,
+    cellNF: true,
+    // Row and column properties, which carry their hidden flags
+    cellStyles: true,
+    cellText: true,
+    dateNF: "yyyy-mm-dd",
+  });
+  const value: CachedWorkbook = {
+    filePath: path,
+    buffer,
+    workbook,
+    ...(encryption ? { encryption } : {}),
+    rows: new Map(),
+  };
+
+  const bytes = buffer.length * WORKBOOK_SIZE_FACTOR;
+  if (bytes <= maxBytes) {
+    entries.set(path, { size: stats.size, mtimeMs: stats.mtimeMs, ...(encryption ? { password } : {}), bytes, value });
+    totalBytes += bytes;
+    trim();
+  }
+  return value;
+}
+
+/**
+ * Return the rows cached under `key` for this workbook, materializing them
+ * with `build` on first use. The rows count towards the cache's memory cap.
+ */
+export function cachedRows<T extends { rows: unknown[]; columns: string[] }>(
+  cached: CachedWorkbook,
+  key: string,
+  build: () => T,
+): T {
+  const existing = cached.rows.get(key) as T | undefined;
+  if (existing) return existing;
+
+  const value = build();
+  const entry = entries.get(cached.filePath);
+  if (entry?.value === cached) {
+    const bytes = value.rows.length * Math.max(1, value.columns.length) * ROW_CELL_SIZE;
+    cached.rows.set(key, value);
+    entry.bytes += bytes;
+    totalBytes += bytes;
+    trim();
+  }
+  return value;
+}
+
+/**
+ * Set the cache's memory cap in bytes; 0 disables caching.
+ */
+export function setWorkbookCacheLimit(bytes: number): void {
+  maxBytes = bytes;
+  trim();
+}
+
+export function clearWorkbookCache(): void {
+  entries.clear();
+  totalBytes = 0;
+}
+
+export function getWorkbookCacheStats(): { entries: number; bytes: number; maxBytes: number } {
+  return { entries: entries.size, bytes: totalBytes, maxBytes };
+}
@@ -0,0 +1,450 @@
+import { existsSync, statSync } from "node:fs";
+import * as CFB from "cfb";
+import JSZip from "jszip";
+import type * as XLSX from "xlsx";
+import type {
+  GetWorkbookInfoArgs,
+  GetWorkbookInfoResult,
+  WorkbookFormat,
+  WorkbookProperties,
+  WorkbookProtection,
+} from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
+import { readBiffRecords } from "./xls-image-extractor.js";
+import { decodeXml, isCompoundFile, isZipPackage, listSheetParts, readPart, xmlElements } from "./xlsx-package.js";
+
+// BIFF record types
+const BIFF_BOF = 0x0809;
+const BIFF_EOF = 0x000a;
+const BIFF_CALCMODE = 0x000d;
+const BIFF_PROTECT = 0x0012;
+const BIFF_WINDOWPROTECT = 0x0019;
+
+// Property value types (VT_*) used by the summary information streams
+const VT_I2 = 0x0002;
+const VT_I4 = 0x0003;
+const VT_R8 = 0x0005;
+const VT_BOOL = 0x000b;
+const VT_UI4 = 0x0013;
+const VT_INT = 0x0016;
+const VT_LPSTR = 0x001e;
+const VT_LPWSTR = 0x001f;
+const VT_FILETIME = 0x0040;
+
+const CP_WINUNICODE = 1200;
+// Milliseconds between the FILETIME epoch (1601-01-01) and the Unix epoch
+const FILETIME_EPOCH_OFFSET = 11644473600000;
+
+// Property IDs of the SummaryInformation set
+const SUMMARY_PROPERTIES: Record<number, keyof WorkbookProperties> = {
+  2: "title",
+  3: "subject",
+  4: "author",
+  5: "keywords",
+  6: "description",
+  8: "lastModifiedBy",
+  9: "revision",
+  11: "lastPrinted",
+  12: "created",
+  13: "modified",
+  18: "application",
+};
+
+// Property IDs of the DocumentSummaryInformation set
+const DOCUMENT_SUMMARY_PROPERTIES: Record<number, keyof WorkbookProperties> = {
+  2: "category",
+  14: "manager",
+  15: "company",
+  23: "appVersion",
+};
+
+// Elements of docProps/core.xml and docProps/app.xml
+const CORE_PROPERTIES: Record<string, keyof WorkbookProperties> = {
+  title: "title",
+  subject: "subject",
+  creator: "author",
+  keywords: "keywords",
+  description: "description",
+  lastModifiedBy: "lastModifiedBy",
+  revision: "revision",
+  lastPrinted: "lastPrinted",
+  created: "created",
+  modified: "modified",
+  category: "category",
+};
+const APP_PROPERTIES: Record<string, keyof WorkbookProperties> = {
+  Application: "application",
+  AppVersion: "appVersion",
+  Company: "company",
+  Manager: "manager",
+};
+
+// SheetJS Props keys, for the formats read through SheetJS alone
+const SHEETJS_PROPERTIES: Record<string, keyof WorkbookProperties> = {
+  Title: "title",
+  Subject: "subject",
+  Author: "author",
+  LastAuthor: "lastModifiedBy",
+  CreatedDate: "created",
+  ModifiedDate: "modified",
+  Keywords: "keywords",
+  Comments: "description",
+  Category: "category",
+  Company: "company",
+  Manager: "manager",
+  Application: "application",
+  AppVersion: "appVersion",
+};
+
+// Main part content types of Open XML workbooks
+const PACKAGE_TYPES: Record<string, string> = {
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml": "xlsx",
+  "application/vnd.ms-excel.sheet.macroEnabled.main+xml": "xlsm",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.template.main+xml": "xltx",
+  "application/vnd.ms-excel.template.macroEnabled.main+xml": "xltm",
+  "application/vnd.ms-excel.addin.macroEnabled.main+xml": "xlam",
+  "application/vnd.ms-excel.sheet.binary.macroEnabled.main": "xlsb",
+};
+
+// CALCMODE values; -1 (stored as 0xFFFF) is automatic except data tables
+const CALC_MODES: Record<number, string> = { 0: "manual", 1: "auto", 65535: "autoNoTable" };
+
+interface PropertySet {
+  codePage: number;
+  values: Map<number, unknown>;
+  /** Property names by ID, from the dictionary of user-defined sets */
+  names: Map<number, string>;
+}
+
+// Code pages whose TextDecoder label is not windows-<code page>
+const CODE_PAGE_LABELS: Record<number, string> = {
+  932: "shift_jis",
+  936: "gbk",
+  949: "euc-kr",
+  950: "big5",
+  10000: "macintosh",
+};
+
+function decodeString(bytes: Buffer, codePage: number): string {
+  let text: string;
+  if (codePage === CP_WINUNICODE) {
+    text = bytes.toString("utf16le");
+  } else if (codePage === 65001) {
+    text = bytes.toString("utf8");
+  } else {
+    try {
+      text = new TextDecoder(CODE_PAGE_LABELS[codePage] ?? `windows-${codePage}`).decode(bytes);
+    } catch {
+      text = bytes.toString("latin1");
+    }
+  }
+  return text.replace(/\0+$/, "");
+}
+
+/**
+ * Value of a typed property at `offset`. Types the summary streams use for
+ * anything other than document properties (thumbnails, heading vectors) are
+ * skipped.
+ */
+function readPropertyValue(stream: Buffer, offset: number, codePage: number): unknown {
+  const type = stream.readUInt16LE(offset);
+  const at = offset + 4;
+  switch (type) {
+    case VT_I2:
+      return stream.readInt16LE(at);
+    case VT_I4:
+    case VT_INT:
+      return stream.readInt32LE(at);
+    case VT_UI4:
+      return stream.readUInt32LE(at);
+    case VT_R8:
+      return stream.readDoubleLE(at);
+    case VT_BOOL:
+      return stream.readInt16LE(at) !== 0;
+    case VT_LPSTR: {
+      const size = stream.readUInt32LE(at);
+      return decodeString(stream.subarray(at + 4, at + 4 + size), codePage);
+    }
+    case VT_LPWSTR: {
+      const length = stream.readUInt32LE(at);
+      return decodeString(stream.subarray(at + 4, at + 4 + length * 2), CP_WINUNICODE);
+    }
+    case VT_FILETIME: {
+      const ticks = stream.readUInt32LE(at + 4) * 2 ** 32 + stream.readUInt32LE(at);
+      // Unset dates are stored as zero
+      return ticks === 0 ? undefined : new Date(ticks / 10000 - FILETIME_EPOCH_OFFSET);
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Dictionary (property 0) of a user-defined set, naming its properties
+function readDictionary(stream: Buffer, offset: number, codePage: number): Map<number, string> {
+  const names = new Map<number, string>();
+  const count = stream.readUInt32LE(offset);
+  let pos = offset + 4;
+  for (let i = 0; i < count && pos + 8 <= stream.length; i++) {
+    const id = stream.readUInt32LE(pos);
+    const length = stream.readUInt32LE(pos + 4);
+    pos += 8;
+    if (codePage === CP_WINUNICODE) {
+      names.set(id, decodeString(stream.subarray(pos, pos + length * 2), codePage));
+      // Unicode names are padded to a multiple of 4 bytes
+      pos += Math.ceil((length * 2) / 4) * 4;
+    } else {
+      names.set(id, decodeString(stream.subarray(pos, pos + length), codePage));
+      pos += length;
+    }
+  }
+  return names;
+}
+
+/**
+ * Property sets of a SummaryInformation or DocumentSummaryInformation stream
+ * (MS-OLEPS). The document summary stream carries the user-defined
+ * properties in its second set.
+ */
+function readPropertySets(stream: Buffer): PropertySet[] {
+  if (stream.length < 28 || stream.readUInt16LE(0) !== 0xfffe) return [];
+  const sets: PropertySet[] = [];
+  const setCount = stream.readUInt32LE(24);
+  for (let s = 0; s < setCount && 48 + s * 20 <= stream.length; s++) {
+    const start = stream.readUInt32LE(44 + s * 20);
+    const count = stream.readUInt32LE(start + 4);
+    const offsets = Array.from({ length: count }, (_, i) => ({
+      id: stream.readUInt32LE(start + 8 + i * 8),
+      offset: start + stream.readUInt32LE(start + 12 + i * 8),
+    }));
+
+    // Strings are decoded with the set's code page, so it is read first
+    const codePageEntry = offsets.find((entry) => entry.id === 1);
+    const codePage = codePageEntry ? stream.readUInt16LE(codePageEntry.offset + 4) : CP_WINUNICODE;
+    const set: PropertySet = { codePage, values: new Map(), names: new Map() };
+    for (const { id, offset } of offsets) {
+      if (id === 0) {
+        set.names = readDictionary(stream, offset, codePage);
+      } else if (id !== 1) {
+        const value = readPropertyValue(stream, offset, codePage);
+        if (value !== undefined) set.values.set(id, value);
+      }
+    }
+    sets.push(set);
+  }
+  return sets;
+}
+
+// Text form of a property value, dates as ISO 8601
+const propertyText = (value: unknown): string => (value instanceof Date ? value.toISOString() : String(value));
+
+function assignProperties(
+  properties: WorkbookProperties,
+  values: Map<number, unknown>,
+  ids: Record<number, keyof WorkbookProperties>,
+): void {
+  for (const [id, value] of values) {
+    const key = ids[id];
+    if (!key || value === "") continue;
+    if (key === "appVersion" && typeof value === "number") {
+      // Major version in the high word, minor in the low word: 0x00100000 is "16.0000"
+      properties[key] = `${value >>> 16}.${String(value & 0xffff).padStart(4, "0")}`;
+    } else {
+      properties[key] = propertyText(value);
+    }
+  }
+}
+
+interface FormatDetails {
+  properties: WorkbookProperties;
+  customProperties: Record<string, unknown>;
+  format: Omit<WorkbookFormat, "fileSize">;
+  calcMode?: string;
+  protection?: Omit<WorkbookProtection, "encryption">;
+}
+
+const flag = (value: string | undefined): boolean => value === "1" || value === "true";
+
+function readCompoundFile(buffer: Buffer, sheetNames: string[]): FormatDetails {
+  const cfb = CFB.read(buffer, { type: "buffer" });
+  const stream = (name: string): Buffer | undefined => {
+    const entry = CFB.find(cfb, name);
+    return entry?.content ? Buffer.from(entry.content) : undefined;
+  };
+
+  const properties: WorkbookProperties = {};
+  const customProperties: Record<string, unknown> = {};
+  const summary = stream("/\u0005SummaryInformation");
+  const [summarySet] = summary ? readPropertySets(summary) : [];
+  if (summarySet) assignProperties(properties, summarySet.values, SUMMARY_PROPERTIES);
+  const documentSummary = stream("/\u0005DocumentSummaryInformation");
+  const [documentSet, userSet] = documentSummary ? readPropertySets(documentSummary) : [];
+  if (documentSet) assignProperties(properties, documentSet.values, DOCUMENT_SUMMARY_PROPERTIES);
+  for (const [id, value] of userSet?.values ?? []) {
+    const name = userSet.names.get(id);
+    if (name) customProperties[name] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  // Version from the first BOF, calculation mode from the first CALCMODE record. PROTECT locks
+  // the structure in the globals substream and its sheet in a sheet substream, which follow the
+  // globals in sheet order; charts embedded in a sheet nest substreams of their own.
+  let biffVersion: number | undefined;
+  let calcMode: string | undefined;
+  const protection = { structure: false, windows: false, protectedSheets: [] as string[] };
+  let substream = -1;
+  let depth = 0;
+  const workbookStream = stream("/Workbook") ?? stream("/Book");
+  for (const record of workbookStream ? readBiffRecords(workbookStream) : []) {
+    const value = record.data.length >= 2 ? record.data.readUInt16LE(0) : 0;
+    if (record.type === BIFF_BOF) {
+      if (depth++ === 0) substream++;
+      biffVersion ??= value >= 0x0600 ? 8 : 5;
+    } else if (record.type === BIFF_EOF) {
+      depth = Math.max(depth - 1, 0);
+    } else if (record.type === BIFF_CALCMODE) {
+      calcMode ??= CALC_MODES[value];
+    } else if (record.type === BIFF_WINDOWPROTECT && value !== 0) {
+      protection.windows = true;
+    } else if (record.type === BIFF_PROTECT && value !== 0 && depth === 1) {
+      if (substream === 0) protection.structure = true;
+      else if (sheetNames[substream - 1] !== undefined) protection.protectedSheets.push(sheetNames[substream - 1]);
+    }
+  }
+
+  return {
+    properties,
+    customProperties,
+    format: {
+      type: "xls",
+      container: "cfb",
+      ...(biffVersion !== undefined ? { biffVersion } : {}),
+      hasMacros: Boolean(CFB.find(cfb, "/_VBA_PROJECT_CUR")),
+    },
+    ...(calcMode ? { calcMode } : {}),
+    protection,
+  };
+}
+
+// Value of a docProps/custom.xml property, typed by its vt: element
+function customValue(xml: string): unknown {
+  const match = /<(?:\w+:)?(\w+)\b[^>]*>([\s\S]*?)<\/(?:\w+:)?\1>/.exec(xml);
+  if (!match) return null;
+  const [, type, body] = match;
+  const text = decodeXml(body);
+  if (/^(?:i[1248]|ui[1248]|int|uint|r4|r8|decimal)$/.test(type)) return Number(text);
+  if (type === "bool") return text === "true" || text === "1";
+  return text;
+}
+
+async function readPackage(buffer: Buffer, workbook: XLSX.WorkBook, extension: string): Promise<FormatDetails> {
+  const zip = await JSZip.loadAsync(buffer);
+  const elementText = (xml: string, name: string): string | undefined => {
+    const element = xmlElements(xml, name)[0];
+    return element ? decodeXml(element.body).trim() : undefined;
+  };
+
+  // OpenDocument and other non-Open XML packages carry no docProps parts
+  const contentTypes = await readPart(zip, "[Content_Types].xml");
+  const workbookPart = contentTypes
+    ? xmlElements(contentTypes, "Override").find(({ attributes }) => /^\/xl\/workbook\.\w+$/.test(attributes.PartName))
+    : undefined;
+  if (!workbookPart) {
+    const mimetype = (await readPart(zip, "mimetype"))?.trim();
+    return {
+      ...fromSheetJS(workbook),
+      format: {
+        type: mimetype === "application/vnd.oasis.opendocument.spreadsheet" ? "ods" : extension,
+        container: "zip",
+        hasMacros: false,
+      },
+    };
+  }
+
+  const properties: WorkbookProperties = {};
+  const core = (await readPart(zip, "docProps/core.xml")) ?? "";
+  for (const [element, key] of Object.entries(CORE_PROPERTIES)) {
+    const text = elementText(core, element);
+    if (text) properties[key] = text;
+  }
+  const app = (await readPart(zip, "docProps/app.xml")) ?? "";
+  for (const [element, key] of Object.entries(APP_PROPERTIES)) {
+    const text = elementText(app, element);
+    if (text) properties[key] = text;
+  }
+
+  const customProperties: Record<string, unknown> = {};
+  for (const property of xmlElements((await readPart(zip, "docProps/custom.xml")) ?? "", "property")) {
+    if (property.attributes.name) customProperties[property.attributes.name] = customValue(property.body);
+  }
+
+  const workbookXml = (await readPart(zip, workbookPart.attributes.PartName.slice(1))) ?? "";
+  const calcMode = xmlElements(workbookXml, "calcPr")[0]?.attributes.calcMode;
+  const lock = xmlElements(workbookXml, "workbookProtection")[0]?.attributes ?? {};
+  const protectedSheets: string[] = [];
+  for (const part of await listSheetParts(zip)) {
+    const sheetXml = (await readPart(zip, part.path)) ?? "";
+    if (flag(xmlElements(sheetXml, "sheetProtection")[0]?.attributes.sheet)) protectedSheets.push(part.name);
+  }
+  return {
+    properties,
+    customProperties,
+    format: {
+      type: PACKAGE_TYPES[workbookPart.attributes.ContentType] ?? extension,
+      container: "zip",
+      hasMacros: Object.keys(zip.files).some((path) => /^xl\/vbaProject\.bin$/i.test(path)),
+    },
+    ...(calcMode ? { calcMode } : {}),
+    protection: { structure: flag(lock.lockStructure), windows: flag(lock.lockWindows), protectedSheets },
+  };
+}
+
+// Properties SheetJS parsed, for formats without a reader of their own
+function fromSheetJS(workbook: XLSX.WorkBook): Pick<FormatDetails, "properties" | "customProperties"> {
+  const properties: WorkbookProperties = {};
+  const props: Record<string, unknown> = { ...workbook.Props };
+  for (const [name, key] of Object.entries(SHEETJS_PROPERTIES)) {
+    const value = props[name];
+    if (value !== undefined && value !== "") properties[key] = propertyText(value);
+  }
+  return { properties, customProperties: { ...workbook.Custprops } };
+}
+
+/**
+ * Document properties, date system, calculation mode, protection and format
+ * of a workbook. .xlsx packages are read from their docProps parts, .xls files
+ * from the OLE summary information streams and the BIFF workbook stream;
+ * other formats fall back to what SheetJS parsed. Encrypted files are
+ * described as decrypted, with their encryption under protection.
+ */
+export async function getWorkbookInfo(args: GetWorkbookInfoArgs): Promise<GetWorkbookInfoResult> {
+  const { filePath, password } = args;
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const { buffer, workbook, encryption } = loadWorkbook(filePath, password);
+  const fileName = filePath.split(/[\\/]/).pop() || "";
+  const extension = fileName.includes(".") ? (fileName.split(".").pop() ?? "").toLowerCase() : "";
+
+  let details: FormatDetails;
+  if (isZipPackage(buffer)) {
+    details = await readPackage(buffer, workbook, extension);
+  } else if (isCompoundFile(buffer)) {
+    details = readCompoundFile(buffer, workbook.SheetNames);
+  } else {
+    details = { ...fromSheetJS(workbook), format: { type: extension, container: "none", hasMacros: false } };
+  }
+
+  return {
+    fileName,
+    format: { ...details.format, fileSize: statSync(filePath).size },
+    properties: details.properties,
+    customProperties: details.customProperties,
+    dateSystem: workbook.Workbook?.WBProps?.date1904 ? 1904 : 1900,
+    calcMode: details.calcMode ?? "auto",
+    protection: {
+      ...(encryption ? { encryption } : {}),
+      ...(details.protection ?? { structure: false, windows: false, protectedSheets: [] }),
+    },
+    sheetCount: workbook.SheetNames.length,
+  };
+}
@@ -1,9 +1,9 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync } from "node:fs";
 import { inflateSync } from "node:zlib";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import * as CFB from "cfb";
-import * as XLSX from "xlsx";
 import type { ExtractedImage, GetExcelImagesArgs, ImagePosition } from "./types.js";
+import { loadWorkbook } from "./workbook-cache.js";
 
 const MAX_IMAGES_SIZE = 10 * 1024 * 1024; // 10MB total base64 size limit
 
@@ -37,7 +37,7 @@ const ESCHER_BLIP_DIB = 0xf01f;
 const ESCHER_BLIP_TIFF = 0xf029;
 const ESCHER_BLIP_JPEG2 = 0xf02a;
 
-interface BiffRecord {
+export interface BiffRecord {
   type: number;
   data: Buffer;
 }
@@ -94,7 +94,7 @@ function getMimeAndExt(blipType: number): { mimeType: string; extension: string
  * Read BIFF records from a workbook stream buffer.
  * Handles CONTINUE records by merging them into the preceding record.
  */
-function readBiffRecords(buf: Buffer): BiffRecord[] {
+export function readBiffRecords(buf: Buffer): BiffRecord[] {
   const records: BiffRecord[] = [];
   let offset = 0;
 
@@ -348,16 +348,14 @@ export async function extractXlsImages(args: GetExcelImagesArgs): Promise<{
   images: ExtractedImage[];
   truncated: boolean;
 }> {
-  const { filePath, sheetName } = args;
+  const { filePath, password, sheetName } = args;
 
   if (!existsSync(filePath)) {
     throw new McpError(ErrorCode.InvalidRequest, `File not found: ${filePath}`);
   }
 
-  const buffer = readFileSync(filePath);
-
-  // Parse with SheetJS to get sheet names
-  const workbook = XLSX.read(buffer, { type: "buffer" });
+  // Parsed with SheetJS (and cached) to get sheet names
+  const { buffer, workbook } = loadWorkbook(filePath, password);
   const sheetNames = workbook.SheetNames;
 
   if (sheetName && !sheetNames.includes(sheetName)) {
@@ -0,0 +1,136 @@
+import type JSZip from "jszip";
+
+export interface PackageRelationship {
+  id: string;
+  /** Last segment of the relationship type URI, e.g. "worksheet" or "comments" */
+  type: string;
+  /** Package path of the target part, or the raw URI for external targets */
+  target: string;
+  external: boolean;
+}
+
+export interface PackageSheetPart {
+  name: string;
+  path: string;
+  rels: PackageRelationship[];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: XML 1.0 has no way to write these characters
+const XML_INVALID_CHARACTERS = /[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g;
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return XML_ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+/**
+ * Escape text for XML content or attribute values, dropping the control
+ * characters XML 1.0 cannot represent.
+ */
+export function encodeXml(text: string): string {
+  return text
+    .replace(XML_INVALID_CHARACTERS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Attributes of an XML start tag, keyed by local name (namespace prefixes
+ * such as "r:" are dropped) with entities decoded.
+ */
+export function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].replace(/^[\w.-]+:/, "")] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+export interface XmlElement {
+  attributes: Record<string, string>;
+  /** Inner XML; empty for self-closing elements */
+  body: string;
+}
+
+/**
+ * Elements with the given local name, in document order. An element nested
+ * inside another of the same name is not told apart, which none of the parts
+ * read this way contain.
+ */
+export function xmlElements(xml: string, name: string): XmlElement[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${name}>)`, "g");
+  return [...xml.matchAll(pattern)].map((match) => ({ attributes: xmlAttributes(match[1]), body: match[2] ?? "" }));
+}
+
+export function resolveRelativePath(baseDir: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = baseDir.split("/");
+  const targetParts = target.split("/");
+  for (const part of targetParts) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part !== ".") {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+export const isZipPackage = (buffer: Buffer): boolean => buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b;
+
+// OLE2 compound files: .xls workbooks and encrypted Open XML packages
+export const isCompoundFile = (buffer: Buffer): boolean =>
+  buffer.length >= 4 && buffer[0] === 0xd0 && buffer[1] === 0xcf && buffer[2] === 0x11 && buffer[3] === 0xe0;
+
+export async function readPart(zip: JSZip, path: string): Promise<string | undefined> {
+  const file = zip.files[path];
+  return file && !file.dir ? file.async("text") : undefined;
+}
+
+/**
+ * Relationships of a package part, with internal targets resolved to package paths.
+ */
+export async function readRelationships(zip: JSZip, partPath: string): Promise<PackageRelationship[]> {
+  const dir = partPath.substring(0, partPath.lastIndexOf("/"));
+  const fileName = partPath.split("/").pop();
+  const xml = await readPart(zip, `${dir ? `${dir}/` : ""}_rels/${fileName}.rels`);
+  if (!xml) return [];
+
+  return [...xml.matchAll(/<Relationship\b[^>]*>/g)].map((match) => {
+    const { Id, Type = "", Target = "", TargetMode } = xmlAttributes(match[0]);
+    const external = TargetMode === "External";
+    return {
+      id: Id,
+      type: Type.split("/").pop() || "",
+      target: external ? Target : resolveRelativePath(dir, Target),
+      external,
+    };
+  });
+}
+
+/**
+ * Worksheet parts of an .xlsx package in workbook order, with their
+ * relationships. Returns an empty list for packages without xl/workbook.xml
+ * (e.g. .xlsb), which callers treat as "nothing found in the package".
+ */
+export async function listSheetParts(zip: JSZip): Promise<PackageSheetPart[]> {
+  const workbookXml = await readPart(zip, "xl/workbook.xml");
+  if (!workbookXml) return [];
+
+  const workbookRels = await readRelationships(zip, "xl/workbook.xml");
+  const sheets: PackageSheetPart[] = [];
+  for (const match of workbookXml.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+    const { name, id } = xmlAttributes(match[0]);
+    const rel = workbookRels.find((r) => r.id === id);
+    if (!rel) continue;
+    sheets.push({ name, path: rel.target, rels: await readRelationships(zip, rel.target) });
+  }
+  return sheets;
+}